@@ -0,0 +1,202 @@
+import type { RTOS } from './rtos';
+import { RTOSError } from './errors';
+import { BlockingRequest } from './types';
+
+/**
+ * 异步任务中的 RTOS 接口
+ * 阻塞调用返回 Promise，只有在调度器再次调度任务时才会兑现
+ */
+export type AsyncRTOS = Omit<RTOS, 'delay' | 'delayMs' | 'delayUntil' | 'yield' | 'notifyTake' | 'notifyWait'> & {
+  delay(ticks: number): Promise<void>;
+  delayMs(ms: number): Promise<void>;
+  delayUntil(tick: number): Promise<void>;
+  yield(): Promise<void>;
+  notifyTake(clearOnExit?: boolean, timeoutTicks?: number): Promise<number>;
+  notifyWait(bitsToClearOnEntry?: number, bitsToClearOnExit?: number, timeoutTicks?: number): Promise<number>;
+  wait<T = any>(request: BlockingRequest): Promise<T>;  // 等待内核对象操作，例如 await rtos.wait(queue.receive())
+};
+
+/**
+ * 异步任务函数
+ */
+export type AsyncTaskFunction = (rtos: AsyncRTOS, params?: any) => Promise<void>;
+
+/**
+ * 是否是原生 async 函数
+ */
+export function isAsyncFunction(fn: Function): boolean {
+  return fn.constructor.name === 'AsyncFunction';
+}
+
+/**
+ * 是否是调度器能处理的内核请求 (延时或阻塞请求)
+ */
+function isKernelRequest(value: any): boolean {
+  return value !== null && typeof value === 'object' &&
+    (typeof value.delayTicks === 'number' || value.type === 'blocking');
+}
+
+/**
+ * 异步任务恢复执行后、尚未提交新请求时交给调度器的值
+ * 调度器可以等待任务执行到下一个 await 后在同一步内再次取出请求
+ */
+export class AsyncContinuation {
+  constructor(private readonly settled: Promise<void>) {}
+
+  /**
+   * 等待任务提交新的请求或结束；任务在等待内核以外的 Promise 时最多等到下一个宏任务
+   */
+  wait(): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(resolve, 0);
+      this.settled.then(() => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+}
+
+type RunnerState = 'notStarted' | 'running' | 'waiting' | 'completed' | 'failed';
+
+/**
+ * 异步任务执行器
+ *
+ * 以迭代器的形式交给调度器驱动，和 Generator 任务走同一条调度路径：
+ * 任务 await 一个内核请求时，请求在下一次调度时交给调度器 (延时、阻塞)；
+ * 调度器再次调度任务时兑现 Promise，任务在微任务中继续执行到下一个 await。
+ * 任务尚未提交新的请求时交出 AsyncContinuation，调度器 (异步推进或实时时钟) 在这一步内等待任务提交请求，
+ * 任务代码仍然在自己的上下文中执行。
+ */
+export class AsyncTaskRunner implements Iterator<any, void, any> {
+  private state: RunnerState = 'notStarted';
+  private request: { value: any } | null = null;   // 已提交、尚未交给调度器的请求
+  private resume: ((value: any) => void) | null = null;
+  private settle: (() => void) | null = null;   // 兑现交给调度器的 AsyncContinuation
+  private error: unknown = undefined;
+  private readonly api: AsyncRTOS;
+
+  constructor(rtos: RTOS, private taskFunction: AsyncTaskFunction, private params: any) {
+    this.api = createAsyncRTOS(rtos, this);
+  }
+
+  [Symbol.iterator](): this {
+    return this;
+  }
+
+  /**
+   * 调度器调度任务，value 为上次请求的结果
+   */
+  next(value?: any): IteratorResult<any, void> {
+    switch (this.state) {
+      case 'notStarted':
+        this.start();
+        break;
+      case 'waiting':
+        if (!this.request && this.resume) {
+          // 请求已经完成，恢复任务
+          const resume = this.resume;
+          this.resume = null;
+          this.state = 'running';
+          resume(value);
+        }
+        break;
+      case 'failed':
+        this.state = 'completed';
+        throw this.error;
+      case 'completed':
+        return { done: true, value: undefined };
+    }
+
+    // 把任务提交的请求交给调度器
+    if (this.request) {
+      const request = this.request.value;
+      this.request = null;
+      return { done: false, value: request };
+    }
+    if (this.state === 'running') {
+      // 任务在微任务中继续执行，尚未提交新的请求
+      return { done: false, value: new AsyncContinuation(new Promise(resolve => {
+        this.settle = resolve;
+      })) };
+    }
+    return { done: false, value: undefined };
+  }
+
+  /**
+   * 提交内核请求，返回在调度器再次调度任务时兑现的 Promise
+   */
+  wait<T = any>(request: any): Promise<T> {
+    if (this.state !== 'running') {
+      return Promise.reject(new RTOSError('INVALID_CONTEXT', 'Async task is already waiting for a kernel request'));
+    }
+
+    this.state = 'waiting';
+    this.request = { value: request };
+    this.settled();
+    return new Promise<T>(resolve => {
+      this.resume = resolve;
+    });
+  }
+
+  /**
+   * 开始执行任务函数，同步部分执行到第一个 await
+   */
+  private start(): void {
+    this.state = 'running';
+    Promise.resolve(this.taskFunction(this.api, this.params)).then(
+      () => {
+        this.state = 'completed';
+        this.settled();
+      },
+      error => {
+        this.state = 'failed';
+        this.error = error;
+        this.settled();
+      }
+    );
+  }
+
+  /**
+   * 任务提交了新的请求或已经结束
+   */
+  private settled(): void {
+    const settle = this.settle;
+    this.settle = null;
+    settle?.();
+  }
+}
+
+/**
+ * 创建绑定到任务的 RTOS 接口，返回内核请求的方法改为提交请求并返回 Promise
+ */
+function createAsyncRTOS(rtos: RTOS, runner: AsyncTaskRunner): AsyncRTOS {
+  return new Proxy(rtos, {
+    get(target, property) {
+      if (property === 'wait') {
+        return (request: BlockingRequest) => runner.wait(request);
+      }
+      if (property === 'yield') {
+        return () => runner.wait(undefined);
+      }
+
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      return (...args: any[]) => {
+        const result = value.apply(target, args);
+        return isKernelRequest(result) ? runner.wait(result) : result;
+      };
+    }
+  }) as unknown as AsyncRTOS;
+}
+
+/**
+ * 把异步任务函数包装为调度器可以驱动的 Generator 函数
+ */
+export function createAsyncTask(rtos: RTOS, taskFunction: AsyncTaskFunction): (params?: any) => Generator<any, void, any> {
+  return function* (params?: any) {
+    return yield* new AsyncTaskRunner(rtos, taskFunction, params);
+  };
+}
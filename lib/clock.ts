@@ -0,0 +1,86 @@
+import { TickSource } from './types';
+
+/**
+ * 实时时钟源 - 使用 setInterval 按 tickRate 产生时钟节拍
+ */
+export class RealTimeTickSource implements TickSource {
+  private interval: any = null;
+  private sleepTimeout: any = null;
+  private sleepStart: number = 0;
+  private onWake: ((elapsedTicks: number) => void) | null = null;
+  private onTick: (() => void) | null = null;
+  private intervalMs: number = 0;
+
+  start(onTick: () => void, intervalMs: number): void {
+    this.stop();
+    this.onTick = onTick;
+    this.intervalMs = intervalMs;
+    this.interval = setInterval(onTick, intervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    if (this.sleepTimeout) {
+      clearTimeout(this.sleepTimeout);
+      this.sleepTimeout = null;
+      this.onWake = null;
+    }
+  }
+
+  /**
+   * 停止周期节拍，睡眠 ticks 个周期后唤醒并重新开始产生节拍
+   */
+  sleep(ticks: number, onWake: (elapsedTicks: number) => void): void {
+    if (!this.onTick || !this.interval) {
+      return;
+    }
+
+    clearInterval(this.interval);
+    this.interval = null;
+    this.sleepStart = Date.now();
+    this.onWake = onWake;
+    this.sleepTimeout = setTimeout(() => this.wake(ticks), ticks * this.intervalMs);
+  }
+
+  /**
+   * 提前结束睡眠，按实际经过的节拍周期唤醒
+   */
+  abortSleep(): void {
+    if (!this.sleepTimeout) {
+      return;
+    }
+
+    clearTimeout(this.sleepTimeout);
+    this.wake(Math.floor((Date.now() - this.sleepStart) / this.intervalMs));
+  }
+
+  /**
+   * 唤醒并重新开始产生周期节拍
+   */
+  private wake(elapsedTicks: number): void {
+    const onWake = this.onWake;
+    this.sleepTimeout = null;
+    this.onWake = null;
+    onWake?.(elapsedTicks);
+    if (this.onTick) {
+      this.interval = setInterval(this.onTick, this.intervalMs);
+    }
+  }
+}
+
+/**
+ * 虚拟时钟源 - 不自动产生节拍
+ * 时钟节拍完全由 Scheduler.advance() / RTOS.step() 手动推进，调度结果可精确复现
+ */
+export class VirtualTickSource implements TickSource {
+  start(): void {
+    // 虚拟时钟不依赖真实时间
+  }
+
+  stop(): void {
+    // 虚拟时钟不依赖真实时间
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * RTOS 错误码
+ */
+export type RTOSErrorCode = 'MAX_TASKS' | 'NO_MEMORY' | 'INVALID_PRIORITY' | 'INVALID_CONTEXT';
+
+/**
+ * RTOS 错误基类，通过 code 区分错误类型
+ */
+export class RTOSError extends Error {
+  readonly code: RTOSErrorCode;
+
+  constructor(code: RTOSErrorCode, message: string) {
+    super(message);
+    this.name = 'RTOSError';
+    this.code = code;
+  }
+}
+
+/**
+ * 创建任务失败
+ */
+export class TaskCreationError extends RTOSError {
+  constructor(code: RTOSErrorCode, message: string) {
+    super(code, message);
+    this.name = 'TaskCreationError';
+  }
+}
@@ -0,0 +1,190 @@
+import { TaskManager } from './task';
+import { WaitList } from './waitlist';
+import { BlockingRequest, MAX_DELAY, TaskHandle } from './types';
+
+/**
+ * waitBits 选项
+ */
+export interface WaitBitsOptions {
+  waitForAll?: boolean;   // true: 等待所有位, false: 任意一位即可 (默认)
+  clearOnExit?: boolean;  // 条件满足后清除等待的位 (默认 true)
+  timeout?: number;       // 超时节拍数 (默认 MAX_DELAY)
+}
+
+/**
+ * 等待条件
+ */
+interface BitsCondition {
+  mask: number;
+  waitForAll: boolean;
+  clearOnExit: boolean;
+}
+
+/**
+ * 事件组 (xEventGroupSetBits / xEventGroupWaitBits / xEventGroupSync)
+ *
+ * 等待操作返回 BlockingRequest，任务需要 yield 它，唤醒时得到条件满足时的事件位：
+ *   const bits = yield group.waitBits(0b11, { waitForAll: true, timeout: 10 });
+ * 超时返回当前事件位，可通过 (bits & mask) 判断条件是否满足。
+ */
+export class EventGroup {
+  readonly name: string;
+  private bits: number = 0;
+  private waiters: WaitList;
+  private conditions: Map<TaskHandle, BitsCondition> = new Map();
+
+  constructor(private taskManager: TaskManager, name: string) {
+    this.name = name;
+    this.waiters = new WaitList(taskManager);
+  }
+
+  /**
+   * 设置事件位，并重新检查所有等待任务的条件
+   * @returns 处理完等待任务（含退出时清除）后的事件位
+   */
+  setBits(bits: number): number {
+    this.bits |= bits;
+
+    // 所有等待任务基于同一事件值判断，退出时清除的位统一在最后清除
+    let bitsToClear = 0;
+    for (const handle of this.waiters.getWaiters()) {
+      const condition = this.conditions.get(handle);
+      if (!condition || !this.isSatisfied(condition)) {
+        continue;
+      }
+
+      if (condition.clearOnExit) {
+        bitsToClear |= condition.mask;
+      }
+      this.waiters.remove(handle);
+      this.conditions.delete(handle);
+      this.taskManager.wakeTask(handle, this.bits);
+    }
+
+    this.bits &= ~bitsToClear;
+    return this.bits;
+  }
+
+  /**
+   * 清除事件位
+   * @returns 清除前的事件位
+   */
+  clearBits(bits: number): number {
+    const previous = this.bits;
+    this.bits &= ~bits;
+    return previous;
+  }
+
+  /**
+   * 获取当前事件位
+   */
+  getBits(): number {
+    return this.bits;
+  }
+
+  /**
+   * 等待事件位
+   */
+  waitBits(mask: number, options: WaitBitsOptions = {}): BlockingRequest {
+    this.validateMask(mask);
+
+    const condition: BitsCondition = {
+      mask,
+      waitForAll: options.waitForAll ?? false,
+      clearOnExit: options.clearOnExit ?? true
+    };
+
+    return this.createWaitRequest(condition, options.timeout ?? MAX_DELAY, () => {
+      if (!this.isSatisfied(condition)) {
+        return null;
+      }
+      const value = this.bits;
+      if (condition.clearOnExit) {
+        this.bits &= ~mask;
+      }
+      return value;
+    });
+  }
+
+  /**
+   * 任务同步点 (rendezvous)：设置自己的位，然后等待 waitMask 中的所有位
+   * 所有参与者到达后，waitMask 中的位被清除
+   */
+  sync(setBits: number, waitMask: number, timeout: number = MAX_DELAY): BlockingRequest {
+    this.validateMask(waitMask);
+
+    const condition: BitsCondition = {
+      mask: waitMask,
+      waitForAll: true,
+      clearOnExit: true
+    };
+
+    return this.createWaitRequest(condition, timeout, () => {
+      // 设置位可能直接唤醒其他参与者并清除同步位，因此用设置前的值判断
+      const value = this.bits | setBits;
+      this.setBits(setBits);
+      if ((value & waitMask) !== waitMask) {
+        return null;
+      }
+      this.bits &= ~waitMask;
+      return value;
+    });
+  }
+
+  /**
+   * 获取等待事件的任务
+   */
+  getWaiters(): TaskHandle[] {
+    return this.waiters.getWaiters();
+  }
+
+  /**
+   * 创建等待请求
+   * @param tryComplete 尝试立即满足条件，满足时返回传回任务的事件值，否则返回 null
+   */
+  private createWaitRequest(
+    condition: BitsCondition,
+    timeoutTicks: number,
+    tryComplete: () => number | null
+  ): BlockingRequest {
+    const group = this;
+    return {
+      type: 'blocking',
+      reason: `eventgroup:${this.name}`,
+      timeoutTicks,
+      // 超时返回当前事件位
+      get timeoutValue() {
+        return group.bits;
+      },
+      attempt: () => {
+        const value = tryComplete();
+        return value === null ? { completed: false } : { completed: true, value };
+      },
+      wait: (handle) => {
+        this.conditions.set(handle, condition);
+        this.waiters.add(handle);
+      },
+      cancel: (handle) => {
+        this.conditions.delete(handle);
+        this.waiters.remove(handle);
+      }
+    };
+  }
+
+  /**
+   * 检查等待条件是否满足
+   */
+  private isSatisfied(condition: BitsCondition): boolean {
+    const matched = this.bits & condition.mask;
+    return condition.waitForAll ? matched === condition.mask : matched !== 0;
+  }
+
+  /**
+   * 检查等待的位
+   */
+  private validateMask(mask: number): void {
+    if (!Number.isInteger(mask) || mask <= 0) {
+      throw new Error(`Invalid event group bits: ${mask}`);
+    }
+  }
+}
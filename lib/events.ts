@@ -0,0 +1,139 @@
+import { KernelEvents, LogEntry, LogLevel, LogSink } from './types';
+
+/**
+ * 事件监听器
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * 类型化的事件发射器
+ */
+export class EventEmitter<Events extends object> {
+  private listeners: Map<keyof Events, Set<EventListener<any>>> = new Map();
+
+  /**
+   * 订阅事件
+   * @returns 取消订阅的函数
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * 订阅事件，触发一次后自动取消
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const unsubscribe = this.on(event, payload => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * 取消订阅
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): boolean {
+    return this.listeners.get(event)?.delete(listener) ?? false;
+  }
+
+  /**
+   * 发出事件，监听器出错不影响其他监听器和发出者
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        // 不能通过 log 事件输出，否则出错的日志输出会再次触发自身
+        console.error(`事件 ${String(event)} 的监听器执行出错:`, error);
+      }
+    }
+  }
+
+  /**
+   * 事件的监听器数量
+   */
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+}
+
+/**
+ * 输出到 console 的日志输出端 (默认)
+ */
+export const consoleLogSink: LogSink = entry => {
+  console[entry.level](entry.message, ...entry.args);
+};
+
+/**
+ * 把日志参数格式化为文本，对象转为 JSON
+ */
+export function formatLogArgs(args: unknown[]): string {
+  return args.map(arg => {
+    if (typeof arg === 'string') {
+      return arg;
+    }
+    if (arg instanceof Error) {
+      return arg.stack ?? `${arg.name}: ${arg.message}`;
+    }
+    if (typeof arg === 'object' && arg !== null) {
+      try {
+        return JSON.stringify(arg, null, 2);
+      } catch {
+        return String(arg);
+      }
+    }
+    return String(arg);
+  }).join(' ');
+}
+
+/**
+ * 内核事件总线
+ *
+ * 内核通过 log 事件输出日志，日志输出端就是 log 事件的监听器。
+ */
+export class KernelEventBus extends EventEmitter<KernelEvents> {
+  /**
+   * @param sinks 初始的日志输出端，默认输出到 console
+   * @param getTickCount 获取当前节拍，记录在日志中
+   */
+  constructor(sinks: LogSink[] = [consoleLogSink], private getTickCount: () => number = () => 0) {
+    super();
+    sinks.forEach(sink => this.addLogSink(sink));
+  }
+
+  /**
+   * 添加日志输出端
+   * @returns 移除输出端的函数
+   */
+  addLogSink(sink: LogSink): () => void {
+    return this.on('log', sink);
+  }
+
+  /**
+   * 移除日志输出端
+   */
+  removeLogSink(sink: LogSink): boolean {
+    return this.off('log', sink);
+  }
+
+  /**
+   * 输出日志
+   */
+  log(level: LogLevel, message: string, ...args: unknown[]): void {
+    const entry: LogEntry = { level, message, args, tick: this.getTickCount() };
+    this.emit('log', entry);
+  }
+}
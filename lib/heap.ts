@@ -0,0 +1,362 @@
+import { HeapScheme, HeapStats } from './types';
+
+/**
+ * 内存块
+ */
+export interface HeapBlock {
+  address: number;
+  size: number;     // 含块头和对齐填充的实际大小
+  region: number;   // 所属内存区域 (heap_5)
+}
+
+/**
+ * 字节对齐 (portBYTE_ALIGNMENT)
+ */
+const HEAP_ALIGNMENT = 8;
+
+/**
+ * 空闲链表的块头大小 (BlockLink_t)
+ */
+const BLOCK_HEADER_SIZE = 8;
+
+/**
+ * 可以拆分出来的最小空闲块 (heapMINIMUM_BLOCK_SIZE)
+ */
+const MINIMUM_BLOCK_SIZE = BLOCK_HEADER_SIZE * 2;
+
+/**
+ * heap_5 中相邻区域之间的地址间隔，保证不同区域的块不会被合并
+ */
+const REGION_GAP = 0x1000;
+
+/**
+ * 模拟堆 - 管理地址与空闲块，不保存实际数据
+ */
+export abstract class Heap {
+  readonly scheme: HeapScheme;
+  readonly totalSize: number;
+  protected allocated: Map<number, HeapBlock> = new Map();
+  private minimumEverFree: number;
+  private successfulAllocations: number = 0;
+  private successfulFrees: number = 0;
+
+  constructor(scheme: HeapScheme, totalSize: number) {
+    if (!Number.isInteger(totalSize) || totalSize <= 0) {
+      throw new Error(`Invalid heap size: ${totalSize}`);
+    }
+
+    this.scheme = scheme;
+    this.totalSize = totalSize;
+    this.minimumEverFree = totalSize;
+  }
+
+  /**
+   * 分配内存 (pvPortMalloc)
+   * @returns 块地址，内存不足时返回 null
+   */
+  malloc(size: number): number | null {
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new Error(`Invalid allocation size: ${size}`);
+    }
+
+    const block = this.allocate(this.getBlockSize(size));
+    if (!block) {
+      return null;
+    }
+
+    this.allocated.set(block.address, block);
+    this.successfulAllocations++;
+    this.minimumEverFree = Math.min(this.minimumEverFree, this.getFreeHeapSize());
+    return block.address;
+  }
+
+  /**
+   * 释放内存 (vPortFree)
+   */
+  free(address: number): void {
+    const block = this.allocated.get(address);
+    if (!block) {
+      throw new Error(`Invalid free address: ${address}`);
+    }
+
+    if (this.release(block)) {
+      this.allocated.delete(address);
+      this.successfulFrees++;
+    }
+  }
+
+  /**
+   * 剩余空间 (xPortGetFreeHeapSize)
+   */
+  getFreeHeapSize(): number {
+    return this.getFreeBlocks().reduce((sum, block) => sum + block.size, 0);
+  }
+
+  /**
+   * 历史最小剩余空间 (xPortGetMinimumEverFreeHeapSize)
+   */
+  getMinimumEverFreeHeapSize(): number {
+    return this.minimumEverFree;
+  }
+
+  /**
+   * 获取堆统计信息
+   */
+  getStats(): HeapStats {
+    const freeBlocks = this.getFreeBlocks();
+    const sizes = freeBlocks.map(block => block.size);
+    const freeSize = this.getFreeHeapSize();
+    const largestFreeBlock = sizes.length > 0 ? Math.max(...sizes) : 0;
+
+    return {
+      scheme: this.scheme,
+      totalSize: this.totalSize,
+      freeSize,
+      minimumEverFreeSize: this.minimumEverFree,
+      largestFreeBlock,
+      smallestFreeBlock: sizes.length > 0 ? Math.min(...sizes) : 0,
+      freeBlocks: freeBlocks.length,
+      allocatedBlocks: this.allocated.size,
+      successfulAllocations: this.successfulAllocations,
+      successfulFrees: this.successfulFrees,
+      fragmentation: freeSize > 0 ? 1 - largestFreeBlock / freeSize : 0
+    };
+  }
+
+  /**
+   * 按地址顺序列出所有块，用于展示内存布局
+   */
+  getBlocks(): Array<HeapBlock & { free: boolean }> {
+    return [
+      ...Array.from(this.allocated.values()).map(block => ({ ...block, free: false })),
+      ...this.getFreeBlocks().map(block => ({ ...block, free: true }))
+    ].sort((a, b) => a.address - b.address);
+  }
+
+  /**
+   * 计算请求大小对应的块大小 (加上块头并对齐)
+   */
+  protected getBlockSize(size: number): number {
+    const total = size + BLOCK_HEADER_SIZE;
+    return Math.ceil(total / HEAP_ALIGNMENT) * HEAP_ALIGNMENT;
+  }
+
+  /**
+   * 从空闲块中切出指定大小，剩余部分足够大时作为新的空闲块
+   * @returns [分配的块, 剩余的空闲块]
+   */
+  protected split(block: HeapBlock, size: number): [HeapBlock, HeapBlock | null] {
+    if (block.size - size < MINIMUM_BLOCK_SIZE) {
+      return [block, null];
+    }
+    return [
+      { address: block.address, size, region: block.region },
+      { address: block.address + size, size: block.size - size, region: block.region }
+    ];
+  }
+
+  protected abstract allocate(size: number): HeapBlock | null;
+  protected abstract release(block: HeapBlock): boolean;
+  protected abstract getFreeBlocks(): HeapBlock[];
+}
+
+/**
+ * heap_1: 只分配不释放，从堆起始处顺序分配
+ */
+export class BumpHeap extends Heap {
+  private nextAddress: number = 0;
+
+  constructor(totalSize: number) {
+    super('heap_1', totalSize);
+  }
+
+  protected override getBlockSize(size: number): number {
+    // 不需要块头
+    return Math.ceil(size / HEAP_ALIGNMENT) * HEAP_ALIGNMENT;
+  }
+
+  protected allocate(size: number): HeapBlock | null {
+    if (this.nextAddress + size > this.totalSize) {
+      return null;
+    }
+
+    const block = { address: this.nextAddress, size, region: 0 };
+    this.nextAddress += size;
+    return block;
+  }
+
+  protected release(): boolean {
+    // heap_1 不支持释放，内存永久占用
+    return false;
+  }
+
+  protected getFreeBlocks(): HeapBlock[] {
+    const size = this.totalSize - this.nextAddress;
+    return size > 0 ? [{ address: this.nextAddress, size, region: 0 }] : [];
+  }
+}
+
+/**
+ * heap_2: 最佳适配，释放时不合并相邻空闲块
+ */
+export class BestFitHeap extends Heap {
+  private freeList: HeapBlock[];
+
+  constructor(totalSize: number) {
+    super('heap_2', totalSize);
+    this.freeList = [{ address: 0, size: totalSize, region: 0 }];
+  }
+
+  protected allocate(size: number): HeapBlock | null {
+    let best: HeapBlock | null = null;
+    for (const block of this.freeList) {
+      if (block.size >= size && (!best || block.size < best.size)) {
+        best = block;
+      }
+    }
+    if (!best) {
+      return null;
+    }
+
+    this.freeList.splice(this.freeList.indexOf(best), 1);
+    const [allocated, remainder] = this.split(best, size);
+    if (remainder) {
+      this.freeList.push(remainder);
+    }
+    return allocated;
+  }
+
+  protected release(block: HeapBlock): boolean {
+    this.freeList.push(block);
+    return true;
+  }
+
+  protected getFreeBlocks(): HeapBlock[] {
+    return [...this.freeList];
+  }
+}
+
+/**
+ * heap_3: 包装宿主的 malloc/free，只统计用量，碎片由宿主分配器处理
+ */
+export class WrappedHeap extends Heap {
+  private nextAddress: number = 0;
+  private usedSize: number = 0;
+
+  constructor(totalSize: number) {
+    super('heap_3', totalSize);
+  }
+
+  protected override getBlockSize(size: number): number {
+    return size;
+  }
+
+  protected allocate(size: number): HeapBlock | null {
+    if (this.usedSize + size > this.totalSize) {
+      return null;
+    }
+
+    // 地址只用于标识块，不代表实际布局
+    const block = { address: this.nextAddress, size, region: 0 };
+    this.nextAddress += size;
+    this.usedSize += size;
+    return block;
+  }
+
+  protected release(block: HeapBlock): boolean {
+    this.usedSize -= block.size;
+    return true;
+  }
+
+  protected getFreeBlocks(): HeapBlock[] {
+    const size = this.totalSize - this.usedSize;
+    return size > 0 ? [{ address: -1, size, region: 0 }] : [];
+  }
+}
+
+/**
+ * heap_4: 首次适配，释放时合并相邻空闲块
+ * heap_5 在此基础上支持多个不连续的内存区域
+ */
+export class CoalescingHeap extends Heap {
+  private freeList: HeapBlock[] = []; // 按地址排序
+
+  /**
+   * @param regionSizes 各内存区域的大小，heap_4 只有一个区域
+   */
+  constructor(regionSizes: number[], scheme: HeapScheme = 'heap_4') {
+    super(scheme, regionSizes.reduce((sum, size) => sum + size, 0));
+
+    let address = 0;
+    regionSizes.forEach((size, region) => {
+      if (!Number.isInteger(size) || size <= 0) {
+        throw new Error(`Invalid heap region size: ${size}`);
+      }
+      this.freeList.push({ address, size, region });
+      address += size + REGION_GAP;
+    });
+  }
+
+  protected allocate(size: number): HeapBlock | null {
+    const index = this.freeList.findIndex(block => block.size >= size);
+    if (index === -1) {
+      return null;
+    }
+
+    const [allocated, remainder] = this.split(this.freeList[index]!, size);
+    if (remainder) {
+      this.freeList.splice(index, 1, remainder);
+    } else {
+      this.freeList.splice(index, 1);
+    }
+    return allocated;
+  }
+
+  protected release(block: HeapBlock): boolean {
+    let index = this.freeList.findIndex(free => free.address > block.address);
+    if (index === -1) {
+      index = this.freeList.length;
+    }
+
+    let merged = { ...block };
+    // 与后一个空闲块合并
+    const next = this.freeList[index];
+    if (next && next.region === merged.region && merged.address + merged.size === next.address) {
+      merged.size += next.size;
+      this.freeList.splice(index, 1);
+    }
+    // 与前一个空闲块合并
+    const previous = this.freeList[index - 1];
+    if (previous && previous.region === merged.region && previous.address + previous.size === merged.address) {
+      merged = { ...previous, size: previous.size + merged.size };
+      this.freeList.splice(index - 1, 1);
+      index--;
+    }
+
+    this.freeList.splice(index, 0, merged);
+    return true;
+  }
+
+  protected getFreeBlocks(): HeapBlock[] {
+    return [...this.freeList];
+  }
+}
+
+/**
+ * 按策略创建模拟堆
+ * @param regionSizes heap_5 的内存区域大小，未提供时使用一个 totalSize 大小的区域
+ */
+export function createHeap(scheme: HeapScheme, totalSize: number, regionSizes?: number[]): Heap {
+  switch (scheme) {
+    case 'heap_1':
+      return new BumpHeap(totalSize);
+    case 'heap_2':
+      return new BestFitHeap(totalSize);
+    case 'heap_3':
+      return new WrappedHeap(totalSize);
+    case 'heap_4':
+      return new CoalescingHeap([totalSize]);
+    case 'heap_5':
+      return new CoalescingHeap(regionSizes ?? [totalSize], 'heap_5');
+  }
+}
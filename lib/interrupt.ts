@@ -0,0 +1,207 @@
+import { Interrupt, InterruptHandler, InterruptSource } from './types';
+import { KernelEventBus } from './events';
+
+/**
+ * 中断控制器 (类似 NVIC)
+ *
+ * 触发的中断先挂起，由调度器在任务的两步之间调用 dispatch() 执行；
+ * 在中断服务程序中触发更高优先级的中断时立即嵌套执行，其余的等当前中断退出后按优先级执行。
+ */
+export class InterruptController {
+  private interrupts: Map<number, Interrupt> = new Map();
+  private active: Interrupt[] = []; // 正在执行的中断，末尾为最内层
+  private basePriority: number | null = null; // 优先级不高于此值的中断被屏蔽 (类似 BASEPRI)
+
+  /**
+   * @param onExit 最外层中断退出时调用，用于执行延迟的任务切换
+   * @param events 发出中断进入/退出事件和出错日志
+   */
+  constructor(private onExit: () => void, private events: KernelEventBus = new KernelEventBus()) {}
+
+  /**
+   * 注册中断，已存在时替换
+   */
+  register(irq: number, priority: number, handler: InterruptHandler, source?: InterruptSource): void {
+    this.validateNumber('interrupt number', irq);
+    this.validateNumber('interrupt priority', priority);
+    if (source?.period !== undefined && (!Number.isInteger(source.period) || source.period <= 0)) {
+      throw new Error(`Invalid interrupt period: ${source.period}`);
+    }
+    if (source?.probability !== undefined && !(source.probability >= 0 && source.probability <= 1)) {
+      throw new Error(`Invalid interrupt probability: ${source.probability}`);
+    }
+
+    this.interrupts.set(irq, {
+      irq,
+      priority,
+      handler,
+      source: source ?? null,
+      pending: false,
+      count: 0
+    });
+  }
+
+  /**
+   * 注销中断
+   */
+  unregister(irq: number): boolean {
+    return this.interrupts.delete(irq);
+  }
+
+  /**
+   * 触发中断
+   * @returns 中断未注册时返回 false
+   */
+  trigger(irq: number): boolean {
+    const interrupt = this.interrupts.get(irq);
+    if (!interrupt) {
+      return false;
+    }
+
+    interrupt.pending = true;
+    if (this.isInISR()) {
+      // 只有更高优先级的中断才能嵌套
+      this.dispatch();
+    }
+    return true;
+  }
+
+  /**
+   * 时钟节拍处理，触发到期的周期中断和随机中断
+   */
+  tick(tickCount: number): void {
+    for (const interrupt of this.interrupts.values()) {
+      const source = interrupt.source;
+      if (!source) {
+        continue;
+      }
+
+      const periodic = source.period !== undefined && tickCount % source.period === 0;
+      const random = source.probability !== undefined && (source.random ?? Math.random)() < source.probability;
+      if (periodic || random) {
+        interrupt.pending = true;
+      }
+    }
+  }
+
+  /**
+   * 距离下一次中断源触发的节拍数，存在随机中断源时返回 1，没有中断源时返回 Infinity
+   */
+  getTicksToNextSource(tickCount: number): number {
+    let ticks = Infinity;
+    for (const interrupt of this.interrupts.values()) {
+      const source = interrupt.source;
+      if (source?.probability !== undefined) {
+        return 1;
+      }
+      if (source?.period !== undefined) {
+        ticks = Math.min(ticks, source.period - tickCount % source.period);
+      }
+    }
+    return ticks;
+  }
+
+  /**
+   * 按优先级执行挂起的中断，在中断中调用时只执行优先级更高的中断
+   */
+  dispatch(): void {
+    let next = this.getNextPending();
+    while (next) {
+      this.run(next);
+      next = this.getNextPending();
+    }
+  }
+
+  /**
+   * 屏蔽优先级不高于 priority 的中断，null 表示不屏蔽
+   * 被屏蔽的中断保持挂起，解除屏蔽后由下一次 dispatch() 执行
+   */
+  setBasePriority(priority: number | null): void {
+    this.basePriority = priority;
+  }
+
+  /**
+   * 是否有挂起的中断
+   */
+  hasPending(): boolean {
+    return this.getInterrupts().some(interrupt => interrupt.pending);
+  }
+
+  /**
+   * 是否处于中断上下文
+   */
+  isInISR(): boolean {
+    return this.active.length > 0;
+  }
+
+  /**
+   * 获取当前正在执行的 (最内层) 中断
+   */
+  getCurrentInterrupt(): Interrupt | null {
+    return this.active[this.active.length - 1] ?? null;
+  }
+
+  /**
+   * 获取所有已注册的中断
+   */
+  getInterrupts(): Interrupt[] {
+    return Array.from(this.interrupts.values());
+  }
+
+  /**
+   * 执行中断服务程序
+   */
+  private run(interrupt: Interrupt): void {
+    interrupt.pending = false;
+    interrupt.count++;
+    this.active.push(interrupt);
+    this.events.emit('isrEnter', { irq: interrupt.irq, priority: interrupt.priority, nesting: this.active.length });
+
+    try {
+      interrupt.handler(interrupt.irq);
+    } catch (error) {
+      this.events.log('error', `中断 ${interrupt.irq} 执行出错:`, error);
+    } finally {
+      this.active.pop();
+      this.events.emit('isrExit', { irq: interrupt.irq });
+    }
+
+    if (!this.isInISR()) {
+      this.onExit();
+    }
+  }
+
+  /**
+   * 获取优先级最高且能打断当前中断的挂起中断，优先级相同时中断号小的优先
+   */
+  private getNextPending(): Interrupt | null {
+    const current = this.getCurrentInterrupt();
+    let next: Interrupt | null = null;
+
+    for (const interrupt of this.interrupts.values()) {
+      if (!interrupt.pending || (current && interrupt.priority <= current.priority) || this.isMasked(interrupt)) {
+        continue;
+      }
+      if (!next || interrupt.priority > next.priority || (interrupt.priority === next.priority && interrupt.irq < next.irq)) {
+        next = interrupt;
+      }
+    }
+    return next;
+  }
+
+  /**
+   * 中断是否被屏蔽
+   */
+  private isMasked(interrupt: Interrupt): boolean {
+    return this.basePriority !== null && interrupt.priority <= this.basePriority;
+  }
+
+  /**
+   * 检查非负整数参数
+   */
+  private validateNumber(name: string, value: number): void {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+  }
+}
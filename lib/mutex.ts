@@ -0,0 +1,151 @@
+import { TaskManager } from './task';
+import { WaitList } from './waitlist';
+import { BlockingRequest, MAX_DELAY, TaskHandle } from './types';
+
+/**
+ * 互斥量 (支持优先级继承和递归加锁)
+ *
+ * 高优先级任务阻塞在被低优先级任务持有的互斥量上时，持有者临时继承等待者的优先级，
+ * 释放互斥量后恢复基础优先级，避免中等优先级任务造成的优先级反转。
+ *   const ok = yield mutex.take(10); // 获取成功返回 true，超时返回 false
+ *   mutex.give();
+ */
+export class Mutex {
+  readonly name: string;
+  readonly recursive: boolean;
+  private holder: TaskHandle | null = null;
+  private recursionCount: number = 0;
+  private waiters: WaitList;
+
+  constructor(private taskManager: TaskManager, recursive: boolean, name: string) {
+    this.name = name;
+    this.recursive = recursive;
+    this.waiters = new WaitList(taskManager);
+  }
+
+  /**
+   * 获取互斥量
+   */
+  take(timeoutTicks: number = MAX_DELAY): BlockingRequest {
+    return {
+      type: 'blocking',
+      reason: `mutex:${this.name}`,
+      timeoutTicks,
+      timeoutValue: false,
+      attempt: (handle) => this.tryAcquire(handle)
+        ? { completed: true, value: true }
+        : { completed: false },
+      wait: (handle) => {
+        this.waiters.add(handle);
+        this.updateHolderPriority();
+      },
+      cancel: (handle) => {
+        this.waiters.remove(handle);
+        this.updateHolderPriority();
+      }
+    };
+  }
+
+  /**
+   * 释放互斥量 (只有持有者可以释放)
+   * @returns 当前任务不是持有者时返回 false
+   */
+  give(): boolean {
+    const current = this.taskManager.getCurrentTask();
+    if (this.holder === null || current !== this.holder) {
+      return false;
+    }
+
+    // 递归互斥量需要 give 与 take 次数相同才真正释放
+    this.recursionCount--;
+    if (this.recursionCount > 0) {
+      return true;
+    }
+
+    const holder = this.taskManager.getTaskInfo(this.holder);
+    this.holder = null;
+    if (holder) {
+      holder.mutexesHeld--;
+      // 不再持有任何互斥量时恢复基础优先级
+      if (holder.mutexesHeld === 0) {
+        this.taskManager.disinheritPriority(holder.handle);
+      }
+    }
+
+    // 交给优先级最高的等待任务
+    this.waiters.process();
+    this.updateHolderPriority();
+    return true;
+  }
+
+  /**
+   * 获取持有者
+   */
+  getHolder(): TaskHandle | null {
+    return this.holder;
+  }
+
+  /**
+   * 获取递归加锁次数
+   */
+  getRecursionCount(): number {
+    return this.recursionCount;
+  }
+
+  /**
+   * 获取等待互斥量的任务
+   */
+  getWaiters(): TaskHandle[] {
+    return this.waiters.getWaiters();
+  }
+
+  /**
+   * 尝试让任务获得互斥量
+   */
+  private tryAcquire(handle: TaskHandle): boolean {
+    if (this.holder === null) {
+      const task = this.taskManager.getTaskInfo(handle);
+      if (!task) {
+        return false;
+      }
+      this.holder = handle;
+      this.recursionCount = 1;
+      task.mutexesHeld++;
+      return true;
+    }
+
+    // 非递归互斥量重复获取会一直阻塞 (与 FreeRTOS 行为一致)
+    if (this.holder === handle && this.recursive) {
+      this.recursionCount++;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 根据等待任务的最高优先级调整持有者的优先级
+   */
+  private updateHolderPriority(): void {
+    if (this.holder === null) {
+      return;
+    }
+
+    const holder = this.taskManager.getTaskInfo(this.holder);
+    if (!holder) {
+      return;
+    }
+
+    const first = this.waiters.first();
+    const waiterPriority = first !== null
+      ? this.taskManager.getTaskInfo(first)?.priority ?? holder.basePriority
+      : holder.basePriority;
+
+    if (waiterPriority > holder.priority) {
+      this.taskManager.inheritPriority(holder.handle, waiterPriority);
+    } else if (holder.mutexesHeld === 1) {
+      // 等待者超时离开后，只持有本互斥量的任务可以安全地降回
+      this.taskManager.disinheritPriority(holder.handle, waiterPriority);
+    }
+  }
+}
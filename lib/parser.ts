@@ -1,5 +1,145 @@
 import { Parser } from 'acorn';
-import { simple as walk } from 'acorn-walk';
+import { simple as walk, ancestor, recursive, base } from 'acorn-walk';
+import { findParameterReferences, findDeclaringScope, findBinding } from './scope';
+import { MappedSegment, SourceMap, setSourceLocation } from './sourcemap';
+
+/**
+ * 默认的阻塞 API：延时、让出 CPU，以及队列、信号量、互斥量、事件组和任务通知的等待操作
+ * 转换时在这些方法的调用前插入 yield
+ */
+export const DEFAULT_BLOCKING_CALLS: readonly string[] = [
+  'delay', 'delayMs', 'delayUntil', 'yield',
+  'send', 'sendToFront', 'receive', 'peek', 'take', 'waitBits', 'sync', 'notifyTake', 'notifyWait'
+];
+
+/**
+ * 转换时发现的问题，行列为任务函数源码中的位置 (从 1 开始)
+ */
+export interface ParserDiagnostic {
+  severity: 'warning';
+  message: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * 解析器选项
+ */
+export interface RTOSParserOptions {
+  yieldAllStatements?: boolean;
+  blockingCalls?: Iterable<string>;   // 阻塞 API 的方法名，默认为 DEFAULT_BLOCKING_CALLS
+  onDiagnostic?: (diagnostic: ParserDiagnostic) => void;   // 诊断输出端，RTOS 输出到内核事件总线
+}
+
+/**
+ * 阻塞 API 的别名
+ * member: const d = rtos.delay，调用时需要绑定 this；
+ * destructured: const { delay } = rtos；bound: const d = rtos.delay.bind(rtos)
+ */
+interface BlockingAlias {
+  kind: 'member' | 'destructured' | 'bound';
+  object: any;     // 方法所属对象的表达式节点
+  method: string;
+  member: any;     // 别名声明中的 rtos.delay 成员访问节点，解构时为 null
+}
+
+/**
+ * 阻塞调用分析结果
+ */
+interface BlockingAnalysis {
+  calls: Map<any, BlockingAlias | null>;   // 阻塞调用节点 → 调用所用的别名，直接调用方法时为 null
+  aliases: BlockingAlias[];
+  unresolved: any[];                       // 无法确定对象来源的阻塞 API 调用
+}
+
+/**
+ * 阻塞 API 调用对象的来源
+ * task: RTOS 或任务参数 (包括局部函数的参数和由它们得到的局部变量)；other: 与任务参数无关的对象；unknown: 无法确定
+ */
+type CallTarget = 'task' | 'other' | 'unknown';
+
+/**
+ * 合并两个来源，undefined 表示只经过循环引用、没有结论
+ */
+function combineTargets(a: CallTarget | undefined, b: CallTarget | undefined): CallTarget | undefined {
+  if (a === undefined || b === undefined) {
+    return a ?? b;
+  }
+  return a === b ? a : 'unknown';
+}
+
+/**
+ * 局部函数的一处调用
+ */
+interface CallSite {
+  node: any;
+  ancestors: any[];
+}
+
+/**
+ * 新建的值，不会是 RTOS 或任务参数中的内核对象
+ */
+const CONSTRUCTED_VALUES = new Set([
+  'Literal', 'TemplateLiteral', 'ObjectExpression', 'ArrayExpression', 'NewExpression',
+  'FunctionExpression', 'ArrowFunctionExpression', 'ClassExpression'
+]);
+
+/**
+ * yield 表达式可以不加括号直接出现的父节点类型
+ */
+const BARE_YIELD_PARENTS = new Set(['ExpressionStatement', 'VariableDeclarator', 'AssignmentExpression', 'ReturnStatement']);
+
+/**
+ * 任务函数中 RTOS 参数的规范名，转换后的函数体通过这个名字访问 RTOS
+ */
+const RTOS_PARAM = 'rtos';
+
+/**
+ * 生成的任务函数的参数，console 和 log 由 RTOS 传入，输出到内核事件总线
+ */
+const TASK_FUNCTION_PARAMS = [RTOS_PARAM, 'console = globalThis.console', 'log'];
+
+/**
+ * 已生成的任务函数数量，用于给生成代码命名 (sourceURL)
+ */
+let compiledTasks = 0;
+
+/**
+ * 基于源码位置的编辑：把 [start, end) 替换为 text，start === end 时为插入
+ */
+interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * 把编辑应用到源码的 [from, to) 区间，返回编辑后的这段代码
+ * 同一位置的多个插入按加入顺序输出，插入排在替换之前；传入 segments 时记录原样复制的源码片段
+ */
+function applyEdits(code: string, edits: SourceEdit[], from: number = 0, to: number = code.length, segments?: MappedSegment[]): string {
+  const sorted = edits
+    .map((edit, index) => ({ edit, index }))
+    .filter(({ edit }) => edit.start >= from && edit.end <= to)
+    .sort((a, b) =>
+      a.edit.start - b.edit.start ||
+      (a.edit.end - a.edit.start) - (b.edit.end - b.edit.start) ||
+      a.index - b.index
+    );
+
+  let result = '';
+  let position = from;
+  for (const { edit } of sorted) {
+    if (edit.start < position) {
+      throw new Error(`Overlapping source edits at offset ${edit.start}`);
+    }
+    segments?.push({ generated: result.length, original: position, length: edit.start - position });
+    result += code.slice(position, edit.start) + edit.text;
+    position = edit.end;
+  }
+  segments?.push({ generated: result.length, original: position, length: to - position });
+  return result + code.slice(position, to);
+}
 
 /**
  * RTOS 代码解析器和转换器
@@ -7,81 +147,101 @@ import { simple as walk } from 'acorn-walk';
  */
 export class RTOSParser {
   private yieldAllStatements: boolean = false;
+  private blockingCalls: Set<string> = new Set();
+  private blockingAnalyses: WeakMap<any, BlockingAnalysis> = new WeakMap();
+  private callSites: WeakMap<any, Map<any, CallSite[]>> = new WeakMap();
+  private diagnostics: ParserDiagnostic[] = [];
+  private onDiagnostic: ((diagnostic: ParserDiagnostic) => void) | undefined;
+  private sourceOffset: number = 0;   // 任务函数源码在解析的代码中的起始位置 (解析时可能加了括号)
 
-  constructor(options?: { yieldAllStatements?: boolean }) {
+  constructor(options?: RTOSParserOptions) {
     this.yieldAllStatements = options?.yieldAllStatements || false;
+    this.onDiagnostic = options?.onDiagnostic;
+    for (const name of options?.blockingCalls ?? DEFAULT_BLOCKING_CALLS) {
+      this.registerBlockingCall(name);
+    }
+  }
+
+  /**
+   * 注册阻塞 API，之后转换的任务中对该方法的调用会插入 yield
+   */
+  registerBlockingCall(name: string): void {
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+      throw new Error(`Invalid blocking call: ${name}`);
+    }
+    this.blockingCalls.add(name);
+  }
+
+  /**
+   * 获取已注册的阻塞 API
+   */
+  getBlockingCalls(): string[] {
+    return Array.from(this.blockingCalls);
+  }
+
+  /**
+   * 获取最近一次转换产生的诊断信息
+   */
+  getDiagnostics(): ParserDiagnostic[] {
+    return [...this.diagnostics];
   }
 
   /**
    * 转换任务函数 - 将普通函数转换为 Generator
    */
   transformTaskFunction(taskFunction: Function): Function {
-    try {
-      // 检查输入参数
-      if (!taskFunction || typeof taskFunction !== 'function') {
-        throw new Error('Invalid task function: must be a function');
-      }
-      
+    // 检查输入参数
+    if (!taskFunction || typeof taskFunction !== 'function') {
+      throw new Error('Invalid task function: must be a function');
+    }
+
     // 获取函数的字符串表示
     const funcString = taskFunction.toString();
-      
-      // 使用 acorn 检查是否包含 delay 调用
-      const hasDelayCall = this.hasDelayCallInAST(funcString);
-      
-      if (!hasDelayCall) {
-        // 如果没有 delay 调用，返回一个包装函数，直接调用原函数
-        const functionBody = this.extractFunctionBody(funcString);
-        return new Function('rtos', `
-          return function*() {
-            try {
-              ${functionBody}
-            } catch (error) {
-              console.error('Generator 函数体执行出错:', error);
-              throw error;
-            }
-          };
-        `);
-      }
+    this.diagnostics = [];
 
-      // 检查：只有当函数中有使用传入参数的 delay 调用时，才进行转换
-      if (!this.hasValidDelayCalls(funcString)) {
-        console.warn('函数中没有使用传入参数的 delay 调用，保持原函数不变');
-        return taskFunction;
-      }
-    
-    // 解析并转换函数为 Generator
-    const transformedCode = this.parseAndTransformToGenerator(funcString);
-    
-    // 提取函数体，去掉外层的包装
-    const functionBody = this.extractFunctionBody(transformedCode);
-      
-      // 获取实际的参数名
-      const actualParamName = this.getActualParameterName(transformedCode);
-      
-      // 将函数体中的实际参数名替换为 rtos
-      const normalizedFunctionBody = functionBody.replace(new RegExp(`\\b${actualParamName}\\b`, 'g'), 'rtos');
-    
-    // 直接返回转换后的 Generator 函数
-      return new Function('rtos', `
-      try {
-        return function*() {
-          try {
-            ${normalizedFunctionBody}
-          } catch (error) {
-            console.error('Generator 函数体执行出错:', error);
-            throw error;
+    // 使用 acorn 检查是否包含 delay 调用
+    const hasDelayCall = this.hasDelayCallInAST(funcString);
+
+    // 没有 delay 调用时不插入 yield，只把函数体包装为 Generator
+    const { prologue, body, paramsName, segments } = this.transformFunctionBody(funcString, hasDelayCall);
+    // 函数体放在块中，与函数体外的别名声明 (prologue) 分属不同作用域
+    const head = `
+        return function*(${paramsName}) {
+          ${prologue}
+          {
+`;
+    const code = `${head}${body}
           }
         };
-      } catch (error) {
-        console.error('Generator 函数创建出错:', error);
-        throw error;
-      }
-    `);
-      
-    } catch (error) {
-      console.error('转换任务函数时出错:', error);
-      throw error;
-    }
+`;
+
+    // new Function 生成的源码为 function anonymous(参数\n) {\n函数体\n}，调用栈中的行列相对于这段源码
+    const file = `rtos-task-${++compiledTasks}.js`;
+    const header = `function anonymous(${TASK_FUNCTION_PARAMS.join(',')}\n) {\n`;
+    const offset = header.length + head.length;
+    const sourceMap = new SourceMap(
+      funcString,
+      header + code,
+      segments.map(segment => ({ ...segment, generated: segment.generated + offset })),
+      file
+    );
+    const compiled = new Function(...TASK_FUNCTION_PARAMS, `${code}//# sourceURL=${file}\n${sourceMap.toComment()}`);
+
+    // 返回 Generator 函数，任务出错时记录错误在原始源码中的位置
+    return (...args: any[]) => {
+      const generatorFunction = compiled(...args);
+      return function* (params?: any) {
+        try {
+          return yield* generatorFunction(params);
+        } catch (error) {
+          const location = sourceMap.locateError(error);
+          if (location) {
+            setSourceLocation(error, location);
+          }
+          throw error;
+        }
+      };
+    };
   }
 
   /**
@@ -94,275 +254,684 @@ export class RTOSParser {
         sourceType: 'module'
       });
 
-      let hasDelay = false;
-      const self = this;
-      walk(ast, {
-        CallExpression(node: any) {
-          if (self.isDelayCall(node)) {
-            hasDelay = true;
+      return this.analyzeBlockingCalls(ast).calls.size > 0;
+    } catch (error) {
+      // 如果解析失败，回退到正则表达式
+      const names = Array.from(this.blockingCalls).map(name => name.replace(/\$/g, '\\$'));
+      return names.length > 0 && new RegExp(`\\.(${names.join('|')})\\s*\\(`).test(funcString);
+    }
+  }
+
+  /**
+   * 找出阻塞调用 (注册的阻塞 API)，结果按根节点缓存
+   *
+   * 只有对象来源于 RTOS 或任务参数的方法调用才是阻塞调用 (按作用域解析局部变量的初始值)，
+   * 例如 const q = params.queue 之后的 q.receive()；全局对象和新建对象的同名方法 (socket.send) 保持不变。
+   * 通过别名调用时按作用域解析别名：
+   * const d = rtos.delay、const d = rtos.delay.bind(rtos) 和 const { delay } = rtos 都会被识别。
+   * 没有局部声明的 delay(...) 视为直接的 delay 调用。
+   */
+  private analyzeBlockingCalls(root: any): BlockingAnalysis {
+    const cached = this.blockingAnalyses.get(root);
+    if (cached) {
+      return cached;
+    }
+
+    const scopes: Map<any, Map<string, BlockingAlias>> = new Map();   // 作用域节点 → 名字 → 别名
+    const aliases: BlockingAlias[] = [];
+    const calls: Map<any, BlockingAlias | null> = new Map();
+    const unresolved: any[] = [];
+    const self = this;
+    const fromTask = (node: any, ancestors: any[]) => self.resolveCallTarget(node, ancestors, root) === 'task';
+
+    const addAlias = (ancestors: any[], name: string, alias: BlockingAlias) => {
+      const scope = findDeclaringScope(ancestors, name);
+      if (!scopes.has(scope)) scopes.set(scope, new Map());
+      scopes.get(scope)!.set(name, alias);
+      aliases.push(alias);
+    };
+
+    // 先收集别名，函数声明中的调用可能出现在别名声明之前
+    ancestor(root, {
+      VariableDeclarator(node: any, _state: any, ancestors: any[]) {
+        const { id, init } = node;
+        if (!init) return;
+
+        if (id.type === 'Identifier') {
+          if (self.isBlockingMember(init) && fromTask(init.object, ancestors)) {
+            addAlias(ancestors, id.name, { kind: 'member', object: init.object, method: init.property.name, member: init });
+          } else if (init.type === 'CallExpression' && init.callee.type === 'MemberExpression' && !init.callee.computed &&
+                     init.callee.property.name === 'bind' && self.isBlockingMember(init.callee.object) &&
+                     fromTask(init.callee.object.object, ancestors)) {
+            const member = init.callee.object;
+            addAlias(ancestors, id.name, { kind: 'bound', object: member.object, method: member.property.name, member });
           }
+        } else if (id.type === 'ObjectPattern' && self.isPlainReference(init) && fromTask(init, ancestors)) {
+          id.properties.forEach((property: any) => {
+            if (property.type !== 'Property' || property.computed || property.key.type !== 'Identifier' ||
+                !self.blockingCalls.has(property.key.name)) {
+              return;
+            }
+            const value = property.value.type === 'AssignmentPattern' ? property.value.left : property.value;
+            if (value.type === 'Identifier') {
+              addAlias(ancestors, value.name, { kind: 'destructured', object: init, method: property.key.name, member: null });
+            }
+          });
         }
-      });
+      }
+    });
 
-      return hasDelay;
-    } catch (error) {
-      // 如果解析失败，回退到正则表达式
-      return /\.\w*delay\(/.test(funcString);
+    ancestor(root, {
+      CallExpression(node: any, _state: any, ancestors: any[]) {
+        const callee = node.callee;
+        if (callee.type === 'MemberExpression') {
+          if (!callee.computed && self.blockingCalls.has(callee.property.name)) {
+            const target = self.resolveCallTarget(callee.object, ancestors, root) ?? 'unknown';
+            if (target === 'task') {
+              calls.set(node, null);
+            } else if (target === 'unknown') {
+              unresolved.push(node);
+            }
+          }
+          return;
+        }
+        if (callee.type !== 'Identifier') return;
+
+        const scope = findDeclaringScope(ancestors, callee.name);
+        const alias = scopes.get(scope)?.get(callee.name);
+        if (alias) {
+          calls.set(node, alias);
+        } else if (scope === undefined && callee.name === 'delay' && self.blockingCalls.has('delay')) {
+          calls.set(node, null);
+        }
+      }
+    });
+
+    const analysis = { calls, aliases, unresolved };
+    this.blockingAnalyses.set(root, analysis);
+    return analysis;
+  }
+
+  /**
+   * 是否是形如 rtos.delay 的阻塞 API 成员访问 (对象可以安全地重复求值)
+   */
+  private isBlockingMember(node: any): boolean {
+    return node.type === 'MemberExpression' && !node.computed && this.blockingCalls.has(node.property.name) &&
+      this.isPlainReference(node.object);
+  }
+
+  /**
+   * 是否是变量或成员访问链 (queues.input)，没有调用等副作用
+   */
+  private isPlainReference(node: any): boolean {
+    let current = node;
+    while (current.type === 'MemberExpression' && !current.computed) {
+      current = current.object;
     }
+    return current.type === 'Identifier' || current.type === 'ThisExpression';
   }
 
   /**
-   * 检查是否是 delay 调用
+   * 解析方法调用对象的来源：沿成员访问和调用找到根对象，局部变量按初始值、局部函数的参数按调用处的实参继续解析
+   * 没有局部声明的 rtos 是 RTOS 参数 (生成的任务函数通过这个名字访问 RTOS)；只经过循环引用时返回 undefined
    */
-  private isDelayCall(node: any): boolean {
-    // 检查 delay 方法调用（不限定对象名）
-    if (node.callee.type === 'MemberExpression') {
-      return node.callee.property.name === 'delay';
+  private resolveCallTarget(node: any, ancestors: any[], root: any, seen: Set<any> = new Set()): CallTarget | undefined {
+    let current = node;
+    for (;;) {
+      if (current.type === 'MemberExpression') {
+        current = current.object;
+      } else if (current.type === 'CallExpression') {
+        current = current.callee;
+      } else if (current.type === 'ChainExpression') {
+        current = current.expression;
+      } else if ((current.type === 'YieldExpression' || current.type === 'AwaitExpression') && current.argument) {
+        // 阻塞调用的结果 (yield q.receive()) 同样来源于内核对象
+        current = current.argument;
+      } else {
+        break;
+      }
+    }
+
+    switch (current.type) {
+      case 'Identifier':
+        break;
+      case 'ConditionalExpression':
+        return combineTargets(
+          this.resolveCallTarget(current.consequent, ancestors, root, seen),
+          this.resolveCallTarget(current.alternate, ancestors, root, seen)
+        );
+      case 'LogicalExpression':
+        return combineTargets(this.resolveCallTarget(current.left, ancestors, root, seen), this.resolveCallTarget(current.right, ancestors, root, seen));
+      case 'SequenceExpression':
+        return this.resolveCallTarget(current.expressions[current.expressions.length - 1], ancestors, root, seen);
+      case 'AssignmentExpression':
+        return this.resolveCallTarget(current.right, ancestors, root, seen);
+      default:
+        return CONSTRUCTED_VALUES.has(current.type) ? 'other' : 'unknown';
+    }
+
+    const binding = findBinding(ancestors, current.name);
+    if (!binding) {
+      return current.name === RTOS_PARAM ? 'task' : 'other';
+    }
+    switch (binding.kind) {
+      case 'parameter':
+        return binding.fn === this.getTaskFunction(root) ? 'task' : this.resolveArguments(binding.fn, binding.index, root, seen);
+      case 'other':
+        return 'other';
+      case 'variable':
+        // 没有初始值的变量在之后才赋值，无法确定来源
+        if (!binding.init) {
+          return 'unknown';
+        }
+        if (seen.has(binding.init)) {
+          return undefined;
+        }
+        seen.add(binding.init);
+        return this.resolveCallTarget(binding.init, binding.ancestors, root, seen);
     }
-    
-    // 检查直接的 delay 调用
-    return node.callee.type === 'Identifier' && node.callee.name === 'delay';
   }
 
   /**
-   * 检查是否有使用参数中变量的 delay 调用
+   * 解析局部函数第 index 个参数的来源：所有调用处传入的实参来源相同时才能确定
+   * 没有直接调用处的函数 (例如作为回调传给其他函数) 的参数与任务参数无关
    */
-  private hasValidDelayCalls(funcString: string): boolean {
-    try {
-      const ast = Parser.parse(funcString, {
-        ecmaVersion: 2022,
-        sourceType: 'module'
-      });
+  private resolveArguments(fn: any, index: number, root: any, seen: Set<any>): CallTarget | undefined {
+    const param = fn.params[index];
+    const sites = this.findCallSites(root).get(fn);
+    if (!sites) {
+      return 'other';
+    }
+    if (seen.has(param)) {
+      return undefined;
+    }
+    seen.add(param);
 
-      // 获取函数参数
-      const parameters = this.getFunctionParameters(ast);
-      
-      // 检查 delay 调用是否使用参数中的变量
-      return this.checkValidDelayCalls(ast, parameters);
-    } catch (error) {
-      // 如果检查失败，默认返回 true（进行转换）
-      return true;
+    let target: CallTarget | undefined;
+    for (const { node, ancestors } of sites) {
+      const args = param.type === 'RestElement' ? node.arguments.slice(index) : [node.arguments[index]];
+      for (const arg of args) {
+        const result = arg === undefined ? 'other' :
+          arg.type === 'SpreadElement' ? 'unknown' : this.resolveCallTarget(arg, ancestors, root, seen);
+        target = combineTargets(target, result);
+      }
     }
+    return target;
   }
 
   /**
-   * 获取函数的参数列表
+   * 找出局部函数的调用处 (通过名字调用或立即调用)，结果按根节点缓存
    */
-  private getFunctionParameters(ast: any): string[] {
-    const parameters: string[] = [];
-    
-    walk(ast, {
-      FunctionExpression(node: any) {
-        node.params.forEach((param: any) => {
-          if (param.type === 'Identifier') {
-            parameters.push(param.name);
-          }
-        });
+  private findCallSites(root: any): Map<any, CallSite[]> {
+    const cached = this.callSites.get(root);
+    if (cached) {
+      return cached;
+    }
+
+    const bindings: Map<any, Map<string, any>> = new Map();   // 作用域节点 → 名字 → 函数节点
+    const calls: CallSite[] = [];
+    const bind = (scope: any, name: string, fn: any) => {
+      if (!bindings.has(scope)) bindings.set(scope, new Map());
+      bindings.get(scope)!.set(name, fn);
+    };
+
+    ancestor(root, {
+      Function(node: any, _state: any, ancestors: any[]) {
+        const parent = ancestors[ancestors.length - 2];
+        if (node.type === 'FunctionDeclaration' && node.id) {
+          bind(findDeclaringScope(ancestors.slice(0, -1), node.id.name), node.id.name, node);
+        } else if (parent?.type === 'VariableDeclarator' && parent.init === node && parent.id.type === 'Identifier') {
+          bind(findDeclaringScope(ancestors.slice(0, -1), parent.id.name), parent.id.name, node);
+        }
+        if (node.type === 'FunctionExpression' && node.id) {
+          bind(node, node.id.name, node);
+        }
       },
-      ArrowFunctionExpression(node: any) {
-        node.params.forEach((param: any) => {
-          if (param.type === 'Identifier') {
-            parameters.push(param.name);
-          }
-        });
+      CallExpression(node: any, _state: any, ancestors: any[]) {
+        // 遍历时祖先数组会被复用，需要复制
+        calls.push({ node, ancestors: [...ancestors] });
       }
     });
-    
-    return parameters;
+
+    const sites: Map<any, CallSite[]> = new Map();
+    for (const call of calls) {
+      const callee = call.node.callee;
+      const fn = /Function/.test(callee.type) ? callee :
+        callee.type === 'Identifier' ? bindings.get(findDeclaringScope(call.ancestors, callee.name))?.get(callee.name) : undefined;
+      if (fn) {
+        if (!sites.has(fn)) sites.set(fn, []);
+        sites.get(fn)!.push(call);
+      }
+    }
+
+    this.callSites.set(root, sites);
+    return sites;
   }
 
   /**
-   * 检查是否有使用参数中变量的 delay 调用
+   * 分析的根节点对应的任务函数 (转换时的根节点是任务函数，检查时可能是整段代码)
    */
-  private checkValidDelayCalls(ast: any, parameters: string[]): boolean {
-    let hasValidCall = true;
-    const self = this;
-    
-    walk(ast, {
-      CallExpression(node: any) {
-        if (self.isDelayCall(node)) {
-          // 检查 delay 调用的对象是否是参数中的变量
-          if (node.callee.type === 'MemberExpression') {
-            const objectName = node.callee.object.name;
-            if (!parameters.includes(objectName)) {
-              hasValidCall = false;
-            }
-          }
+  private getTaskFunction(root: any): any {
+    return /Function/.test(root.type) ? root : this.findTaskFunction(root);
+  }
+
+  /**
+   * 检查无法确定对象来源的阻塞 API 调用：这些调用保持不变，可能漏掉阻塞，给出警告
+   */
+  private checkCallTargets(code: string, root: any): void {
+    this.analyzeBlockingCalls(root).unresolved.forEach(node => {
+      const callee = code.slice(node.callee.start, node.callee.end);
+      this.warn(code, node, `无法确定阻塞调用的对象 (${callee})，调用不会转换为 yield：请通过 rtos 或任务参数访问内核对象`);
+    });
+  }
+
+  /**
+   * 解析任务函数的源码
+   * 匿名函数和对象方法简写 (task(rtos) { ... }) 的 toString 不是合法的语句，分别加括号、包装为对象字面量后再解析
+   */
+  private parseTaskFunction(funcString: string): { code: string; fn: any } {
+    const candidates = [funcString, `(${funcString})`, `({${funcString}})`];
+    let lastError: unknown;
+
+    for (const [index, code] of candidates.entries()) {
+      try {
+        const fn = this.findTaskFunction(Parser.parse(code, { ecmaVersion: 2022, sourceType: 'module' }));
+        if (fn) {
+          // 第 index 个候选在源码前加了 index 个字符
+          this.sourceOffset = index;
+          return { code, fn };
         }
+      } catch (error) {
+        lastError = error;
       }
-    });
-    
-    return hasValidCall;
+    }
+
+    throw lastError ?? new Error('Invalid task function: cannot parse function source');
   }
 
   /**
-   * 提取函数体，去掉外层的包装
+   * 转换任务函数体：按源码位置插入 yield，并把引用 RTOS 参数的标识符改名为 rtos
+   * 改名只作用于解析到该参数的标识符；如果改名后会被函数内的同名绑定捕获，改为在函数体外声明别名 (prologue)
    */
-  private extractFunctionBody(transformedCode: string): string {
-    try {
-      // 使用 acorn 解析代码
-      const ast = Parser.parse(transformedCode, {
-        ecmaVersion: 2022,
-        sourceType: 'module'
-      });
-      
-      // 查找第一个函数节点
-      let functionBody: string | undefined;
-      const self = this;
-      
-      walk(ast, {
-        FunctionExpression(node: any) {
-          if (node.body.type === 'BlockStatement') {
-            // 获取函数体的源代码
-            functionBody = self.getNodeSource(transformedCode, node.body);
-            // 去掉最外层的花括号
-            if (functionBody && functionBody.startsWith('{') && functionBody.endsWith('}')) {
-              functionBody = functionBody.slice(1, -1).trim();
-            }
-          }
-        },
-        ArrowFunctionExpression(node: any) {
-          if (node.body.type === 'BlockStatement') {
-            // 获取函数体的源代码
-            functionBody = self.getNodeSource(transformedCode, node.body);
-            // 去掉最外层的花括号
-            if (functionBody && functionBody.startsWith('{') && functionBody.endsWith('}')) {
-              functionBody = functionBody.slice(1, -1).trim();
-            }
-          }
+  private transformFunctionBody(
+    funcString: string,
+    insertYields: boolean
+  ): { prologue: string; body: string; paramsName: string; segments: MappedSegment[] } {
+    const { code, fn } = this.parseTaskFunction(funcString);
+    const edits: SourceEdit[] = [];
+    let prologue = '';
+
+    const rtosParam = fn.params[0];
+    if (rtosParam?.type === 'Identifier' && rtosParam.name !== RTOS_PARAM) {
+      const { references, conflict } = findParameterReferences(fn, rtosParam.name, RTOS_PARAM);
+      if (conflict) {
+        prologue = `const ${rtosParam.name} = ${RTOS_PARAM};`;
+      } else {
+        references.forEach(({ node, shorthand }) => {
+          edits.push({ start: node.start, end: node.end, text: shorthand ? `${node.name}: ${RTOS_PARAM}` : RTOS_PARAM });
+        });
+      }
+    }
+
+    this.checkCallTargets(code, fn);
+    this.checkAwaits(code, fn);
+    if (insertYields) {
+      edits.push(...this.collectYieldEdits(code, fn, edits));
+    }
+
+    const paramsName = fn.params[1]?.type === 'Identifier' ? fn.params[1].name : '';
+    const segments: MappedSegment[] = [];
+    // 片段的原始位置改为相对于任务函数源码
+    const mapped = (prefix: string) => segments.map(segment => ({
+      generated: segment.generated + prefix.length,
+      original: segment.original - this.sourceOffset,
+      length: segment.length
+    }));
+
+    if (fn.body.type !== 'BlockStatement') {
+      // 表达式形式的箭头函数
+      const body = `return ${applyEdits(code, edits, fn.body.start, fn.body.end, segments)};`;
+      return { prologue, body, paramsName, segments: mapped('return ') };
+    }
+
+    const body = applyEdits(code, edits, fn.body.start + 1, fn.body.end - 1, segments);
+    return { prologue, body, paramsName, segments: mapped('') };
+  }
+
+  /**
+   * 为阻塞调用生成 yield 插入，在可能产生歧义的位置加括号
+   * delegate 为 true 时生成 yield*，用于调用被转换为 Generator 的局部函数
+   */
+  private yieldEdits(node: any, parent: any, delegate: boolean = false): SourceEdit[] {
+    const keyword = delegate ? 'yield*' : 'yield';
+    if (parent && BARE_YIELD_PARENTS.has(parent.type)) {
+      return [{ start: node.start, end: node.start, text: `${keyword} ` }];
+    }
+    return [
+      { start: node.start, end: node.start, text: `(${keyword} ` },
+      { start: node.end, end: node.end, text: ')' }
+    ];
+  }
+
+  /**
+   * 分析任务函数内局部函数的调用图
+   *
+   * 直接包含阻塞调用，或调用了会阻塞的局部函数的函数都会阻塞任务。
+   * 通过名字 (函数声明、赋值给变量的函数) 或立即调用的方式在任务中直接调用的函数转换为 Generator，
+   * 调用处改为 yield*；作为回调传给其他函数的、异步函数和对象方法无法转换，只给出警告。
+   * 使用外层 this 或 arguments 的箭头函数改写为 function* 后绑定会改变，同样不转换。
+   */
+  private analyzeCallGraph(code: string, root: any): { generators: Set<any>; calls: Array<{ node: any; parent: any; callee: any; owner: any }> } {
+    const bindings: Map<any, Map<string, any>> = new Map();   // 作用域节点 → 名字 → 函数节点
+    const blocking: Set<any> = new Set();
+    const references: Array<{ node: any; parent: any; owner: any; scope: any; name: string; callee: any }> = [];
+    const functions: any[] = [];
+    const names: Map<any, string> = new Map();
+    const { calls: blockingCalls } = this.analyzeBlockingCalls(root);
+    const self = this;
+
+    const bind = (scope: any, name: string, fn: any) => {
+      names.set(fn, name);
+      if (!scope) return;
+      if (!bindings.has(scope)) bindings.set(scope, new Map());
+      bindings.get(scope)!.set(name, fn);
+    };
+
+    ancestor(root, {
+      Function(node: any, _state: any, ancestors: any[]) {
+        if (node === root) return;
+        functions.push(node);
+
+        const parent = ancestors[ancestors.length - 2];
+        if (node.type === 'FunctionDeclaration' && node.id) {
+          bind(findDeclaringScope(ancestors.slice(0, -1), node.id.name), node.id.name, node);
+        } else if (parent?.type === 'VariableDeclarator' && parent.init === node && parent.id.type === 'Identifier') {
+          bind(findDeclaringScope(ancestors.slice(0, -1), parent.id.name), parent.id.name, node);
+        }
+        if (node.type === 'FunctionExpression' && node.id) {
+          bind(node, node.id.name, node);
+        }
+      },
+      CallExpression(node: any, _state: any, ancestors: any[]) {
+        const owner = self.findOwnerFunction(ancestors);
+        const parent = ancestors[ancestors.length - 2];
+        if (blockingCalls.has(node)) {
+          blocking.add(owner);
+        } else if (node.callee.type === 'Identifier') {
+          const scope = findDeclaringScope(ancestors, node.callee.name);
+          references.push({ node, parent, owner, scope, name: node.callee.name, callee: null });
+        } else if (/Function/.test(node.callee.type)) {
+          // 立即调用的函数
+          references.push({ node, parent, owner, scope: null, name: '', callee: node.callee });
         }
-      });
-      
-      return functionBody || transformedCode;
-    } catch (error) {
-      // 如果 acorn 解析失败，回退到字符串操作
-      const startIndex = transformedCode.indexOf('{');
-      if (startIndex === -1) {
-        return transformedCode;
       }
-      
-      // 找到匹配的结束括号
-      let braceCount = 0;
-      let endIndex = -1;
-      
-      for (let i = startIndex; i < transformedCode.length; i++) {
-        if (transformedCode[i] === '{') {
-          braceCount++;
-        } else if (transformedCode[i] === '}') {
-          braceCount--;
-          if (braceCount === 0) {
-            endIndex = i;
-            break;
+    });
+
+    const calls = references
+      .map(reference => ({ ...reference, callee: reference.callee ?? bindings.get(reference.scope)?.get(reference.name) }))
+      .filter(call => call.callee !== undefined);
+    const called = new Set(calls.map(call => call.callee));
+    const lexical = (fn: any) => fn.type === 'ArrowFunctionExpression' && this.usesLexicalBindings(fn);
+    const convertible = (fn: any) =>
+      fn !== root && called.has(fn) && !fn.async && !fn.generator && !lexical(fn) &&
+      (fn.type === 'ArrowFunctionExpression' || code.startsWith('function', fn.start));
+
+    // 沿调用图向调用者传播，直到不再变化
+    const generators: Set<any> = new Set(functions.filter(fn => blocking.has(fn) && convertible(fn)));
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const { owner, callee } of calls) {
+        if (generators.has(callee)) {
+          blocking.add(owner);
+          if (!generators.has(owner) && convertible(owner)) {
+            generators.add(owner);
+            changed = true;
           }
         }
       }
-      
-      if (endIndex === -1) {
-        return transformedCode;
+    }
+
+    functions
+      .filter(fn => blocking.has(fn) && !generators.has(fn))
+      .forEach(fn => {
+        const name = names.get(fn) ?? '匿名函数';
+        if (called.has(fn) && lexical(fn)) {
+          this.warn(code, fn, `阻塞调用不会阻塞任务 (${name})：箭头函数使用了外层的 this 或 arguments，转换为 Generator 会改变它们的值，请改为普通函数`);
+        } else {
+          this.warn(code, fn, `阻塞调用不会阻塞任务 (${name})：只有在任务中直接调用的同步函数才能转换为 Generator`);
+        }
+      });
+
+    return { generators, calls };
+  }
+
+  /**
+   * 箭头函数是否使用了外层函数的 this、arguments、super 或 new.target (不进入嵌套的普通函数)
+   */
+  private usesLexicalBindings(fn: any): boolean {
+    let found = false;
+    const mark = () => {
+      found = true;
+    };
+    recursive(fn.body, null, {
+      Function(node: any, state: any, c: any) {
+        if (node.type === 'ArrowFunctionExpression') {
+          base.Function!(node, state, c);
+        }
+      },
+      ThisExpression: mark,
+      Super: mark,
+      MetaProperty: mark,
+      Identifier(node: any) {
+        if (node.name === 'arguments') {
+          mark();
+        }
+      }
+    });
+    return found;
+  }
+
+  /**
+   * 获取节点所在的函数，ancestors 的最后一项为节点本身
+   */
+  private findOwnerFunction(ancestors: any[]): any {
+    for (let i = ancestors.length - 2; i >= 0; i--) {
+      if (/Function/.test(ancestors[i].type)) {
+        return ancestors[i];
       }
-      
-      // 提取函数体内容
-      return transformedCode.substring(startIndex + 1, endIndex).trim();
     }
+    return undefined;
   }
 
   /**
-   * 获取节点的源代码
+   * 把函数改写为 Generator 函数
+   * 箭头函数改写为 function*，表达式函数体改为 return 语句；heads 和 tails 分别排在其他编辑之前和之后
    */
-  private getNodeSource(code: string, node: any): string {
-    return code.slice(node.start, node.end);
+  private generatorEdits(code: string, fn: any, heads: SourceEdit[], tails: SourceEdit[]): void {
+    if (fn.type !== 'ArrowFunctionExpression') {
+      const position = fn.start + 'function'.length;
+      heads.push({ start: position, end: position, text: '*' });
+      return;
+    }
+
+    const paramsEnd = fn.params.length > 0 ? fn.params[fn.params.length - 1].end : fn.start;
+    const arrow = code.indexOf('=>', paramsEnd);
+    const parenthesized = code[fn.start] === '(';
+    heads.push({ start: fn.start, end: fn.start, text: parenthesized ? 'function* ' : 'function* (' });
+    if (!parenthesized) {
+      heads.push({ start: paramsEnd, end: paramsEnd, text: ')' });
+    }
+
+    // 去掉参数和函数体之间的 =>
+    const headEnd = parenthesized ? code.lastIndexOf(')', arrow) + 1 : paramsEnd;
+    if (fn.body.type === 'BlockStatement') {
+      heads.push({ start: headEnd, end: arrow + 2, text: '' });
+    } else {
+      heads.push({ start: headEnd, end: arrow + 2, text: ' { return' });
+      tails.push({ start: fn.end, end: fn.end, text: '; }' });
+    }
   }
 
   /**
-   * 获取实际的参数名
+   * 收集需要插入 yield 的位置，同一位置的多个 yield 外层在前
+   * 只在任务函数和被转换为 Generator 的局部函数中插入；renames 为已有的改名编辑，用于输出别名的对象表达式
    */
-  private getActualParameterName(code: string): string {
-    try {
-      const ast = Parser.parse(code, {
-        ecmaVersion: 2022,
-        sourceType: 'module'
+  private collectYieldEdits(code: string, root: any, renames: SourceEdit[] = []): SourceEdit[] {
+    const { generators, calls: localCalls } = this.analyzeCallGraph(code, root);
+    const { calls: blockingCalls } = this.analyzeBlockingCalls(root);
+    const heads: SourceEdit[] = [];
+    const tails: SourceEdit[] = [];
+    const edits: SourceEdit[] = [];
+    const calls: Array<{ node: any; parent: any; delegate: boolean }> = [];
+    const delegated: Set<any> = new Set();
+    const self = this;
+
+    const inGenerator = (owner: any) => owner === undefined || owner === root || generators.has(owner);
+
+    generators.forEach(fn => this.generatorEdits(code, fn, heads, tails));
+    localCalls
+      .filter(({ callee, owner }) => generators.has(callee) && inGenerator(owner))
+      .forEach(({ node, parent }) => {
+        calls.push({ node, parent, delegate: true });
+        delegated.add(node);
+      });
+
+    if (this.yieldAllStatements) {
+      // 将所有语句转换为 yield
+      ancestor(root, {
+        ExpressionStatement(node: any, _state: any, ancestors: any[]) {
+          if (!inGenerator(self.findOwnerFunction(ancestors))) {
+            return;
+          }
+
+          // 跳过已经是 yield 的语句和改为 yield* 的局部函数调用
+          if (node.expression.type === 'YieldExpression' || delegated.has(node.expression)) {
+            return;
+          }
+
+          // 跳过函数定义本身
+          if (node.expression.type === 'ArrowFunctionExpression' ||
+              node.expression.type === 'FunctionExpression') {
+            return;
+          }
+
+          edits.push({ start: node.start, end: node.start, text: 'yield ' });
+        }
       });
 
-      let paramName = 'rtos'; // 默认参数名
-      
-      walk(ast, {
-        FunctionExpression(node: any) {
-          if (node.params.length > 0 && node.params[0].type === 'Identifier') {
-            paramName = node.params[0].name;
+      // 不是独立语句的阻塞调用 (例如 const item = q.receive()) 同样需要 yield
+      ancestor(root, {
+        CallExpression(node: any, _state: any, ancestors: any[]) {
+          const parent = ancestors[ancestors.length - 2];
+          if (blockingCalls.has(node) && parent?.type !== 'ExpressionStatement' && parent?.type !== 'YieldExpression' &&
+              inGenerator(self.findOwnerFunction(ancestors))) {
+            calls.push({ node, parent, delegate: false });
           }
-        },
-        ArrowFunctionExpression(node: any) {
-          if (node.params.length > 0 && node.params[0].type === 'Identifier') {
-            paramName = node.params[0].name;
+        }
+      });
+    } else {
+      // 只将阻塞调用转换为 yield（原有行为）
+      ancestor(root, {
+        CallExpression(node: any, _state: any, ancestors: any[]) {
+          // 已经 yield 的调用 (Generator 任务) 保持不变
+          if (blockingCalls.has(node) && ancestors[ancestors.length - 2]?.type !== 'YieldExpression' &&
+              inGenerator(self.findOwnerFunction(ancestors))) {
+            calls.push({ node, parent: ancestors[ancestors.length - 2], delegate: false });
           }
         }
       });
-      
-      return paramName;
-    } catch (error) {
-      // 如果解析失败，尝试从字符串中提取参数名
-      const match = code.match(/\((\w+)\)\s*=>/);
-      return match?.[1] || 'rtos';
     }
+
+    // ancestor 遍历先访问子节点，起始位置相同的嵌套调用 (q.receive().send()) 需要外层在前
+    calls
+      .sort((a, b) => a.node.start - b.node.start || b.node.end - a.node.end)
+      .forEach(({ node, parent, delegate }) => edits.push(...self.yieldEdits(node, parent, delegate)));
+    return [...heads, ...edits, ...this.aliasEdits(code, root, renames), ...tails];
+  }
+
+  /**
+   * 通过别名调用阻塞 API 时保留 this
+   * rtos.delay 形式的别名改为 rtos.delay.bind(rtos)，解构得到的别名在调用处改回方法调用
+   */
+  private aliasEdits(code: string, root: any, renames: SourceEdit[]): SourceEdit[] {
+    const { calls, aliases } = this.analyzeBlockingCalls(root);
+    const objectText = (alias: BlockingAlias) => applyEdits(code, renames, alias.object.start, alias.object.end);
+    const edits: SourceEdit[] = [];
+
+    aliases
+      .filter(alias => alias.kind === 'member')
+      .forEach(alias => edits.push({ start: alias.member.end, end: alias.member.end, text: `.bind(${objectText(alias)})` }));
+    calls.forEach((alias, node) => {
+      if (alias?.kind === 'destructured') {
+        edits.push({ start: node.callee.start, end: node.callee.end, text: `${objectText(alias)}.${alias.method}` });
+      }
+    });
+    return edits;
+  }
+
+  /**
+   * 检查无法识别的 await：转换后的任务由调度器驱动，await 不会等待，只有注册的阻塞 API 会转换为 yield
+   * await 阻塞 API 的情况由调用图分析给出警告
+   */
+  private checkAwaits(code: string, root: any): void {
+    const { calls } = this.analyzeBlockingCalls(root);
+    walk(root, {
+      AwaitExpression: (node: any) => {
+        if (!calls.has(node.argument)) {
+          const expression = code.slice(node.argument.start, node.argument.end).split('\n')[0];
+          this.warn(code, node, `无法识别的 await 不会阻塞任务 (${expression})：等待 Promise 请使用 async 任务，或注册对应的阻塞 API`);
+        }
+      }
+    });
+  }
+
+  /**
+   * 记录警告诊断，同时交给诊断输出端
+   */
+  private warn(code: string, node: any, message: string): void {
+    const { line, column } = this.locate(code, node);
+    const diagnostic: ParserDiagnostic = { severity: 'warning', message, line, column };
+    this.diagnostics.push(diagnostic);
+    this.onDiagnostic?.(diagnostic);
+  }
+
+  /**
+   * 节点在任务函数源码中的行列 (从 1 开始)
+   */
+  private locate(code: string, node: any): { line: number; column: number } {
+    const before = code.slice(this.sourceOffset, Math.max(node.start, this.sourceOffset)).split('\n');
+    const line = before.length;
+    return { line, column: before[line - 1]!.length + 1 };
+  }
+
+  /**
+   * 查找代码中的任务函数 (第一条语句中的函数)，没有时返回 undefined
+   */
+  private findTaskFunction(ast: any): any {
+    const statement = ast.body[0];
+    const node = statement?.type === 'ExpressionStatement' ? statement.expression : statement;
+    const fn = node?.type === 'ObjectExpression' ? node.properties[0]?.value : node;
+    return fn && /Function/.test(fn.type) ? fn : undefined;
   }
 
   /**
    * 解析并转换为 Generator 函数
    */
   parseAndTransformToGenerator(code: string): string {
-    try {
-      // 使用 acorn 解析代码
-      const ast = Parser.parse(code, {
-        ecmaVersion: 2022,
-        sourceType: 'module'
-      });
+    // 使用 acorn 解析代码
+    const ast = Parser.parse(code, {
+      ecmaVersion: 2022,
+      sourceType: 'module'
+    });
 
-      let result = code;
-      const self = this;
-      const replacements: Array<{from: string, to: string}> = [];
-      
-      if (this.yieldAllStatements) {
-        // 将所有语句转换为 yield
-        walk(ast, {
-          ExpressionStatement(node: any) {
-            // 跳过已经是 yield 的语句
-            if (node.expression.type === 'YieldExpression') {
-              return;
-            }
-            
-            // 跳过函数定义本身
-            if (node.expression.type === 'ArrowFunctionExpression' || 
-                node.expression.type === 'FunctionExpression') {
-              return;
-            }
-            
-            const statement = self.getNodeSource(code, node);
-            const yieldStatement = `yield ${statement}`;
-            replacements.push({ from: statement, to: yieldStatement });
-          }
-        });
-      } else {
-        // 只将 delay 调用转换为 yield（原有行为）
-        walk(ast, {
-          CallExpression(node: any) {
-            if (self.isDelayCall(node)) {
-              const delayCall = self.getNodeSource(code, node);
-              const yieldCall = `yield ${delayCall}`;
-              replacements.push({ from: delayCall, to: yieldCall });
-            }
-          }
-        });
-      }
-      
-      // 从后往前替换，避免位置偏移问题
-      replacements.reverse().forEach(({ from, to }) => {
-        result = result.replace(from, to);
-      });
-      
-      return result;
-    } catch (error) {
-      console.error('解析代码时出错:', error);
-      throw error;
-    }
+    const root = this.findTaskFunction(ast) ?? ast;
+    this.diagnostics = [];
+    this.sourceOffset = 0;
+    this.checkCallTargets(code, root);
+    this.checkAwaits(code, root);
+
+    // 按节点位置插入 yield，源码中相同的调用各自独立处理
+    return applyEdits(code, this.collectYieldEdits(code, root));
   }
 }
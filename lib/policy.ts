@@ -0,0 +1,73 @@
+import { SchedulingPolicy, TaskControlBlock } from './types';
+
+/**
+ * 固定优先级调度：优先级数值越大越先运行
+ */
+export class FixedPriorityPolicy implements SchedulingPolicy {
+  readonly name = 'FixedPriority';
+
+  compare(a: TaskControlBlock, b: TaskControlBlock): number {
+    return b.priority - a.priority;
+  }
+}
+
+/**
+ * 最早截止时间优先 (Earliest Deadline First)
+ *
+ * 有未完成作业的实时任务按绝对截止时间排序，截止时间越早越先运行；
+ * 其余任务 (非实时任务、提前完成作业的任务) 在后台按固定优先级运行。
+ */
+export class EDFPolicy implements SchedulingPolicy {
+  readonly name = 'EDF';
+  private fallback = new FixedPriorityPolicy();
+
+  compare(a: TaskControlBlock, b: TaskControlBlock): number {
+    const deadlineA = this.getActiveDeadline(a);
+    const deadlineB = this.getActiveDeadline(b);
+
+    if (deadlineA !== null && deadlineB !== null) {
+      return deadlineA - deadlineB;
+    }
+    if (deadlineA !== null) {
+      return -1;
+    }
+    if (deadlineB !== null) {
+      return 1;
+    }
+    return this.fallback.compare(a, b);
+  }
+
+  /**
+   * 获取任务当前作业的绝对截止时间
+   */
+  private getActiveDeadline(task: TaskControlBlock): number | null {
+    return task.timing?.jobs[0]?.deadline ?? null;
+  }
+}
+
+/**
+ * 单调速率调度 (Rate-Monotonic Scheduling)
+ *
+ * 周期任务的优先级由周期决定，周期越短越先运行，周期相同时按固定优先级；
+ * 非周期任务在后台按固定优先级运行。
+ */
+export class RMSPolicy implements SchedulingPolicy {
+  readonly name = 'RMS';
+  private fallback = new FixedPriorityPolicy();
+
+  compare(a: TaskControlBlock, b: TaskControlBlock): number {
+    const periodA = a.timing?.period ?? null;
+    const periodB = b.timing?.period ?? null;
+
+    if (periodA !== null && periodB !== null && periodA !== periodB) {
+      return periodA - periodB;
+    }
+    if (periodA !== null && periodB === null) {
+      return -1;
+    }
+    if (periodA === null && periodB !== null) {
+      return 1;
+    }
+    return this.fallback.compare(a, b);
+  }
+}
@@ -0,0 +1,188 @@
+import { TaskManager } from './task';
+import { WaitList } from './waitlist';
+import { BlockingRequest, BlockingResult, MAX_DELAY, TIMEOUT, TaskHandle } from './types';
+
+/**
+ * 消息队列 (xQueueSend / xQueueReceive)
+ *
+ * 阻塞操作返回 BlockingRequest，任务需要 yield 它：
+ *   const item = yield queue.receive(10); // 超时返回 TIMEOUT
+ *   const ok = yield queue.send(item, 10); // 超时返回 false
+ */
+export class Queue<T = any> {
+  readonly name: string;
+  readonly length: number;
+  private items: T[] = [];
+  private sendWaiters: WaitList;     // 等待空位的发送任务
+  private receiveWaiters: WaitList;  // 等待消息的接收/查看任务
+  private settling: boolean = false;
+
+  constructor(taskManager: TaskManager, length: number, name: string) {
+    if (!Number.isInteger(length) || length <= 0) {
+      throw new Error(`Invalid queue length: ${length}`);
+    }
+
+    this.name = name;
+    this.length = length;
+    this.sendWaiters = new WaitList(taskManager);
+    this.receiveWaiters = new WaitList(taskManager);
+  }
+
+  /**
+   * 发送消息到队尾
+   */
+  send(item: T, timeoutTicks: number = MAX_DELAY): BlockingRequest {
+    return this.createSendRequest(item, timeoutTicks, false);
+  }
+
+  /**
+   * 发送消息到队首
+   */
+  sendToFront(item: T, timeoutTicks: number = MAX_DELAY): BlockingRequest {
+    return this.createSendRequest(item, timeoutTicks, true);
+  }
+
+  /**
+   * 从队首接收消息
+   */
+  receive(timeoutTicks: number = MAX_DELAY): BlockingRequest {
+    return this.createReceiveRequest(timeoutTicks, true);
+  }
+
+  /**
+   * 查看队首消息但不移除
+   */
+  peek(timeoutTicks: number = MAX_DELAY): BlockingRequest {
+    return this.createReceiveRequest(timeoutTicks, false);
+  }
+
+  /**
+   * 非阻塞发送，可在任务之外调用
+   * @returns 队列已满时返回 false
+   */
+  trySend(item: T, toFront: boolean = false): boolean {
+    const result = this.createSendRequest(item, 0, toFront).attempt(0);
+    return result.completed;
+  }
+
+  /**
+   * 非阻塞接收，可在任务之外调用
+   * @returns 队列为空时返回 TIMEOUT
+   */
+  tryReceive(): T | typeof TIMEOUT {
+    const result = this.createReceiveRequest(0, true).attempt(0);
+    return result.completed ? result.value : TIMEOUT;
+  }
+
+  /**
+   * 队列中的消息数
+   */
+  messagesWaiting(): number {
+    return this.items.length;
+  }
+
+  /**
+   * 队列剩余空位数
+   */
+  spacesAvailable(): number {
+    return this.length - this.items.length;
+  }
+
+  /**
+   * 清空队列，并唤醒等待空位的发送任务
+   */
+  reset(): void {
+    this.items = [];
+    this.settle();
+  }
+
+  /**
+   * 获取等待发送的任务
+   */
+  getSendWaiters(): TaskHandle[] {
+    return this.sendWaiters.getWaiters();
+  }
+
+  /**
+   * 获取等待接收的任务
+   */
+  getReceiveWaiters(): TaskHandle[] {
+    return this.receiveWaiters.getWaiters();
+  }
+
+  /**
+   * 创建发送请求
+   */
+  private createSendRequest(item: T, timeoutTicks: number, toFront: boolean): BlockingRequest {
+    return {
+      type: 'blocking',
+      reason: `queue:${this.name}`,
+      timeoutTicks,
+      timeoutValue: false,
+      attempt: (): BlockingResult => {
+        if (this.items.length >= this.length) {
+          return { completed: false };
+        }
+
+        if (toFront) {
+          this.items.unshift(item);
+        } else {
+          this.items.push(item);
+        }
+        this.settle();
+        return { completed: true, value: true };
+      },
+      wait: (handle) => this.sendWaiters.add(handle),
+      cancel: (handle) => {
+        this.sendWaiters.remove(handle);
+      }
+    };
+  }
+
+  /**
+   * 创建接收/查看请求
+   */
+  private createReceiveRequest(timeoutTicks: number, remove: boolean): BlockingRequest {
+    return {
+      type: 'blocking',
+      reason: `queue:${this.name}`,
+      timeoutTicks,
+      timeoutValue: TIMEOUT,
+      attempt: (): BlockingResult => {
+        if (this.items.length === 0) {
+          return { completed: false };
+        }
+
+        const item = remove ? this.items.shift() : this.items[0];
+        if (remove) {
+          this.settle();
+        }
+        return { completed: true, value: item };
+      },
+      wait: (handle) => this.receiveWaiters.add(handle),
+      cancel: (handle) => {
+        this.receiveWaiters.remove(handle);
+      }
+    };
+  }
+
+  /**
+   * 队列内容变化后，依次满足等待中的接收和发送任务
+   * 发送与接收会相互释放空位/消息，因此循环直到没有任务被唤醒
+   */
+  private settle(): void {
+    if (this.settling) {
+      return;
+    }
+
+    this.settling = true;
+    try {
+      let woken: number;
+      do {
+        woken = this.receiveWaiters.process() + this.sendWaiters.process();
+      } while (woken > 0);
+    } finally {
+      this.settling = false;
+    }
+  }
+}
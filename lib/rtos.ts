@@ -1,6 +1,13 @@
 import { Scheduler } from './scheduler';
-import { SchedulerConfig, TaskHandle } from './types';
-import { RTOSParser } from './parser';
+import { BlockingRequest, DeadlineReport, FromISRResult, HeapStats, Interrupt, InterruptHandler, InterruptSource, LogLevel, LogSink, NotifyAction, RunTimeStats, SchedulerConfig, TaskHandle, TaskOptions, Timer } from './types';
+import { ParserDiagnostic, RTOSParser, RTOSParserOptions } from './parser';
+import { Queue } from './queue';
+import { Semaphore } from './semaphore';
+import { Mutex } from './mutex';
+import { EventGroup } from './eventgroup';
+import { KernelEventBus, formatLogArgs } from './events';
+import { TraceRecorder } from './trace';
+import { AsyncTaskFunction, createAsyncTask, isAsyncFunction } from './async-task';
 
 /**
  * 实时操作系统主类
@@ -8,15 +15,45 @@ import { RTOSParser } from './parser';
 export class RTOS {
   private scheduler: Scheduler;
   private parser: RTOSParser;
+  private parserOptions: RTOSParserOptions;
   private taskCounter: number = 0;
   private yieldAllStatements: boolean = false;
 
-  constructor(config: SchedulerConfig, options?: { yieldAllStatements?: boolean }) {
+  constructor(config: SchedulerConfig, options?: RTOSParserOptions) {
     this.scheduler = new Scheduler(config);
     this.yieldAllStatements = options?.yieldAllStatements || false;
+    this.parserOptions = options ?? {};
     
     // 初始化解析器
-    this.parser = new RTOSParser({ yieldAllStatements: this.yieldAllStatements });
+    this.parser = this.createParser(this.parserOptions);
+  }
+
+  /**
+   * 创建解析器，诊断信息输出到内核事件总线
+   */
+  private createParser(options: RTOSParserOptions): RTOSParser {
+    return new RTOSParser({
+      ...options,
+      onDiagnostic: diagnostic => {
+        this.events.log('warn', `${diagnostic.message} (第 ${diagnostic.line} 行，第 ${diagnostic.column} 列)`);
+        options.onDiagnostic?.(diagnostic);
+      }
+    });
+  }
+
+  /**
+   * 内核事件总线，用于订阅任务、调度和日志事件
+   */
+  get events(): KernelEventBus {
+    return this.scheduler.events;
+  }
+
+  /**
+   * 添加日志输出端
+   * @returns 移除输出端的函数
+   */
+  addLogSink(sink: LogSink): () => void {
+    return this.events.addLogSink(sink);
   }
 
   /**
@@ -33,13 +70,44 @@ export class RTOS {
     this.scheduler.stop();
   }
 
+  /**
+   * 手动推进时钟节拍（配合 VirtualTickSource 使用）
+   * 同步推进不支持 async 任务，有 async 任务时抛出 RTOSError('INVALID_CONTEXT')，请使用 stepAsync
+   * @returns 实际执行的节拍数
+   */
+  step(ticks: number = 1): number {
+    return this.scheduler.advance(ticks);
+  }
+
+  /**
+   * 推进时钟节拍，async 任务恢复后在同一步内执行到下一个 await，每个节拍之后让出事件循环
+   * @returns 实际执行的节拍数
+   */
+  stepAsync(ticks: number = 1): Promise<number> {
+    return this.scheduler.advanceAsync(ticks);
+  }
+
+  /**
+   * 推进时钟直到指定节拍 (同步推进，不支持 async 任务)
+   */
+  runUntilTick(tick: number): number {
+    return this.scheduler.runUntilTick(tick);
+  }
+
+  /**
+   * 推进时钟直到系统空闲 (同步推进，不支持 async 任务)
+   */
+  runUntilIdle(maxTicks?: number): number {
+    return this.scheduler.runUntilIdle(maxTicks);
+  }
+
   /**
    * 设置 yield 模式
-   * @param yieldAllStatements true: 所有语句转 yield, false: 仅 delay 转 yield
+   * @param yieldAllStatements true: 所有语句转 yield, false: 仅阻塞调用转 yield
    */
   setYieldMode(yieldAllStatements: boolean): void {
     this.yieldAllStatements = yieldAllStatements;
-    this.parser = new RTOSParser({ yieldAllStatements: this.yieldAllStatements });
+    this.parser = this.createParser({ ...this.parserOptions, yieldAllStatements: this.yieldAllStatements, blockingCalls: this.parser.getBlockingCalls() });
   }
 
   /**
@@ -49,30 +117,62 @@ export class RTOS {
     return this.yieldAllStatements;
   }
 
+  /**
+   * 注册阻塞 API，之后创建的任务中对该方法的调用会被转换为 yield
+   * 用于自定义的内核对象，例如 rtos.registerBlockingCall('acquire')
+   */
+  registerBlockingCall(name: string): void {
+    this.parser.registerBlockingCall(name);
+  }
+
+  /**
+   * 获取最近一次转换任务函数时产生的诊断信息 (例如无法识别的 await)
+   */
+  getParserDiagnostics(): ParserDiagnostic[] {
+    return this.parser.getDiagnostics();
+  }
+
   // 任务管理接口
   createTask(
-    taskFunction: (rtos: RTOS) => void,
+    taskFunction: ((rtos: RTOS, params?: any) => void) | AsyncTaskFunction,
     priority: number,
     stackSize?: number,
     params?: any,
-    name?: string
+    name?: string,
+    options?: TaskOptions
   ): TaskHandle {
     // 如果没有提供名称，使用自增 ID 生成任务名称
     const taskName = name || `Task_${++this.taskCounter}`;
+
+    const mode = options?.mode ?? (isAsyncFunction(taskFunction) ? 'async' : 'generator');
+    if (mode !== 'generator' && mode !== 'async') {
+      throw new Error(`Invalid task mode: ${mode}`);
+    }
+    if (mode === 'async') {
+      // async 任务不经过解析器，闭包和编译后的代码都可以直接使用
+      const asyncTask = createAsyncTask(this, taskFunction as AsyncTaskFunction);
+      return this.scheduler.createTask(taskName, asyncTask, priority, stackSize, params, { ...options, mode });
+    }
     
     // 使用解析器转换任务函数为 Generator
-    const transformedFunction = this.parser.transformTaskFunction(taskFunction);
+    let transformedFunction: Function;
+    try {
+      transformedFunction = this.parser.transformTaskFunction(taskFunction);
+    } catch (error) {
+      this.events.log('error', `转换任务 ${taskName} 时出错:`, error);
+      throw error;
+    }
     
     // 创建 log 函数，用于在任务中输出日志
     const log = (message: string) => {
-      console.log(`[${taskName}] ${message}`);
+      this.events.log('log', `[${taskName}] ${message}`);
     };
     
     // 直接调用转换后的函数，获取 Generator 函数
-    const generatorFunction = transformedFunction(this, console, log);
+    const generatorFunction = transformedFunction(this, this.createTaskConsole(), log);
     
     // 创建转换后的任务，直接传递 Generator 函数
-    return this.scheduler.createTask(taskName, generatorFunction, priority, stackSize, params);
+    return this.scheduler.createTask(taskName, generatorFunction, priority, stackSize, params, options);
   }
 
   deleteTask(handle: TaskHandle): boolean {
@@ -87,6 +187,156 @@ export class RTOS {
     return this.scheduler.resumeTask(handle);
   }
 
+  // 进程间通信
+  createQueue<T = any>(length: number, name?: string): Queue<T> {
+    return this.scheduler.createQueue<T>(length, name);
+  }
+
+  createBinarySemaphore(name?: string): Semaphore {
+    return this.scheduler.createBinarySemaphore(name);
+  }
+
+  createCountingSemaphore(maxCount: number, initialCount: number, name?: string): Semaphore {
+    return this.scheduler.createCountingSemaphore(maxCount, initialCount, name);
+  }
+
+  createMutex(name?: string): Mutex {
+    return this.scheduler.createMutex(name);
+  }
+
+  createRecursiveMutex(name?: string): Mutex {
+    return this.scheduler.createRecursiveMutex(name);
+  }
+
+  createEventGroup(name?: string): EventGroup {
+    return this.scheduler.createEventGroup(name);
+  }
+
+  deleteQueue(queue: Queue): boolean {
+    return this.scheduler.deleteQueue(queue);
+  }
+
+  deleteSemaphore(semaphore: Semaphore | Mutex): boolean {
+    return this.scheduler.deleteSemaphore(semaphore);
+  }
+
+  deleteEventGroup(group: EventGroup): boolean {
+    return this.scheduler.deleteEventGroup(group);
+  }
+
+  /**
+   * 获取信号量或互斥量 (阻塞调用，需要在任务中使用)
+   */
+  take(semaphore: Semaphore | Mutex, timeoutTicks?: number): BlockingRequest {
+    return semaphore.take(timeoutTicks);
+  }
+
+  /**
+   * 释放信号量或互斥量
+   */
+  give(semaphore: Semaphore | Mutex): boolean {
+    return semaphore.give();
+  }
+
+  // 任务通知
+  notify(handle: TaskHandle, value: number, action: NotifyAction): boolean {
+    return this.scheduler.notify(handle, value, action);
+  }
+
+  notifyGive(handle: TaskHandle): boolean {
+    return this.scheduler.notifyGive(handle);
+  }
+
+  /**
+   * 等待通知 (阻塞调用，需要在任务中使用)
+   */
+  notifyTake(clearOnExit?: boolean, timeoutTicks?: number): BlockingRequest {
+    return this.scheduler.notifyTake(clearOnExit, timeoutTicks);
+  }
+
+  notifyWait(bitsToClearOnEntry?: number, bitsToClearOnExit?: number, timeoutTicks?: number): BlockingRequest {
+    return this.scheduler.notifyWait(bitsToClearOnEntry, bitsToClearOnExit, timeoutTicks);
+  }
+
+  // 中断
+  registerInterrupt(irq: number, priority: number, handler: InterruptHandler, source?: InterruptSource): void {
+    this.scheduler.registerInterrupt(irq, priority, handler, source);
+  }
+
+  unregisterInterrupt(irq: number): boolean {
+    return this.scheduler.unregisterInterrupt(irq);
+  }
+
+  triggerInterrupt(irq: number): boolean {
+    return this.scheduler.triggerInterrupt(irq);
+  }
+
+  getInterrupts(): Interrupt[] {
+    return this.scheduler.getInterrupts();
+  }
+
+  isInISR(): boolean {
+    return this.scheduler.isInISR();
+  }
+
+  giveFromISR(semaphore: Semaphore): FromISRResult {
+    return this.scheduler.giveFromISR(semaphore);
+  }
+
+  sendFromISR<T>(queue: Queue<T>, item: T, toFront?: boolean): FromISRResult {
+    return this.scheduler.sendFromISR(queue, item, toFront);
+  }
+
+  notifyFromISR(handle: TaskHandle, value: number, action: NotifyAction): FromISRResult {
+    return this.scheduler.notifyFromISR(handle, value, action);
+  }
+
+  // 临界区与调度器挂起
+  enterCritical(): void {
+    this.scheduler.enterCritical();
+  }
+
+  exitCritical(): void {
+    this.scheduler.exitCritical();
+  }
+
+  suspendAll(): void {
+    this.scheduler.suspendAll();
+  }
+
+  resumeAll(): boolean {
+    return this.scheduler.resumeAll();
+  }
+
+  getSchedulerState(): 'notStarted' | 'running' | 'suspended' {
+    return this.scheduler.getSchedulerState();
+  }
+
+  // 软件定时器
+  createTimer(name: string, period: number, autoReload: boolean, callback: (timer: Timer) => void): Timer {
+    return this.scheduler.createTimer(name, period, autoReload, callback);
+  }
+
+  startTimer(timer: Timer): boolean {
+    return this.scheduler.startTimer(timer);
+  }
+
+  stopTimer(timer: Timer): boolean {
+    return this.scheduler.stopTimer(timer);
+  }
+
+  resetTimer(timer: Timer): boolean {
+    return this.scheduler.resetTimer(timer);
+  }
+
+  changeTimerPeriod(timer: Timer, period: number): boolean {
+    return this.scheduler.changeTimerPeriod(timer, period);
+  }
+
+  deleteTimer(timer: Timer): boolean {
+    return this.scheduler.deleteTimer(timer);
+  }
+
   delay(ticks: number): { delayTicks: number } {
     return this.scheduler.delay(ticks);
   }
@@ -95,10 +345,27 @@ export class RTOS {
     return this.scheduler.delayMs(ms);
   }
 
+  delayUntil(tick: number): { delayTicks: number } {
+    return this.scheduler.delayUntil(tick);
+  }
+
   yield(): void {
     this.scheduler.yield();
   }
 
+  // 任务栈
+  stackAlloc(bytes: number): boolean {
+    return this.scheduler.stackAlloc(bytes);
+  }
+
+  stackFree(bytes: number): boolean {
+    return this.scheduler.stackFree(bytes);
+  }
+
+  getStackHighWaterMark(handle: TaskHandle): number | null {
+    return this.scheduler.getStackHighWaterMark(handle);
+  }
+
   setTaskPriority(handle: TaskHandle, priority: number): boolean {
     return this.scheduler.setTaskPriority(handle, priority);
   }
@@ -109,6 +376,34 @@ export class RTOS {
     return this.scheduler.getSystemStatus();
   }
 
+  getDeadlineReport(): DeadlineReport {
+    return this.scheduler.getDeadlineReport();
+  }
+
+  createTraceRecorder(capacity?: number): TraceRecorder {
+    return this.scheduler.createTraceRecorder(capacity);
+  }
+
+  getRunTimeStats(): RunTimeStats {
+    return this.scheduler.getRunTimeStats();
+  }
+
+  getTaskListTable(): string {
+    return this.scheduler.getTaskListTable();
+  }
+
+  getFreeHeapSize(): number | null {
+    return this.scheduler.getFreeHeapSize();
+  }
+
+  getMinimumEverFreeHeapSize(): number | null {
+    return this.scheduler.getMinimumEverFreeHeapSize();
+  }
+
+  getHeapStats(): HeapStats | null {
+    return this.scheduler.getHeapStats();
+  }
+
   getTaskInfo(handle: TaskHandle) {
     return this.scheduler.getTaskInfo(handle);
   }
@@ -120,9 +415,44 @@ export class RTOS {
   getTickCount(): number {
     return this.scheduler.getTickCount();
   }
+
+  /**
+   * 创建任务中使用的 console，输出写入事件总线的日志
+   */
+  private createTaskConsole(): typeof console {
+    const write = (level: LogLevel) => (...args: unknown[]) => this.events.log(level, formatLogArgs(args));
+    return { ...console, log: write('log'), info: write('info'), warn: write('warn'), error: write('error') };
+  }
 }
 
 // 导出所有类型和类
 export * from './types';
 export { Scheduler } from './scheduler';
 export { TaskManager } from './task';
+export { RealTimeTickSource, VirtualTickSource } from './clock';
+export { Queue } from './queue';
+export { Semaphore } from './semaphore';
+export { Mutex } from './mutex';
+export { TimerService } from './timer';
+export { EventGroup } from './eventgroup';
+export type { WaitBitsOptions } from './eventgroup';
+export type { TimerCommand } from './timer';
+export { WaitList } from './waitlist';
+export { InterruptController } from './interrupt';
+export { EventEmitter, KernelEventBus, consoleLogSink, formatLogArgs } from './events';
+export type { EventListener } from './events';
+export { TraceRecorder } from './trace';
+export type { ChromeTrace, ChromeTraceEvent, TraceEventName, TraceRecord, TraceRecorderOptions, TraceTimestamp } from './trace';
+export { buildTimeline } from './timeline';
+export type { TimelineOptions, TimelineRow, TimelineSegment } from './timeline';
+export { RTOSParser, DEFAULT_BLOCKING_CALLS } from './parser';
+export type { ParserDiagnostic, RTOSParserOptions } from './parser';
+export { SourceMap, codeFrame, encodeVLQ, getSourceLocation } from './sourcemap';
+export type { MappedSegment, RawSourceMap } from './sourcemap';
+export { AsyncTaskRunner, createAsyncTask, isAsyncFunction } from './async-task';
+export type { AsyncRTOS, AsyncTaskFunction } from './async-task';
+export { FixedPriorityPolicy, EDFPolicy, RMSPolicy } from './policy';
+export { Heap, BumpHeap, BestFitHeap, WrappedHeap, CoalescingHeap, createHeap } from './heap';
+export type { HeapBlock } from './heap';
+export { RTOSError, TaskCreationError } from './errors';
+export type { RTOSErrorCode } from './errors';
@@ -1,211 +1,1493 @@
 import { TaskManager } from './task';
-import { SchedulerConfig, TaskHandle, TaskState } from './types';
+import { RealTimeTickSource } from './clock';
+import { Queue } from './queue';
+import { Semaphore } from './semaphore';
+import { Mutex } from './mutex';
+import { TimerCommand, TimerService } from './timer';
+import { EventGroup } from './eventgroup';
+import { RTOSError, TaskCreationError } from './errors';
+import { Heap, createHeap } from './heap';
+import { InterruptController } from './interrupt';
+import { KernelEventBus } from './events';
+import { DEFAULT_TRACE_CAPACITY, TraceRecorder } from './trace';
+import { getSourceLocation } from './sourcemap';
+import { AsyncContinuation } from './async-task';
+import { BlockingRequest, DeadlineReport, FromISRResult, HeapStats, Interrupt, InterruptHandler, InterruptSource, NotifyAction, RunTimeStats, SchedulerConfig, TaskControlBlock, TaskFunction, TaskHandle, TaskOptions, TaskState, TickSource, Timer } from './types';
+
+/**
+ * 定时器服务默认配置
+ */
+const DEFAULT_TIMER_TASK_PRIORITY = 10;
+const DEFAULT_TIMER_QUEUE_LENGTH = 10;
+
+/**
+ * 内核对象控制块在模拟堆上占用的大小 (字节)
+ */
+const QUEUE_CONTROL_BLOCK_SIZE = 80;
+const QUEUE_ITEM_SIZE = 4;
+const EVENT_GROUP_SIZE = 32;
+const TIMER_SIZE = 48;
+
+/**
+ * tickless 模式默认配置
+ */
+const DEFAULT_EXPECTED_IDLE_TIME_BEFORE_SLEEP = 2;
+const MAX_SUPPRESSED_TICKS = 1000; // 一次睡眠最多跳过的节拍数
 
 /**
  * 实时操作系统调度器
  */
 export class Scheduler {
+  readonly events: KernelEventBus;
   private taskManager: TaskManager;
   private config: SchedulerConfig;
   private isRunning: boolean = false;
   private tickCount: number = 0;
-  private tickInterval: any = null;
+  private tickSource: TickSource;
   private idleTaskHandle: TaskHandle | null = null;
+  private queueCounter: number = 0;
+  private semaphoreCounter: number = 0;
+  private mutexCounter: number = 0;
+  private eventGroupCounter: number = 0;
+  private timerService: TimerService | null = null;
+  private sliceTicks: number = 0; // 当前任务在本时间片内已运行的节拍数
+  private heap: Heap | null = null;
+  private stackAddresses: Map<TaskHandle, number> = new Map();
+  private objectAddresses: Map<object, number> = new Map();
+  private interrupts: InterruptController;
+  private yieldFromISRPending: boolean = false; // 中断中唤醒了更高优先级的任务，退出时切换
+  private criticalNesting: number = 0;
+  private suspendNesting: number = 0;
+  private pendedTicks: number = 0;    // 临界区或调度器挂起期间累积的节拍
+  private lockOwner: TaskControlBlock | null = null; // 进入临界区或挂起调度器的任务
+  private sleepTicks: number = 0;     // tickless 模式下累计睡眠的节拍数
+  private switchedInTask: TaskHandle | null = null; // 最近一次切入的任务，用于 onTaskSwitchedOut 钩子
+  private currentStep: number = 0;    // 当前节拍内的任务步序号，用于执行追踪
+  private inTaskStep: boolean = false; // 正在执行任务的一步
+  private wokenInStep: number = 0;    // 任务在这一步中唤醒的更高优先级任务数，这一步结束后切换
+  private asyncTasks: Set<TaskHandle> = new Set(); // async 任务，只能由异步推进或实时时钟驱动
+  private tickInProgress: boolean = false; // 实时时钟的节拍正在等待 async 任务
+  private deferredTicks: number = 0;  // 等待期间到达的节拍，当前节拍结束后补上
   // 移除 currentTaskIndex，现在使用优先级调度
 
   constructor(config: SchedulerConfig) {
+    this.validatePositiveInteger('time slice', config.timeSliceTicks);
+    this.validatePositiveInteger('steps per tick', config.stepsPerTick);
+    this.validatePositiveInteger('expected idle time before sleep', config.expectedIdleTimeBeforeSleep);
+
     this.config = config;
-    this.taskManager = new TaskManager();
+    this.events = new KernelEventBus(config.logSinks, () => this.tickCount);
+    this.tickSource = config.tickSource || new RealTimeTickSource();
+    this.taskManager = new TaskManager(config.schedulingPolicy, this.events, handle => this.handleWake(handle));
+    this.interrupts = new InterruptController(() => this.exitISR(), this.events);
+    this.setupHeap();
     this.setupIdleTask();
   }
 
   /**
-   * 启动调度器
+   * 启动调度器
+   */
+  start(): void {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    this.tickCount = 0;
+
+    // 启动时钟节拍
+    this.tickSource.start(() => this.tickRealTime(), 1000 / this.config.tickRate);
+
+    this.events.log('log', '调度器已启动');
+  }
+
+  /**
+   * 停止调度器
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    this.deferredTicks = 0;
+
+    this.tickSource.stop();
+
+    this.events.log('log', '调度器已停止');
+  }
+
+  /**
+   * 手动推进时钟节拍 (同步执行指定数量的 tick)
+   * @returns 实际执行的节拍数
+   */
+  advance(ticks: number): number {
+    if (!this.isRunning) {
+      return 0;
+    }
+    this.checkSyncAdvance();
+
+    let elapsed = 0;
+    while (elapsed < ticks) {
+      this.tick();
+      elapsed++;
+      elapsed += this.sleep(ticks - elapsed);
+    }
+    return Math.max(0, ticks);
+  }
+
+  /**
+   * 逐个节拍推进时钟，异步任务恢复执行时在同一步内等待它执行到下一个 await，每个节拍之后让出事件循环
+   * @returns 实际执行的节拍数
+   */
+  async advanceAsync(ticks: number): Promise<number> {
+    let elapsed = 0;
+    while (elapsed < ticks && this.isRunning) {
+      await this.tickAsync();
+      elapsed++;
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    return elapsed;
+  }
+
+  /**
+   * 推进时钟直到指定节拍
+   * @returns 实际执行的节拍数
+   */
+  runUntilTick(tick: number): number {
+    return this.advance(tick - this.tickCount);
+  }
+
+  /**
+   * 推进时钟直到系统空闲（除空闲任务外没有任务可以再运行）
+   * @param maxTicks 最多执行的节拍数，防止永不空闲的任务集死循环
+   * @returns 实际执行的节拍数
+   */
+  runUntilIdle(maxTicks: number = 10000): number {
+    if (!this.isRunning) {
+      return 0;
+    }
+    this.checkSyncAdvance();
+
+    let ticks = 0;
+    while (ticks < maxTicks && this.hasPendingWork()) {
+      this.tick();
+      ticks++;
+      ticks += this.sleep(maxTicks - ticks);
+    }
+    return ticks;
+  }
+
+  /**
+   * 同步推进无法等待 async 任务在微任务中继续执行，有 async 任务时应使用 advanceAsync
+   */
+  private checkSyncAdvance(): void {
+    if (this.asyncTasks.size > 0) {
+      throw new RTOSError('INVALID_CONTEXT', 'Async tasks cannot be advanced synchronously, use advanceAsync instead');
+    }
+  }
+
+  /**
+   * 检查是否还有任务会在将来运行
+   */
+  private hasPendingWork(): boolean {
+    return this.taskManager.getAllTasks().some(task => {
+      if (task.handle === this.idleTaskHandle) {
+        return false;
+      }
+      if (task.state === TaskState.READY || task.state === TaskState.RUNNING) {
+        return true;
+      }
+      // 有限延时的阻塞任务终将被唤醒
+      return task.state === TaskState.BLOCKED && task.delayTicks > 0 && Number.isFinite(task.delayTicks);
+    }) || (this.timerService !== null && this.timerService.hasPendingTimers()) || this.interrupts.hasPending();
+  }
+
+  /**
+   * 实时时钟的节拍，与 advanceAsync 一样在同一步内等待 async 任务执行到下一个 await
+   * 上一个节拍还在等待时到达的节拍记下来，在它结束后依次补上
+   */
+  private tickRealTime(): void {
+    if (this.tickInProgress) {
+      this.deferredTicks++;
+      return;
+    }
+
+    this.tickInProgress = true;
+    this.driveTick(this.tickSteps(), () => {
+      this.tickInProgress = false;
+      if (this.deferredTicks > 0 && this.isRunning) {
+        this.deferredTicks--;
+        this.tickRealTime();
+      } else {
+        this.sleepWithTickSource();
+      }
+    });
+  }
+
+  /**
+   * 驱动一个节拍的处理过程，遇到 AsyncContinuation 时等待任务执行到下一个 await 后继续
+   * 没有需要等待的 async 任务时同步完成
+   */
+  private driveTick(steps: Generator<AsyncContinuation, void, boolean>, done: () => void, resumed: boolean = false): void {
+    const result = steps.next(resumed);
+    if (result.done) {
+      done();
+      return;
+    }
+    void result.value.wait().then(() => this.driveTick(steps, done, true));
+  }
+
+  /**
+   * 时钟节拍处理
+   * 同步推进时不等待 async 任务，只用于没有 async 任务的 advance 和 runUntilIdle
+   */
+  private tick(): void {
+    const steps = this.tickSteps();
+    while (!steps.next(false).done) {
+      // 不等待 AsyncContinuation
+    }
+  }
+
+  /**
+   * 时钟节拍处理，异步任务在同一步内执行到下一个 await
+   */
+  private tickAsync(): Promise<void> {
+    return new Promise(resolve => this.driveTick(this.tickSteps(), resolve));
+  }
+
+  /**
+   * 一个时钟节拍的处理过程，需要等待异步任务时交出 AsyncContinuation
+   */
+  private *tickSteps(): Generator<AsyncContinuation, void, boolean> {
+    this.currentStep = 0;
+    if (this.isSchedulerLocked()) {
+      // 节拍被挂起，当前任务继续运行
+      this.pendedTicks++;
+    } else {
+      this.incrementTick();
+    }
+
+    // 执行任务调度
+    yield* this.schedule();
+
+    this.recordStateTicks();
+  }
+
+  /**
+   * 推进节拍计数，处理延时、定时器、中断源和周期作业 (xTaskIncrementTick)
+   * 挂起的节拍在恢复时逐个补上，onTick 钩子和 tick 事件在节拍实际处理时触发
+   */
+  private incrementTick(): void {
+    this.tickCount++;
+    
+    // 处理延时任务
+    this.processDelayedTasks();
+
+    // 推进软件定时器
+    this.timerService?.tick();
+
+    // 触发周期中断和随机中断
+    this.interrupts.tick(this.tickCount);
+
+    // 释放周期作业并检查截止时间
+    this.updateJobs();
+
+    this.config.hooks?.onTick?.(this.tickCount);
+    this.events.emit('tick', { tickCount: this.tickCount });
+  }
+
+  /**
+   * tickless 模式下，除空闲任务外的所有任务都阻塞时，立即跳过到下一次唤醒前的节拍 (虚拟时间)
+   * @param maxTicks 最多跳过的节拍数
+   * @returns 跳过的节拍数
+   */
+  private sleep(maxTicks: number): number {
+    const ticks = this.prepareSleep(maxTicks);
+    if (ticks > 0) {
+      this.stepTick(ticks);
+    }
+    return ticks;
+  }
+
+  /**
+   * 由实时时钟源驱动时，暂停时钟源并在唤醒后补上睡眠期间的节拍
+   */
+  private sleepWithTickSource(): void {
+    if (!this.tickSource.sleep) {
+      return;
+    }
+
+    const ticks = this.prepareSleep(MAX_SUPPRESSED_TICKS);
+    if (ticks > 0) {
+      // 提前唤醒时只补上实际经过的节拍
+      this.tickSource.sleep(ticks, elapsedTicks => this.stepTick(Math.min(elapsedTicks, ticks)));
+    }
+  }
+
+  /**
+   * 睡眠期间有任务从调度器外部就绪或触发了中断时提前唤醒 (eAbortSleep)
+   */
+  private abortSleep(): void {
+    this.tickSource.abortSleep?.();
+  }
+
+  /**
+   * 计算可以睡眠的节拍数并调用 preSleepProcessing，不能睡眠时返回 0
+   */
+  private prepareSleep(maxTicks: number): number {
+    if (!this.config.tickless || !this.isRunning || maxTicks <= 0 || !this.isSystemIdle()) {
+      return 0;
+    }
+
+    let expectedIdleTicks = this.getExpectedIdleTicks();
+    if (expectedIdleTicks < (this.config.expectedIdleTimeBeforeSleep ?? DEFAULT_EXPECTED_IDLE_TIME_BEFORE_SLEEP)) {
+      return 0;
+    }
+
+    const modified = this.config.preSleepProcessing?.(Number.isFinite(expectedIdleTicks) ? expectedIdleTicks : MAX_SUPPRESSED_TICKS);
+    if (typeof modified === 'number') {
+      expectedIdleTicks = Math.min(expectedIdleTicks, modified);
+    }
+
+    // 唤醒所在的节拍照常处理，只跳过之前的空闲节拍
+    return Math.max(0, Math.min(expectedIdleTicks - 1, maxTicks, MAX_SUPPRESSED_TICKS));
+  }
+
+  /**
+   * 除空闲任务外没有可运行的任务，也没有待处理的中断
+   */
+  private isSystemIdle(): boolean {
+    if (this.isSchedulerLocked() || this.interrupts.hasPending()) {
+      return false;
+    }
+    return this.taskManager.getAllTasks().every(task =>
+      task.handle === this.idleTaskHandle || (task.state !== TaskState.READY && task.state !== TaskState.RUNNING)
+    );
+  }
+
+  /**
+   * 距离下一个需要处理的节拍 (任务延时结束、定时器到期、作业释放或截止、周期中断) 的节拍数
+   */
+  private getExpectedIdleTicks(): number {
+    let ticks = Math.min(
+      this.timerService?.getTicksToNextExpiry() ?? Infinity,
+      this.interrupts.getTicksToNextSource(this.tickCount)
+    );
+
+    for (const task of this.taskManager.getAllTasks()) {
+      if (task.state === TaskState.BLOCKED && task.delayTicks > 0) {
+        ticks = Math.min(ticks, task.delayTicks);
+      }
+      if (task.timing) {
+        ticks = Math.min(ticks, task.timing.nextReleaseTick - this.tickCount);
+        for (const job of task.timing.jobs) {
+          if (!job.missed) {
+            ticks = Math.min(ticks, job.deadline - this.tickCount);
+          }
+        }
+      }
+    }
+    return ticks;
+  }
+
+  /**
+   * 一次性补上睡眠期间跳过的节拍 (vTaskStepTick)，并调用 postSleepProcessing
+   */
+  private stepTick(ticks: number): void {
+    this.tickCount += ticks;
+    this.sleepTicks += ticks;
+    this.timerService?.skipTicks(ticks);
+
+    for (const task of this.taskManager.getAllTasks()) {
+      if (task.state === TaskState.BLOCKED && task.delayTicks > 0) {
+        task.delayTicks -= ticks;
+      }
+      task.stats.stateTicks[task.state] += ticks;
+    }
+
+    // 睡眠时间计入空闲任务的运行时间
+    const idleTask = this.idleTaskHandle !== null ? this.taskManager.getTaskInfo(this.idleTaskHandle) : null;
+    if (idleTask) {
+      idleTask.stats.runTime += ticks;
+    }
+
+    this.config.postSleepProcessing?.(ticks);
+  }
+
+  /**
+   * 处理延时任务
+   */
+  private processDelayedTasks(): void {
+    const allTasks = this.taskManager.getAllTasks();
+    
+    for (const task of allTasks) {
+      if (task.state === TaskState.BLOCKED && task.delayTicks > 0) {
+        task.delayTicks--;
+        
+        if (task.delayTicks === 0) {
+          if (task.pendingRequest) {
+            // 等待内核对象超时
+            this.taskManager.timeoutTask(task.handle);
+          } else {
+            // 延时结束，恢复到就绪状态
+            this.taskManager.unblockTask(task.handle, 'delay');
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 任务调度
+   * 一个节拍内任务最多执行 stepsPerTick 步，任务阻塞、让出或被抢占时在同一节拍内切换到下一个任务
+   */
+  private *schedule(): Generator<AsyncContinuation, void, boolean> {
+    const stepsPerTick = this.config.stepsPerTick ?? 1;
+    this.sliceTicks++;
+    let repeated = false;
+    let pendingSteps = 0;
+    let extraSteps = 0;
+
+    for (let step = 0; step < stepsPerTick; step++) {
+      this.currentStep = step;
+      // 中断在任务的两步之间执行
+      this.interrupts.dispatch();
+
+      const nextTask = this.selectTask(step === 0 && !repeated);
+      if (nextTask === null) {
+        return;
+      }
+
+      // 空闲任务占用本节拍剩余的时间；同一步内被唤醒任务的运行不重复计入
+      const isIdle = nextTask === this.idleTaskHandle;
+      const share = isIdle ? (stepsPerTick - step) / stepsPerTick : 1 / stepsPerTick;
+      this.recordRunTime(nextTask, repeated ? 0 : share);
+
+      this.switchTo(nextTask);
+      this.inTaskStep = true;
+      yield* this.runTask(nextTask);
+      this.inTaskStep = false;
+      this.checkStackOverflow(nextTask);
+      this.checkSchedulerLock(nextTask);
+
+      if (isIdle) {
+        return;
+      }
+
+      // 任务在这一步中唤醒了更高优先级的任务时，被唤醒的任务在同一步内接着运行
+      pendingSteps += this.takeWokenTasks();
+      repeated = pendingSteps > 0 && extraSteps < this.taskManager.getAllTasks().length;
+      if (repeated) {
+        pendingSteps--;
+        extraSteps++;
+        step--;
+      }
+    }
+  }
+
+  /**
+   * 任务在内核对象上被唤醒 (信号量、队列、事件组、任务通知)
+   * 在任务的一步中唤醒时推迟到这一步结束后切换，避免当前任务的剩余代码在被唤醒任务的上下文中执行；
+   * 在任务外唤醒时立即抢占；中断中的唤醒由 FromISR 接口和退出中断时处理
+   */
+  private handleWake(handle: TaskHandle): void {
+    this.abortSleep();
+    if (this.interrupts.isInISR()) {
+      return;
+    }
+    if (!this.inTaskStep) {
+      this.preemptIfNeeded();
+      return;
+    }
+
+    const current = this.taskManager.getCurrentTask();
+    const currentTask = current !== null ? this.taskManager.getTaskInfo(current) : null;
+    const woken = this.taskManager.getTaskInfo(handle);
+    if (woken && currentTask && this.taskManager.getPolicy().compare(woken, currentTask) < 0) {
+      this.wokenInStep++;
+    }
+  }
+
+  /**
+   * 取出这一步中推迟的唤醒切换
+   * @returns 需要在同一步内接着运行的被唤醒任务数
+   */
+  private takeWokenTasks(): number {
+    const woken = this.wokenInStep;
+    this.wokenInStep = 0;
+    return this.isRunning && this.isPreemptive() && !this.isSchedulerLocked() ? woken : 0;
+  }
+
+  /**
+   * 任务切出时检查栈溢出，溢出的任务被删除或挂起
+   */
+  private checkStackOverflow(handle: TaskHandle): void {
+    const mode = this.config.stackOverflowCheck ?? 'none';
+    if (!this.taskManager.isStackOverflowed(handle, mode)) {
+      return;
+    }
+
+    const task = this.taskManager.getTaskInfo(handle)!;
+    this.events.log('error', `任务 ${task.name} 栈溢出`);
+    this.config.onStackOverflow?.(handle, task.name);
+
+    if (this.config.stackOverflowAction === 'suspend') {
+      this.taskManager.suspendTask(handle);
+    } else {
+      this.removeTask(handle);
+    }
+  }
+
+  /**
+   * 累计任务的运行时间和步数
+   */
+  private recordRunTime(handle: TaskHandle, ticks: number): void {
+    const task = this.taskManager.getTaskInfo(handle);
+    if (task) {
+      task.stats.runTime += ticks;
+      task.stats.runSteps++;
+    }
+  }
+
+  /**
+   * 累计各任务在本节拍结束时所处状态的时间
+   */
+  private recordStateTicks(): void {
+    for (const task of this.taskManager.getAllTasks()) {
+      task.stats.stateTicks[task.state]++;
+    }
+  }
+
+  /**
+   * 选择下一步要运行的任务
+   * @param tickBoundary 是否处于节拍开始处，时间片只在节拍边界轮转
+   */
+  private selectTask(tickBoundary: boolean): TaskHandle | null {
+    const current = this.taskManager.getCurrentTask();
+    const task = current !== null ? this.taskManager.getTaskInfo(current) : null;
+
+    // 临界区或调度器挂起期间不切换任务
+    if (this.isSchedulerLocked()) {
+      return task && task.state === TaskState.RUNNING ? current : null;
+    }
+
+    // 当前任务还在运行时，决定是否继续运行它
+    if (task && task.state === TaskState.RUNNING && current !== this.idleTaskHandle) {
+      if (!this.isPreemptive()) {
+        return current;
+      }
+      if (this.taskManager.hasHigherPriorityReadyTask(task)) {
+        return this.taskManager.getNextTask();
+      }
+      const timeSlicing = this.config.timeSlicing ?? true;
+      if (tickBoundary && timeSlicing && this.sliceTicks >= (this.config.timeSliceTicks ?? 1)) {
+        return this.taskManager.getNextTask();
+      }
+      return current;
+    }
+
+    return this.taskManager.getNextTask();
+  }
+
+  /**
+   * 切换到指定任务，当前任务放回就绪列表
+   */
+  private switchTo(handle: TaskHandle): void {
+    const current = this.taskManager.getCurrentTask();
+    if (current === handle && this.taskManager.getTaskInfo(handle)?.state === TaskState.RUNNING) {
+      return;
+    }
+
+    if (current !== null) {
+      this.taskManager.yieldCurrentTask('preempt');
+    }
+    // 当前任务可能已经通过 yield 让出，按最近切入的任务调用钩子
+    const previous = this.switchedInTask !== null ? this.taskManager.getTaskInfo(this.switchedInTask) : null;
+    if (previous) {
+      this.config.hooks?.onTaskSwitchedOut?.(previous.handle, previous.name);
+    }
+    this.taskManager.setCurrentTask(handle);
+    this.switchedInTask = handle;
+    this.sliceTicks = 0;
+    this.events.emit('contextSwitch', { from: previous?.handle ?? null, to: handle, tick: this.tickCount });
+
+    const next = this.taskManager.getTaskInfo(handle);
+    if (next) {
+      this.config.hooks?.onTaskSwitchedIn?.(handle, next.name);
+    }
+  }
+
+  /**
+   * 有更高优先级的任务就绪时立即切换
+   */
+  private preemptIfNeeded(): void {
+    if (!this.isRunning || !this.isPreemptive() || this.isSchedulerLocked()) {
+      return;
+    }
+
+    const current = this.taskManager.getCurrentTask();
+    const task = current !== null ? this.taskManager.getTaskInfo(current) : null;
+    if (!task || task.state !== TaskState.RUNNING || !this.taskManager.hasHigherPriorityReadyTask(task)) {
+      return;
+    }
+
+    const nextTask = this.taskManager.getNextTask();
+    if (nextTask !== null) {
+      this.switchTo(nextTask);
+    }
+  }
+
+  /**
+   * 最外层中断退出时执行延迟的任务切换 (portYIELD_FROM_ISR)，协作式调度下同样切换
+   */
+  private exitISR(): void {
+    if (!this.yieldFromISRPending || this.isSchedulerLocked()) {
+      return;
+    }
+
+    this.yieldFromISRPending = false;
+    const nextTask = this.isRunning ? this.taskManager.getNextTask() : null;
+    if (nextTask !== null) {
+      this.switchTo(nextTask);
+    }
+  }
+
+  /**
+   * 进入临界区 (taskENTER_CRITICAL)，可嵌套
+   * 临界区内屏蔽优先级不高于 maxSyscallInterruptPriority 的中断，挂起节拍并且不切换任务
+   */
+  enterCritical(): void {
+    this.assertTaskContext('enterCritical');
+    this.lock();
+    this.criticalNesting++;
+    this.interrupts.setBasePriority(this.config.maxSyscallInterruptPriority ?? Infinity);
+  }
+
+  /**
+   * 退出临界区 (taskEXIT_CRITICAL)，最外层退出时执行被推迟的中断和节拍
+   */
+  exitCritical(): void {
+    if (this.criticalNesting === 0) {
+      throw new Error('exitCritical called outside a critical section');
+    }
+
+    this.criticalNesting--;
+    if (this.criticalNesting === 0) {
+      this.interrupts.setBasePriority(null);
+      this.unlock();
+    }
+  }
+
+  /**
+   * 挂起调度器 (vTaskSuspendAll)，可嵌套
+   * 当前任务跨节拍继续运行，中断照常执行，节拍累积到恢复时处理
+   */
+  suspendAll(): void {
+    this.assertTaskContext('suspendAll');
+    this.lock();
+    this.suspendNesting++;
+  }
+
+  /**
+   * 恢复调度器 (xTaskResumeAll)
+   * @returns 恢复后发生了任务切换时返回 true
+   */
+  resumeAll(): boolean {
+    if (this.suspendNesting === 0) {
+      throw new Error('resumeAll called while the scheduler is not suspended');
+    }
+
+    this.suspendNesting--;
+    return this.suspendNesting === 0 ? this.unlock() : false;
+  }
+
+  /**
+   * 获取调度器状态 (xTaskGetSchedulerState)
+   */
+  getSchedulerState(): 'notStarted' | 'running' | 'suspended' {
+    if (!this.isRunning) {
+      return 'notStarted';
+    }
+    return this.suspendNesting > 0 ? 'suspended' : 'running';
+  }
+
+  /**
+   * 是否处于临界区或调度器挂起状态
+   */
+  private isSchedulerLocked(): boolean {
+    return this.criticalNesting > 0 || this.suspendNesting > 0;
+  }
+
+  /**
+   * 记录持有锁的任务
+   */
+  private lock(): void {
+    if (!this.isSchedulerLocked()) {
+      const current = this.taskManager.getCurrentTask();
+      this.lockOwner = current !== null ? this.taskManager.getTaskInfo(current) : null;
+    }
+  }
+
+  /**
+   * 释放一层锁后执行被推迟的工作：补上挂起的节拍、执行挂起的中断、执行推迟的任务切换
+   * @returns 发生了任务切换时返回 true
+   */
+  private unlock(): boolean {
+    const current = this.taskManager.getCurrentTask();
+
+    if (!this.isSchedulerLocked()) {
+      this.lockOwner = null;
+      const pendedTicks = this.pendedTicks;
+      this.pendedTicks = 0;
+      for (let i = 0; i < pendedTicks; i++) {
+        this.incrementTick();
+      }
+    }
+
+    this.interrupts.dispatch();
+    this.exitISR();
+    this.preemptIfNeeded();
+    return this.taskManager.getCurrentTask() !== current;
+  }
+
+  /**
+   * 持有锁的任务阻塞、挂起或结束时强制释放锁，避免系统无法继续调度
+   */
+  private checkSchedulerLock(handle: TaskHandle): void {
+    const owner = this.lockOwner;
+    if (!owner || owner.handle !== handle || !this.isSchedulerLocked()) {
+      return;
+    }
+    if (this.taskManager.getTaskInfo(handle)?.state === TaskState.RUNNING) {
+      return;
+    }
+
+    this.events.log('error', `任务 ${owner.name} 在临界区或调度器挂起期间停止运行，已强制退出`);
+    this.criticalNesting = 0;
+    this.suspendNesting = 0;
+    this.interrupts.setBasePriority(null);
+    this.unlock();
+  }
+
+  /**
+   * 检查调用是否不在中断上下文中
+   */
+  private assertTaskContext(name: string): void {
+    if (this.interrupts.isInISR()) {
+      throw new RTOSError('INVALID_CONTEXT', `${name} cannot be called from an interrupt handler`);
+    }
+  }
+
+  /**
+   * 是否启用抢占式调度
+   */
+  private isPreemptive(): boolean {
+    return this.config.preemption ?? true;
+  }
+
+  /**
+   * 运行任务
+   */
+  private *runTask(handle: TaskHandle): Generator<AsyncContinuation, void, boolean> {
+    const task = this.taskManager.getTaskInfo(handle);
+    if (!task) {
+      return;
+    }
+
+    try {
+      if (task.isGenerator && task.generator) {
+        try {
+          // 执行 Generator 任务，并传回上次阻塞请求的结果
+          const eventValue = task.eventValue;
+          task.eventValue = undefined;
+          let result = task.generator.next(eventValue);
+          if (result.value instanceof AsyncContinuation && (yield result.value)) {
+            // 异步任务已执行到下一个 await，在同一步内取出新的请求
+            result = task.generator.next();
+          }
+
+          if (result.done) {
+            // Generator 执行完成，删除任务
+            this.events.emit('taskCompleted', { handle, name: task.name });
+            this.completeJob(task);
+            this.removeTask(handle);
+            return;
+          }
+          
+          // 检查 yield 的值是否为 delay 调用
+          if (result.value && typeof result.value === 'object' && typeof result.value.delayTicks === 'number') {
+            // 进入延时表示完成当前作业
+            this.completeJob(task);
+            if (result.value.delayTicks > 0) {
+              // 设置延时并阻塞任务
+              task.delayTicks = result.value.delayTicks;
+              this.taskManager.blockTask(handle, 'delay');
+            }
+          } else if (result.value && typeof result.value === 'object' && result.value.type === 'blocking') {
+            this.handleBlockingRequest(task, result.value);
+          }
+        } catch (error) {
+          const location = getSourceLocation(error);
+          if (location) {
+            // 转换后的任务报告原始源码中的位置和代码帧
+            this.events.log('error', `Generator 任务 ${task.name} 执行出错 (第 ${location.line} 行，第 ${location.column} 列):`, `${String(error)}\n${location.frame}`);
+          } else {
+            this.events.log('error', `Generator 任务 ${task.name} 执行出错:`, error);
+          }
+          this.reportTaskError(task, error);
+          // 删除出错的任务
+          this.removeTask(handle);
+        }
+      } else {
+        // 执行普通任务函数
+        task.function(task.params);
+      }
+    } catch (error) {
+      this.events.log('error', `任务 ${task.name} 执行出错:`, error);
+      this.reportTaskError(task, error);
+    }
+  }
+
+  /**
+   * 处理任务 yield 出的阻塞请求
+   */
+  private handleBlockingRequest(task: TaskControlBlock, request: BlockingRequest): void {
+    const result = request.attempt(task.handle);
+    if (result.completed) {
+      task.eventValue = result.value;
+      return;
+    }
+
+    if (request.timeoutTicks <= 0) {
+      // 不等待，立即返回超时结果
+      task.eventValue = request.timeoutValue;
+      return;
+    }
+
+    // 进入内核对象的等待列表并阻塞
+    task.pendingRequest = request;
+    task.delayTicks = request.timeoutTicks;
+    request.wait(task.handle);
+    this.taskManager.blockTask(task.handle, request.reason);
+  }
+
+  /**
+   * 创建任务
+   */
+  createTask(
+    name: string,
+    taskFunction: TaskFunction,
+    priority: number,
+    stackSize?: number,
+    params?: any,
+    options?: TaskOptions
+  ): TaskHandle {
+    this.validateTaskOptions(options);
+
+    const actualStackSize = stackSize || this.config.stackSize;
+    this.checkTaskCreation(name, priority);
+    const handle = this.spawnTask(name, taskFunction, priority, actualStackSize, params);
+    if (options?.mode === 'async') {
+      this.asyncTasks.add(handle);
+    }
+    this.abortSleep();
+
+    const task = this.taskManager.getTaskInfo(handle);
+    if (task && options && (options.period !== undefined || options.deadline !== undefined)) {
+      // 第一个作业在下一个节拍释放
+      task.timing = {
+        period: options.period ?? null,
+        deadline: options.deadline ?? options.period!,
+        wcet: options.wcet ?? null,
+        nextReleaseTick: this.tickCount + 1,
+        jobs: [],
+        jobsReleased: 0,
+        jobsCompleted: 0,
+        deadlineMisses: 0,
+        lastMissTick: null
+      };
+    }
+    return handle;
+  }
+
+  /**
+   * 检查任务能否创建，失败时抛出 TaskCreationError
+   */
+  private checkTaskCreation(name: string, priority: number): void {
+    if (!Number.isInteger(priority) || priority < 0) {
+      throw new TaskCreationError('INVALID_PRIORITY', `Invalid priority for task ${name}: ${priority}`);
+    }
+
+    if (this.taskManager.getAllTasks().length >= this.config.maxTasks) {
+      throw new TaskCreationError('MAX_TASKS', `Cannot create task ${name}: maximum of ${this.config.maxTasks} tasks reached`);
+    }
+  }
+
+  /**
+   * 从模拟堆分配任务栈并创建任务，内存不足时抛出 TaskCreationError
+   */
+  private spawnTask(name: string, taskFunction: TaskFunction, priority: number, stackSize: number, params?: any): TaskHandle {
+    let address: number | null = null;
+    if (this.heap) {
+      address = this.malloc(this.heap, stackSize);
+      if (address === null) {
+        throw new TaskCreationError('NO_MEMORY', `Cannot create task ${name}: not enough memory for a ${stackSize} byte stack`);
+      }
+    }
+
+    const handle = this.taskManager.createTask(name, taskFunction, priority, stackSize, params);
+    if (address !== null) {
+      // 删除任务时释放
+      this.stackAddresses.set(handle, address);
+    }
+
+    this.config.hooks?.onTaskCreate?.(handle, name);
+    this.events.emit('taskCreated', { handle, name, priority });
+    return handle;
+  }
+
+  /**
+   * 调用 onTaskError 钩子并发出 taskError 事件
+   */
+  private reportTaskError(task: TaskControlBlock, error: unknown): void {
+    this.config.hooks?.onTaskError?.(task.handle, task.name, error);
+    const location = getSourceLocation(error);
+    this.events.emit('taskError', { handle: task.handle, name: task.name, error, ...(location ? { location } : {}) });
+  }
+
+  /**
+   * 从模拟堆为内核对象分配控制块，失败时抛出 RTOSError
+   */
+  private allocateObject<T extends object>(name: string, size: number, create: () => T): T {
+    if (!this.heap) {
+      return create();
+    }
+
+    const address = this.malloc(this.heap, size);
+    if (address === null) {
+      throw new RTOSError('NO_MEMORY', `Cannot create ${name}: not enough memory for ${size} bytes`);
+    }
+
+    const object = create();
+    this.objectAddresses.set(object, address);
+    return object;
+  }
+
+  /**
+   * 释放内核对象的控制块
+   */
+  private freeObject(object: object): void {
+    const address = this.objectAddresses.get(object);
+    if (address !== undefined) {
+      this.heap!.free(address);
+      this.objectAddresses.delete(object);
+    }
+  }
+
+  /**
+   * 从模拟堆分配内存 (pvPortMalloc)，失败时调用 mallocFailedHook
+   */
+  private malloc(heap: Heap, size: number): number | null {
+    const address = heap.malloc(size);
+    if (address === null) {
+      this.config.mallocFailedHook?.(size);
+    }
+    return address;
+  }
+
+  /**
+   * 释放到期的作业，并记录错过截止时间的作业
+   */
+  private updateJobs(): void {
+    for (const task of this.taskManager.getAllTasks()) {
+      const timing = task.timing;
+      if (!timing) {
+        continue;
+      }
+
+      if (this.tickCount >= timing.nextReleaseTick) {
+        timing.jobs.push({
+          releaseTick: timing.nextReleaseTick,
+          deadline: timing.nextReleaseTick + timing.deadline,
+          missed: false
+        });
+        timing.jobsReleased++;
+        timing.nextReleaseTick = timing.period !== null ? timing.nextReleaseTick + timing.period : Infinity;
+      }
+
+      for (const job of timing.jobs) {
+        if (!job.missed && this.tickCount >= job.deadline) {
+          job.missed = true;
+          timing.deadlineMisses++;
+          timing.lastMissTick = this.tickCount;
+          this.events.log('warn', `任务 ${task.name} 错过截止时间 (释放于节拍 ${job.releaseTick}，截止节拍 ${job.deadline})`);
+        }
+      }
+    }
+  }
+
+  /**
+   * 任务完成最早的未完成作业
+   */
+  private completeJob(task: TaskControlBlock): void {
+    if (task.timing && task.timing.jobs.length > 0) {
+      task.timing.jobs.shift();
+      task.timing.jobsCompleted++;
+    }
+  }
+
+  /**
+   * 检查任务的实时参数
    */
-  start(): void {
-    if (this.isRunning) {
+  private validateTaskOptions(options: TaskOptions | undefined): void {
+    if (!options) {
       return;
     }
 
-    this.isRunning = true;
-    this.tickCount = 0;
+    this.validatePositiveInteger('task period', options.period);
+    this.validatePositiveInteger('task deadline', options.deadline);
+    this.validatePositiveInteger('task wcet', options.wcet);
+    if (options.wcet !== undefined && options.period === undefined && options.deadline === undefined) {
+      throw new Error('Invalid task options: wcet requires a period or deadline');
+    }
+  }
 
-    // 启动时钟节拍
-    this.tickInterval = setInterval(() => {
-      this.tick();
-    }, 1000 / this.config.tickRate);
+  /**
+   * 创建执行追踪记录器，调用 start() 后开始记录
+   * @param capacity 环形缓冲区容量
+   */
+  createTraceRecorder(capacity?: number): TraceRecorder {
+    return new TraceRecorder(this.events, () => ({ tick: this.tickCount, step: this.currentStep }), {
+      capacity: capacity ?? DEFAULT_TRACE_CAPACITY,
+      tickRate: this.config.tickRate,
+      stepsPerTick: this.config.stepsPerTick ?? 1
+    });
+  }
 
-    console.log('调度器已启动');
+  /**
+   * 获取运行时统计 (vTaskGetRunTimeStats)
+   */
+  getRunTimeStats(): RunTimeStats {
+    const totalTime = this.tickCount;
+    const tasks = this.taskManager.getAllTasks().map(task => ({
+      handle: task.handle,
+      name: task.name,
+      state: task.state,
+      priority: task.priority,
+      runTime: task.stats.runTime,
+      runSteps: task.stats.runSteps,
+      cpuUsage: totalTime > 0 ? task.stats.runTime / totalTime * 100 : 0,
+      stateTicks: { ...task.stats.stateTicks }
+    }));
+
+    return { totalTime, tasks };
   }
 
   /**
-   * 停止调度器
+   * 以表格形式输出任务列表和运行时统计 (vTaskList)
+   * 状态: X 运行, R 就绪, B 阻塞, S 挂起
    */
-  stop(): void {
-    if (!this.isRunning) {
-      return;
-    }
+  getTaskListTable(): string {
+    const stateLetters: Record<string, string> = {
+      [TaskState.RUNNING]: 'X',
+      [TaskState.READY]: 'R',
+      [TaskState.BLOCKED]: 'B',
+      [TaskState.SUSPENDED]: 'S'
+    };
+    const header = ['Name', 'State', 'Prio', 'Num', 'RunTime', 'CPU%', 'Ready', 'Blocked', 'Suspended'];
+    const rows = this.getRunTimeStats().tasks
+      .sort((a, b) => a.handle - b.handle)
+      .map(task => [
+        task.name,
+        stateLetters[task.state] ?? '?',
+        String(task.priority),
+        String(task.handle),
+        String(Number(task.runTime.toFixed(2))),
+        `${task.cpuUsage.toFixed(1)}%`,
+        String(task.stateTicks[TaskState.READY]),
+        String(task.stateTicks[TaskState.BLOCKED]),
+        String(task.stateTicks[TaskState.SUSPENDED])
+      ]);
 
-    this.isRunning = false;
+    const widths = header.map((title, column) =>
+      Math.max(title.length, ...rows.map(row => row[column]!.length))
+    );
+    return [header, ...rows]
+      .map(row => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd())
+      .join('\n');
+  }
 
-    if (this.tickInterval) {
-      clearInterval(this.tickInterval);
-      this.tickInterval = null;
+  /**
+   * 获取实时任务的截止时间统计
+   */
+  getDeadlineReport(): DeadlineReport {
+    const tasks: DeadlineReport['tasks'] = [];
+    let utilization = 0;
+
+    for (const task of this.taskManager.getAllTasks()) {
+      const timing = task.timing;
+      if (!timing) {
+        continue;
+      }
+
+      if (timing.wcet !== null && timing.period !== null) {
+        utilization += timing.wcet / timing.period;
+      }
+      tasks.push({
+        handle: task.handle,
+        name: task.name,
+        period: timing.period,
+        deadline: timing.deadline,
+        wcet: timing.wcet,
+        jobsReleased: timing.jobsReleased,
+        jobsCompleted: timing.jobsCompleted,
+        deadlineMisses: timing.deadlineMisses,
+        lastMissTick: timing.lastMissTick
+      });
     }
 
-    console.log('调度器已停止');
+    return {
+      policy: this.taskManager.getPolicy().name,
+      utilization,
+      tasks
+    };
   }
 
   /**
-   * 时钟节拍处理
+   * 删除任务
    */
-  private tick(): void {
-    this.tickCount++;
-    
-    // 处理延时任务
-    this.processDelayedTasks();
-    
-    // 执行任务调度
-    this.schedule();
+  deleteTask(handle: TaskHandle): boolean {
+    return this.removeTask(handle);
   }
 
   /**
-   * 处理延时任务
+   * 删除任务并释放任务栈
    */
-  private processDelayedTasks(): void {
-    const allTasks = this.taskManager.getAllTasks();
-    
-    for (const task of allTasks) {
-      if (task.state === TaskState.BLOCKED && task.delayTicks > 0) {
-        task.delayTicks--;
-        
-        if (task.delayTicks === 0) {
-          // 延时结束，恢复到就绪状态
-          this.taskManager.unblockTask(task.handle);
-        }
-      }
+  private removeTask(handle: TaskHandle): boolean {
+    const task = this.taskManager.getTaskInfo(handle);
+    if (!task || !this.taskManager.deleteTask(handle)) {
+      return false;
+    }
+
+    if (this.switchedInTask === handle) {
+      this.switchedInTask = null;
     }
+    this.asyncTasks.delete(handle);
+    const address = this.stackAddresses.get(handle);
+    if (address !== undefined) {
+      this.heap!.free(address);
+      this.stackAddresses.delete(handle);
+    }
+
+    this.config.hooks?.onTaskDelete?.(handle, task.name);
+    this.events.emit('taskDeleted', { handle, name: task.name });
+    return true;
   }
 
   /**
-   * 任务调度
+   * 挂起任务
    */
-  private schedule(): void {
-    const readyTasks = this.taskManager.getReadyTasks();
-    
-    if (readyTasks.length === 0) {
-      // 没有就绪任务，运行空闲任务
-      if (this.idleTaskHandle) {
-        this.taskManager.setCurrentTask(this.idleTaskHandle);
-        this.runTask(this.idleTaskHandle);
-      }
-      return;
+  suspendTask(handle: TaskHandle): boolean {
+    return this.taskManager.suspendTask(handle);
+  }
+
+  /**
+   * 恢复任务
+   */
+  resumeTask(handle: TaskHandle): boolean {
+    const resumed = this.taskManager.resumeTask(handle);
+    if (resumed) {
+      this.abortSleep();
+      this.preemptIfNeeded();
     }
+    return resumed;
+  }
 
-    // 优先级调度：选择优先级最高的任务
-    const nextTask = this.taskManager.getNextTask();
-    if (!nextTask) {
-      return;
+  /**
+   * 发送任务通知 (xTaskNotify)
+   */
+  notify(handle: TaskHandle, value: number, action: NotifyAction): boolean {
+    return this.taskManager.notify(handle, value, action);
+  }
+
+  /**
+   * 通知值加一 (xTaskNotifyGive)
+   */
+  notifyGive(handle: TaskHandle): boolean {
+    return this.taskManager.notify(handle, 0, 'increment');
+  }
+
+  /**
+   * 等待通知并作为计数值获取 (ulTaskNotifyTake)
+   */
+  notifyTake(clearOnExit?: boolean, timeoutTicks?: number): BlockingRequest {
+    return this.taskManager.notifyTake(clearOnExit, timeoutTicks);
+  }
+
+  /**
+   * 等待通知 (xTaskNotifyWait)
+   */
+  notifyWait(bitsToClearOnEntry?: number, bitsToClearOnExit?: number, timeoutTicks?: number): BlockingRequest {
+    return this.taskManager.notifyWait(bitsToClearOnEntry, bitsToClearOnExit, timeoutTicks);
+  }
+
+  /**
+   * 注册中断服务程序
+   * @param priority 中断优先级，数值越大越优先
+   * @param source 周期或随机触发的中断源
+   */
+  registerInterrupt(irq: number, priority: number, handler: InterruptHandler, source?: InterruptSource): void {
+    this.interrupts.register(irq, priority, handler, source);
+  }
+
+  /**
+   * 注销中断
+   */
+  unregisterInterrupt(irq: number): boolean {
+    return this.interrupts.unregister(irq);
+  }
+
+  /**
+   * 触发中断，在任务的下一步之前执行；在中断中触发更高优先级的中断时立即嵌套执行
+   * @returns 中断未注册时返回 false
+   */
+  triggerInterrupt(irq: number): boolean {
+    this.abortSleep();
+    return this.interrupts.trigger(irq);
+  }
+
+  /**
+   * 获取所有已注册的中断
+   */
+  getInterrupts(): Interrupt[] {
+    return this.interrupts.getInterrupts();
+  }
+
+  /**
+   * 是否处于中断上下文
+   */
+  isInISR(): boolean {
+    return this.interrupts.isInISR();
+  }
+
+  /**
+   * 在中断中释放信号量 (xSemaphoreGiveFromISR)
+   */
+  giveFromISR(semaphore: Semaphore): FromISRResult {
+    return this.callFromISR('giveFromISR', () => semaphore.give());
+  }
+
+  /**
+   * 在中断中发送消息 (xQueueSendFromISR)，队列已满时不等待
+   */
+  sendFromISR<T>(queue: Queue<T>, item: T, toFront: boolean = false): FromISRResult {
+    return this.callFromISR('sendFromISR', () => queue.trySend(item, toFront));
+  }
+
+  /**
+   * 在中断中发送任务通知 (xTaskNotifyFromISR)
+   */
+  notifyFromISR(handle: TaskHandle, value: number, action: NotifyAction): FromISRResult {
+    return this.callFromISR('notifyFromISR', () => this.taskManager.notify(handle, value, action));
+  }
+
+  /**
+   * 在中断上下文中执行内核操作，并检查是否唤醒了比当前任务优先级更高的任务
+   */
+  private callFromISR(name: string, operation: () => boolean): FromISRResult {
+    const interrupt = this.interrupts.getCurrentInterrupt();
+    if (!interrupt) {
+      throw new RTOSError('INVALID_CONTEXT', `${name} must be called from an interrupt handler`);
+    }
+    const maxPriority = this.config.maxSyscallInterruptPriority;
+    if (maxPriority !== undefined && interrupt.priority > maxPriority) {
+      throw new RTOSError('INVALID_CONTEXT', `${name} called from interrupt ${interrupt.irq} above maxSyscallInterruptPriority (${interrupt.priority} > ${maxPriority})`);
     }
 
-    const currentTask = this.taskManager.getCurrentTask();
-    
-    // 如果下一个任务与当前任务不同，进行任务切换
-    if (currentTask !== nextTask) {
-      if (currentTask) {
-        // 保存当前任务状态并放回就绪列表
-        this.taskManager.yieldCurrentTask();
+    const blocked = this.taskManager.getBlockedTasks();
+    const success = operation();
+
+    const current = this.taskManager.getCurrentTask();
+    const currentTask = current !== null ? this.taskManager.getTaskInfo(current) : null;
+    const higherPriorityTaskWoken = blocked.some(handle => {
+      const task = this.taskManager.getTaskInfo(handle);
+      if (!task || task.state !== TaskState.READY) {
+        return false;
       }
-      
-      // 切换到新任务
-      this.taskManager.setCurrentTask(nextTask);
+      return !currentTask || currentTask.state !== TaskState.RUNNING || this.taskManager.getPolicy().compare(task, currentTask) < 0;
+    });
+
+    if (higherPriorityTaskWoken) {
+      this.yieldFromISRPending = true;
     }
+    return { success, higherPriorityTaskWoken };
+  }
 
-    // 运行当前任务
-    this.runTask(nextTask);
-    
-    // 检查任务是否被阻塞，如果被阻塞则不进行任务切换
-    const taskAfterRun = this.taskManager.getTaskInfo(nextTask);
-    if (taskAfterRun && taskAfterRun.state === TaskState.BLOCKED) {
-      // 任务被阻塞，不进行任务切换
-      return;
+  /**
+   * 创建消息队列
+   */
+  createQueue<T = any>(length: number, name?: string): Queue<T> {
+    const queueName = name || `Queue_${++this.queueCounter}`;
+    return this.allocateObject(queueName, QUEUE_CONTROL_BLOCK_SIZE + length * QUEUE_ITEM_SIZE,
+      () => new Queue<T>(this.taskManager, length, queueName));
+  }
+
+  /**
+   * 删除消息队列并释放内存 (vQueueDelete)
+   * @returns 仍有任务在等待时返回 false
+   */
+  deleteQueue(queue: Queue): boolean {
+    if (queue.getSendWaiters().length > 0 || queue.getReceiveWaiters().length > 0) {
+      return false;
     }
+    this.freeObject(queue);
+    return true;
   }
 
   /**
-   * 运行任务
+   * 创建二值信号量 (初始为空)
    */
-  private runTask(handle: TaskHandle): void {
-    const task = this.taskManager.getTaskInfo(handle);
-    if (!task) {
-      return;
+  createBinarySemaphore(name?: string): Semaphore {
+    return this.createCountingSemaphore(1, 0, name);
+  }
+
+  /**
+   * 创建计数信号量
+   */
+  createCountingSemaphore(maxCount: number, initialCount: number, name?: string): Semaphore {
+    const semaphoreName = name || `Semaphore_${++this.semaphoreCounter}`;
+    return this.allocateObject(semaphoreName, QUEUE_CONTROL_BLOCK_SIZE,
+      () => new Semaphore(this.taskManager, maxCount, initialCount, semaphoreName));
+  }
+
+  /**
+   * 创建互斥量 (支持优先级继承)
+   */
+  createMutex(name?: string): Mutex {
+    const mutexName = name || `Mutex_${++this.mutexCounter}`;
+    return this.allocateObject(mutexName, QUEUE_CONTROL_BLOCK_SIZE, () => new Mutex(this.taskManager, false, mutexName));
+  }
+
+  /**
+   * 创建递归互斥量
+   */
+  createRecursiveMutex(name?: string): Mutex {
+    const mutexName = name || `Mutex_${++this.mutexCounter}`;
+    return this.allocateObject(mutexName, QUEUE_CONTROL_BLOCK_SIZE, () => new Mutex(this.taskManager, true, mutexName));
+  }
+
+  /**
+   * 删除信号量或互斥量并释放内存 (vSemaphoreDelete)
+   * @returns 仍有任务在等待时返回 false
+   */
+  deleteSemaphore(semaphore: Semaphore | Mutex): boolean {
+    if (semaphore.getWaiters().length > 0) {
+      return false;
     }
+    this.freeObject(semaphore);
+    return true;
+  }
 
-    try {
-      if (task.isGenerator && task.generator) {
-        try {
-          // 执行 Generator 任务
-          const result = task.generator.next();
-          
-          if (result.done) {
-            // Generator 执行完成，删除任务
-            this.taskManager.deleteTask(handle);
-            return;
-          }
-          
-          // 检查 yield 的值是否为 delay 调用
-          if (result.value && typeof result.value === 'object' && result.value.delayTicks) {
-            // 设置延时并阻塞任务
-            task.delayTicks = result.value.delayTicks;
-            this.taskManager.blockTask(handle, 'delay');
-          }
-        } catch (error) {
-          console.error(`Generator 任务 ${task.name} 执行出错:`, error);
-          // 删除出错的任务
-          this.taskManager.deleteTask(handle);
-        }
-      } else {
-        // 执行普通任务函数
-        task.function(task.params);
-      }
-    } catch (error) {
-      console.error(`任务 ${task.name} 执行出错:`, error);
+  /**
+   * 创建事件组
+   */
+  createEventGroup(name?: string): EventGroup {
+    const groupName = name || `EventGroup_${++this.eventGroupCounter}`;
+    return this.allocateObject(groupName, EVENT_GROUP_SIZE, () => new EventGroup(this.taskManager, groupName));
+  }
+
+  /**
+   * 删除事件组并释放内存 (vEventGroupDelete)
+   * @returns 仍有任务在等待时返回 false
+   */
+  deleteEventGroup(group: EventGroup): boolean {
+    if (group.getWaiters().length > 0) {
+      return false;
     }
+    this.freeObject(group);
+    return true;
   }
 
   /**
-   * 创建任务
+   * 创建软件定时器 (首次创建时启动定时器服务任务)
    */
-  createTask(
-    name: string,
-    taskFunction: () => void,
-    priority: number,
-    stackSize?: number,
-    params?: any
-  ): TaskHandle {
-    const actualStackSize = stackSize || this.config.stackSize;
-    return this.taskManager.createTask(name, taskFunction, priority, actualStackSize, params);
+  createTimer(name: string, period: number, autoReload: boolean, callback: (timer: Timer) => void): Timer {
+    const timerService = this.getTimerService();
+    return this.allocateObject(name, TIMER_SIZE, () => timerService.createTimer(name, period, autoReload, callback));
   }
 
   /**
-   * 删除任务
+   * 启动定时器
    */
-  deleteTask(handle: TaskHandle): boolean {
-    return this.taskManager.deleteTask(handle);
+  startTimer(timer: Timer): boolean {
+    return this.getTimerService().start(timer);
   }
 
   /**
-   * 挂起任务
+   * 停止定时器
    */
-  suspendTask(handle: TaskHandle): boolean {
-    return this.taskManager.suspendTask(handle);
+  stopTimer(timer: Timer): boolean {
+    return this.getTimerService().stop(timer);
   }
 
   /**
-   * 恢复任务
+   * 重置定时器
    */
-  resumeTask(handle: TaskHandle): boolean {
-    return this.taskManager.resumeTask(handle);
+  resetTimer(timer: Timer): boolean {
+    return this.getTimerService().reset(timer);
+  }
+
+  /**
+   * 修改定时器周期
+   */
+  changeTimerPeriod(timer: Timer, period: number): boolean {
+    return this.getTimerService().changePeriod(timer, period);
+  }
+
+  /**
+   * 删除定时器
+   */
+  deleteTimer(timer: Timer): boolean {
+    const deleted = this.getTimerService().delete(timer);
+    if (deleted) {
+      this.freeObject(timer);
+    }
+    return deleted;
+  }
+
+  /**
+   * 获取定时器服务，不存在时创建服务任务和命令队列
+   * 服务任务与其他任务一样受 maxTasks 和内存限制，创建失败时抛出 TaskCreationError
+   */
+  private getTimerService(): TimerService {
+    if (!this.timerService) {
+      const priority = this.config.timerTaskPriority ?? DEFAULT_TIMER_TASK_PRIORITY;
+      this.checkTaskCreation('TimerTask', priority);
+
+      const commandQueue = this.createQueue<TimerCommand>(
+        this.config.timerQueueLength || DEFAULT_TIMER_QUEUE_LENGTH,
+        'TimerQueue'
+      );
+      const timerService = new TimerService(this.taskManager, commandQueue, () => this.tickCount, this.events);
+
+      let daemonHandle: TaskHandle;
+      try {
+        daemonHandle = this.spawnTask(
+          'TimerTask',
+          timerService.createDaemon(),
+          priority,
+          this.config.timerTaskStackSize || this.config.stackSize
+        );
+      } catch (error) {
+        // 服务任务创建失败时释放命令队列，下次创建定时器时重试
+        this.freeObject(commandQueue);
+        throw error;
+      }
+      timerService.setDaemonTask(daemonHandle);
+      this.timerService = timerService;
+    }
+    return this.timerService;
   }
 
   /**
@@ -226,6 +1508,13 @@ export class Scheduler {
     return { delayTicks: ticks };
   }
 
+  /**
+   * 延时到指定的绝对节拍 (纯 RTOS 阻塞调用)，用于实现没有累积误差的周期任务
+   */
+  delayUntil(tick: number): { delayTicks: number } {
+    return this.delay(Math.max(0, tick - this.tickCount));
+  }
+
   /**
    * 延时毫秒 (纯 RTOS 阻塞调用)
    */
@@ -239,7 +1528,7 @@ export class Scheduler {
    */
   yield(): void {
     const currentTask = this.taskManager.getCurrentTask();
-    if (!currentTask) {
+    if (!currentTask || this.isSchedulerLocked()) {
       return;
     }
 
@@ -247,6 +1536,29 @@ export class Scheduler {
     this.taskManager.yieldCurrentTask();
   }
 
+  /**
+   * 在当前任务栈上分配空间
+   */
+  stackAlloc(bytes: number): boolean {
+    const currentTask = this.taskManager.getCurrentTask();
+    return currentTask !== null && this.taskManager.stackAlloc(currentTask, bytes);
+  }
+
+  /**
+   * 释放当前任务栈上的空间
+   */
+  stackFree(bytes: number): boolean {
+    const currentTask = this.taskManager.getCurrentTask();
+    return currentTask !== null && this.taskManager.stackFree(currentTask, bytes);
+  }
+
+  /**
+   * 获取任务栈的高水位线
+   */
+  getStackHighWaterMark(handle: TaskHandle): number | null {
+    return this.taskManager.getStackHighWaterMark(handle);
+  }
+
   /**
    * 设置任务优先级
    */
@@ -265,7 +1577,12 @@ export class Scheduler {
       readyTasks: this.taskManager.getReadyTasks().length,
       blockedTasks: this.taskManager.getBlockedTasks().length,
       suspendedTasks: this.taskManager.getSuspendedTasks().length,
-      totalTasks: this.taskManager.getAllTasks().length
+      totalTasks: this.taskManager.getAllTasks().length,
+      maxTasks: this.config.maxTasks,
+      criticalNesting: this.criticalNesting,
+      schedulerSuspended: this.suspendNesting > 0,
+      pendedTicks: this.pendedTicks,
+      sleepTicks: this.sleepTicks
     };
   }
 
@@ -288,11 +1605,12 @@ export class Scheduler {
    */
   private setupIdleTask(): void {
     const idleTask = () => {
-      // 空闲任务什么都不做，只是让出CPU
+      // 空闲任务只调用空闲钩子，然后让出CPU
+      this.config.hooks?.onIdle?.();
       this.yield();
     };
 
-    this.idleTaskHandle = this.taskManager.createTask(
+    this.idleTaskHandle = this.spawnTask(
       'IdleTask',
       idleTask,
       0, // 最低优先级
@@ -300,6 +1618,40 @@ export class Scheduler {
     );
   }
 
+  /**
+   * 设置模拟堆，未配置 totalHeapSize 和 heapRegions 时不限制内存
+   */
+  private setupHeap(): void {
+    const regions = this.config.heapRegions;
+    if (regions) {
+      const totalSize = regions.reduce((sum, size) => sum + size, 0);
+      this.heap = createHeap(this.config.heapScheme ?? 'heap_5', totalSize, regions);
+    } else if (this.config.totalHeapSize !== undefined) {
+      this.heap = createHeap(this.config.heapScheme ?? 'heap_4', this.config.totalHeapSize);
+    }
+  }
+
+  /**
+   * 获取剩余堆空间 (xPortGetFreeHeapSize)，未启用模拟堆时返回 null
+   */
+  getFreeHeapSize(): number | null {
+    return this.heap?.getFreeHeapSize() ?? null;
+  }
+
+  /**
+   * 获取历史最小剩余堆空间 (xPortGetMinimumEverFreeHeapSize)
+   */
+  getMinimumEverFreeHeapSize(): number | null {
+    return this.heap?.getMinimumEverFreeHeapSize() ?? null;
+  }
+
+  /**
+   * 获取堆统计信息和碎片情况 (vPortGetHeapStats)
+   */
+  getHeapStats(): HeapStats | null {
+    return this.heap?.getStats() ?? null;
+  }
+
   /**
    * 获取当前时钟节拍
    */
@@ -307,6 +1659,15 @@ export class Scheduler {
     return this.tickCount;
   }
 
+  /**
+   * 检查可选的正整数配置项
+   */
+  private validatePositiveInteger(name: string, value: number | undefined): void {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new Error(`Invalid ${name}: ${value}`);
+    }
+  }
+
   /**
    * 获取调度器配置
    */
@@ -0,0 +1,263 @@
+import { ancestor, recursive, base } from 'acorn-walk';
+
+/**
+ * 对某个参数的一处引用
+ */
+export interface ParameterReference {
+  node: any;           // Identifier 节点
+  shorthand: boolean;  // 是否是简写属性 { name } 的值，改名时需要展开为 { name: newName }
+}
+
+/**
+ * 参数引用分析结果
+ */
+export interface ParameterReferences {
+  references: ParameterReference[];
+  conflict: boolean;   // 改名后是否会被函数内同名的绑定遮蔽
+}
+
+/**
+ * 名字在声明它的作用域中的绑定
+ * parameter: 函数的第 index 个参数；variable: 变量声明或 for-in/for-of 的循环变量，init 为初始值 (或被遍历的对象) 表达式，
+ * ancestors 为解析 init 中名字所用的路径；other: 函数、类、catch 参数等其他绑定
+ */
+export type Binding =
+  | { kind: 'parameter'; fn: any; index: number }
+  | { kind: 'variable'; init: any; ancestors: any[] }
+  | { kind: 'other' };
+
+/**
+ * 会创建作用域的节点类型
+ */
+const SCOPE_NODES = new Set([
+  'FunctionExpression', 'FunctionDeclaration', 'ArrowFunctionExpression', 'ClassExpression',
+  'BlockStatement', 'StaticBlock', 'ForStatement', 'ForInStatement', 'ForOfStatement', 'CatchClause', 'SwitchStatement'
+]);
+
+/**
+ * 作用域节点声明的名字 (缓存)
+ */
+const declaredNames: WeakMap<any, Set<string>> = new WeakMap();
+
+function scopeNames(node: any): Set<string> {
+  let names = declaredNames.get(node);
+  if (!names) {
+    names = getDeclaredNames(node);
+    declaredNames.set(node, names);
+  }
+  return names;
+}
+
+/**
+ * 由内向外查找声明 name 的作用域节点，ancestors 为从根节点到当前节点的路径
+ * 找不到时返回 undefined (全局或外部变量)
+ */
+export function findDeclaringScope(ancestors: any[], name: string): any {
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const scope = ancestors[i];
+    if (SCOPE_NODES.has(scope.type) && scopeNames(scope).has(name)) {
+      return scope;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 查找 name 在 ancestors 所在位置的绑定，ancestors 为从根节点到当前节点的路径
+ * 找不到声明时返回 undefined (全局或外部变量)
+ */
+export function findBinding(ancestors: any[], name: string): Binding | undefined {
+  const scope = findDeclaringScope(ancestors, name);
+  if (scope === undefined) {
+    return undefined;
+  }
+
+  const outer = ancestors.slice(0, ancestors.lastIndexOf(scope));
+  const binds = (pattern: any) => {
+    const names: Set<string> = new Set();
+    collectPatternNames(pattern, names);
+    return names.has(name);
+  };
+
+  const index = /Function/.test(scope.type) ? scope.params.findIndex(binds) : -1;
+  if (index >= 0) {
+    return { kind: 'parameter', fn: scope, index };
+  }
+  if ((scope.type === 'ForInStatement' || scope.type === 'ForOfStatement') &&
+      scope.left.type === 'VariableDeclaration' && scope.left.declarations.some((declarator: any) => binds(declarator.id))) {
+    return { kind: 'variable', init: scope.right, ancestors: outer };
+  }
+
+  let binding: Binding = { kind: 'other' };
+  let found = false;
+  ancestor(scope, {
+    VariableDeclarator(node: any, _state: any, inner: any[]) {
+      const path = [...outer, ...inner];
+      if (!found && binds(node.id) && findDeclaringScope(path, name) === scope) {
+        binding = { kind: 'variable', init: node.init, ancestors: path };
+        found = true;
+      }
+    }
+  });
+  return binding;
+}
+
+/**
+ * 找出函数体中引用函数参数 name 的标识符
+ *
+ * 按词法作用域解析每个标识符：被内层同名绑定 (变量、参数、函数、类、catch 参数) 遮蔽的不算引用，
+ * 属性名、成员访问的属性和标签也不算。同时检查改名为 newName 后是否会被内层的 newName 绑定捕获。
+ */
+export function findParameterReferences(fn: any, name: string, newName: string): ParameterReferences {
+  const references: ParameterReference[] = [];
+  let conflict = false;
+
+  const visit = (node: any, _state: any, ancestors: any[]) => {
+    if (node.name !== name || node.start < fn.body.start) {
+      return;
+    }
+
+    // 由内向外查找声明该名字的作用域
+    let shadowedByNewName = false;
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      const scope = ancestors[i];
+      if (scope === fn) {
+        references.push({ node, shorthand: findShorthandProperty(ancestors, node) !== undefined });
+        // 函数自身的其他参数和 var 声明也会与新名字冲突
+        conflict = conflict || shadowedByNewName || (scopeNames(fn).has(newName) && newName !== name);
+        return;
+      }
+      if (!SCOPE_NODES.has(scope.type)) {
+        continue;
+      }
+
+      const names = scopeNames(scope);
+      if (names.has(name)) {
+        return;
+      }
+      shadowedByNewName = shadowedByNewName || names.has(newName);
+    }
+  };
+
+  // 声明、赋值目标等模式中的标识符以 VariablePattern 类型访问
+  const visitors: Record<string, typeof visit> = { Identifier: visit, VariablePattern: visit };
+  ancestor(fn, visitors);
+  return { references, conflict };
+}
+
+/**
+ * 查找以 node 为值的简写属性
+ */
+function findShorthandProperty(ancestors: any[], node: any): any {
+  for (let i = ancestors.length - 2; i >= 0; i--) {
+    const parent = ancestors[i];
+    if (parent.type === 'Property') {
+      return parent.shorthand && parent.key.start === node.start ? parent : undefined;
+    }
+    if (parent.type !== 'AssignmentPattern') {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 获取作用域节点中声明的名字
+ */
+function getDeclaredNames(node: any): Set<string> {
+  const names: Set<string> = new Set();
+
+  switch (node.type) {
+    case 'FunctionExpression':
+    case 'FunctionDeclaration':
+    case 'ArrowFunctionExpression':
+      // 函数表达式的名字只在函数内部可见
+      if (node.type === 'FunctionExpression' && node.id) {
+        names.add(node.id.name);
+      }
+      node.params.forEach((param: any) => collectPatternNames(param, names));
+      collectVarNames(node.body, names);
+      break;
+    case 'ClassExpression':
+      if (node.id) {
+        names.add(node.id.name);
+      }
+      break;
+    case 'BlockStatement':
+    case 'StaticBlock':
+      node.body.forEach((statement: any) => collectLexicalNames(statement, names));
+      break;
+    case 'SwitchStatement':
+      node.cases.forEach((switchCase: any) => {
+        switchCase.consequent.forEach((statement: any) => collectLexicalNames(statement, names));
+      });
+      break;
+    case 'ForStatement':
+      if (node.init) {
+        collectLexicalNames(node.init, names);
+      }
+      break;
+    case 'ForInStatement':
+    case 'ForOfStatement':
+      collectLexicalNames(node.left, names);
+      break;
+    case 'CatchClause':
+      if (node.param) {
+        collectPatternNames(node.param, names);
+      }
+      break;
+  }
+
+  return names;
+}
+
+/**
+ * 收集块级声明 (let、const、class 和块内的函数声明)
+ */
+function collectLexicalNames(statement: any, names: Set<string>): void {
+  if (statement.type === 'VariableDeclaration' && statement.kind !== 'var') {
+    statement.declarations.forEach((declarator: any) => collectPatternNames(declarator.id, names));
+  } else if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.id) {
+    names.add(statement.id.name);
+  }
+}
+
+/**
+ * 收集函数体中的 var 声明，不进入嵌套函数
+ */
+function collectVarNames(body: any, names: Set<string>): void {
+  recursive(body, null, {
+    Function() {},
+    VariableDeclaration(node: any, state: any, c: any) {
+      if (node.kind === 'var') {
+        node.declarations.forEach((declarator: any) => collectPatternNames(declarator.id, names));
+      }
+      base.VariableDeclaration!(node, state, c);
+    }
+  });
+}
+
+/**
+ * 收集解构模式中绑定的名字
+ */
+function collectPatternNames(pattern: any, names: Set<string>): void {
+  switch (pattern.type) {
+    case 'Identifier':
+      names.add(pattern.name);
+      break;
+    case 'ObjectPattern':
+      pattern.properties.forEach((property: any) => {
+        collectPatternNames(property.type === 'RestElement' ? property : property.value, names);
+      });
+      break;
+    case 'ArrayPattern':
+      pattern.elements.forEach((element: any) => element && collectPatternNames(element, names));
+      break;
+    case 'RestElement':
+      collectPatternNames(pattern.argument, names);
+      break;
+    case 'AssignmentPattern':
+      collectPatternNames(pattern.left, names);
+      break;
+  }
+}
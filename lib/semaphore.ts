@@ -0,0 +1,81 @@
+import { TaskManager } from './task';
+import { WaitList } from './waitlist';
+import { BlockingRequest, MAX_DELAY, TaskHandle } from './types';
+
+/**
+ * 信号量 (二值信号量 / 计数信号量)
+ *
+ * take 返回 BlockingRequest，任务需要 yield 它：
+ *   const ok = yield sem.take(10); // 获取成功返回 true，超时返回 false
+ */
+export class Semaphore {
+  readonly name: string;
+  readonly maxCount: number;
+  private count: number;
+  private waiters: WaitList;
+
+  constructor(taskManager: TaskManager, maxCount: number, initialCount: number, name: string) {
+    if (!Number.isInteger(maxCount) || maxCount <= 0) {
+      throw new Error(`Invalid semaphore max count: ${maxCount}`);
+    }
+    if (!Number.isInteger(initialCount) || initialCount < 0 || initialCount > maxCount) {
+      throw new Error(`Invalid semaphore initial count: ${initialCount}`);
+    }
+
+    this.name = name;
+    this.maxCount = maxCount;
+    this.count = initialCount;
+    this.waiters = new WaitList(taskManager);
+  }
+
+  /**
+   * 获取信号量
+   */
+  take(timeoutTicks: number = MAX_DELAY): BlockingRequest {
+    return {
+      type: 'blocking',
+      reason: `semaphore:${this.name}`,
+      timeoutTicks,
+      timeoutValue: false,
+      attempt: () => {
+        if (this.count === 0) {
+          return { completed: false };
+        }
+        this.count--;
+        return { completed: true, value: true };
+      },
+      wait: (handle) => this.waiters.add(handle),
+      cancel: (handle) => {
+        this.waiters.remove(handle);
+      }
+    };
+  }
+
+  /**
+   * 释放信号量，并唤醒优先级最高的等待任务
+   * @returns 计数已达上限时返回 false
+   */
+  give(): boolean {
+    if (this.count >= this.maxCount) {
+      return false;
+    }
+
+    this.count++;
+    this.waiters.process();
+    return true;
+  }
+
+  /**
+   * 当前计数值
+   */
+  getCount(): number {
+    return this.count;
+  }
+
+  /**
+   * 获取等待信号量的任务
+   */
+  getWaiters(): TaskHandle[] {
+    return this.waiters.getWaiters();
+  }
+}
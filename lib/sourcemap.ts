@@ -0,0 +1,240 @@
+import { SourceLocation, SourcePosition } from './types';
+
+/**
+ * 原样复制到生成代码中的一段源码，位置为字符偏移
+ */
+export interface MappedSegment {
+  generated: number;
+  original: number;
+  length: number;
+}
+
+/**
+ * Source Map v3
+ */
+export interface RawSourceMap {
+  version: 3;
+  file: string;
+  sources: string[];
+  sourcesContent: string[];
+  names: string[];
+  mappings: string;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Base64 VLQ 编码
+ */
+export function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let result = '';
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) {
+      digit |= 32;
+    }
+    result += BASE64[digit];
+  } while (vlq > 0);
+  return result;
+}
+
+/**
+ * 每一行的起始偏移
+ */
+function lineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+/**
+ * 偏移转换为行列
+ */
+function toPosition(starts: number[], offset: number): SourcePosition {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (starts[middle]! <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return { line: low + 1, column: offset - starts[low]! + 1 };
+}
+
+/**
+ * 从任务函数源码到生成代码的映射
+ *
+ * 由解析器在应用源码编辑时记录原样复制的片段生成；插入的代码 (yield、Generator 包装等) 映射到它之前最近的源码位置。
+ */
+export class SourceMap {
+  private readonly segments: MappedSegment[];
+  private readonly originalLines: number[];
+  private readonly generatedLines: number[];
+
+  constructor(
+    readonly original: string,
+    readonly generated: string,
+    segments: MappedSegment[],
+    readonly file: string = 'task.js',
+    readonly sourceName: string = 'task-source.js'
+  ) {
+    this.segments = segments.filter(segment => segment.length > 0).sort((a, b) => a.generated - b.generated);
+    this.originalLines = lineStarts(original);
+    this.generatedLines = lineStarts(generated);
+  }
+
+  /**
+   * 查找生成代码中的位置对应的原始位置，位于第一段源码之前时返回 null
+   */
+  originalPositionFor(position: SourcePosition): SourcePosition | null {
+    const lineStart = this.generatedLines[position.line - 1];
+    if (lineStart === undefined) {
+      return null;
+    }
+    const offset = lineStart + position.column - 1;
+
+    let found: MappedSegment | undefined;
+    for (const segment of this.segments) {
+      if (segment.generated > offset) break;
+      found = segment;
+    }
+    if (!found) {
+      return null;
+    }
+    const delta = Math.min(offset - found.generated, found.length - 1);
+    return toPosition(this.originalLines, found.original + delta);
+  }
+
+  /**
+   * 生成 Source Map v3，每段源码的起点和其中每一行的行首各有一个映射
+   */
+  toJSON(): RawSourceMap {
+    const lines: string[][] = this.generatedLines.map(() => []);
+    let previousColumn = 0;
+    let previousLine = -1;
+    let previousOriginalLine = 0;
+    let previousOriginalColumn = 0;
+
+    const addMapping = (generatedOffset: number, originalOffset: number) => {
+      const generated = toPosition(this.generatedLines, generatedOffset);
+      const original = toPosition(this.originalLines, originalOffset);
+      if (generated.line - 1 !== previousLine) {
+        previousLine = generated.line - 1;
+        previousColumn = 0;
+      }
+      lines[previousLine]!.push(
+        encodeVLQ(generated.column - 1 - previousColumn) +
+        encodeVLQ(0) +
+        encodeVLQ(original.line - 1 - previousOriginalLine) +
+        encodeVLQ(original.column - 1 - previousOriginalColumn)
+      );
+      previousColumn = generated.column - 1;
+      previousOriginalLine = original.line - 1;
+      previousOriginalColumn = original.column - 1;
+    };
+
+    for (const segment of this.segments) {
+      addMapping(segment.generated, segment.original);
+      for (let i = 0; i < segment.length - 1; i++) {
+        if (this.generated[segment.generated + i] === '\n') {
+          addMapping(segment.generated + i + 1, segment.original + i + 1);
+        }
+      }
+    }
+
+    return {
+      version: 3,
+      file: this.file,
+      sources: [this.sourceName],
+      sourcesContent: [this.original],
+      names: [],
+      mappings: lines.map(line => line.join(',')).join(';')
+    };
+  }
+
+  /**
+   * 内联 Source Map 的注释，附加在生成代码末尾后浏览器开发者工具可以显示原始源码
+   */
+  toComment(): string {
+    const bytes = new TextEncoder().encode(JSON.stringify(this.toJSON()));
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${btoa(binary)}`;
+  }
+
+  /**
+   * 从错误的调用栈中找出生成代码 (以 file 命名) 里最内层的位置，并映射回原始源码
+   */
+  locateError(error: unknown): SourceLocation | null {
+    const stack = error instanceof Error ? error.stack : undefined;
+    if (!stack) {
+      return null;
+    }
+
+    const escaped = this.file.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const match = new RegExp(`${escaped}:(\\d+):(\\d+)`).exec(stack);
+    if (!match) {
+      return null;
+    }
+
+    const position = this.originalPositionFor({ line: Number(match[1]), column: Number(match[2]) });
+    if (!position) {
+      return null;
+    }
+    return { ...position, source: this.original, frame: codeFrame(this.original, position) };
+  }
+}
+
+/**
+ * 生成代码帧：出错行前后各 context 行，并在出错列下方标记 ^
+ */
+export function codeFrame(source: string, position: SourcePosition, context: number = 2): string {
+  const lines = source.split('\n');
+  const first = Math.max(position.line - context, 1);
+  const last = Math.min(position.line + context, lines.length);
+  const width = String(last).length;
+
+  const frame: string[] = [];
+  for (let line = first; line <= last; line++) {
+    const marker = line === position.line ? '>' : ' ';
+    const text = lines[line - 1]!.replace(/\t/g, '  ');
+    frame.push(`${marker} ${String(line).padStart(width)} | ${text}`.trimEnd());
+    if (line === position.line) {
+      const indent = lines[line - 1]!.slice(0, position.column - 1).replace(/[^\t]/g, ' ').replace(/\t/g, '  ');
+      frame.push(`  ${' '.repeat(width)} | ${indent}^`);
+    }
+  }
+  return frame.join('\n');
+}
+
+/**
+ * 任务错误的原始位置，由转换后的任务在错误抛出时记录
+ */
+const errorLocations: WeakMap<object, SourceLocation> = new WeakMap();
+
+/**
+ * 记录错误在任务源码中的位置，同一个错误只记录最内层的任务
+ */
+export function setSourceLocation(error: unknown, location: SourceLocation): void {
+  if (typeof error === 'object' && error !== null && !errorLocations.has(error)) {
+    errorLocations.set(error, location);
+  }
+}
+
+/**
+ * 获取错误在任务源码中的位置，没有记录时返回 undefined
+ */
+export function getSourceLocation(error: unknown): SourceLocation | undefined {
+  return typeof error === 'object' && error !== null ? errorLocations.get(error) : undefined;
+}
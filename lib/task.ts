@@ -1,4 +1,21 @@
-import { TaskControlBlock, TaskState, TaskHandle, TaskFunction, TaskPriority } from './types';
+import { TaskControlBlock, TaskState, TaskStateType, TaskHandle, TaskFunction, TaskPriority, NotifyState, NotifyAction, BlockingRequest, MAX_DELAY, TIMEOUT, SchedulingPolicy, StackOverflowCheck } from './types';
+import { FixedPriorityPolicy } from './policy';
+import { KernelEventBus } from './events';
+
+/**
+ * 栈填充字节，未被使用过的栈空间保持该值 (tskSTACK_FILL_BYTE)
+ */
+const STACK_FILL_BYTE = 0xa5;
+
+/**
+ * 任务初始上下文占用的栈空间 (字节)
+ */
+const CONTEXT_FRAME_SIZE = 64;
+
+/**
+ * 填充模式检测时检查的栈底字节数
+ */
+const STACK_GUARD_SIZE = 16;
 
 /**
  * 任务管理类
@@ -12,6 +29,15 @@ export class TaskManager {
   private suspendedList: TaskHandle[] = [];
   private lastScheduledIndex: number = -1;
 
+  /**
+   * @param onWake 任务在内核对象上被唤醒后调用，调度器据此检查是否需要抢占
+   */
+  constructor(
+    private policy: SchedulingPolicy = new FixedPriorityPolicy(),
+    private events: KernelEventBus = new KernelEventBus(),
+    private onWake: (handle: TaskHandle) => void = () => {}
+  ) {}
+
   /**
    * 创建新任务
    */
@@ -24,6 +50,7 @@ export class TaskManager {
   ): TaskHandle {
     const handle = this.nextHandle++;
     const stack = new ArrayBuffer(stackSize);
+    new Uint8Array(stack).fill(STACK_FILL_BYTE);
     
     // 检查是否为 Generator 函数
     const isGenerator = taskFunction.constructor.name === 'GeneratorFunction' || 
@@ -34,9 +61,9 @@ export class TaskManager {
     
     if (isGenerator) {
       try {
-        generator = taskFunction() as Generator<any, any, any>;
+        generator = taskFunction(params) as Generator<any, any, any>;
       } catch (error) {
-        console.error('创建 Generator 时出错:', error);
+        this.events.log('error', '创建 Generator 时出错:', error);
         // 如果创建 Generator 失败，将其视为普通函数
       }
     }
@@ -48,7 +75,9 @@ export class TaskManager {
       params,
       state: TaskState.READY,
       priority,
-      stackPointer: 0,
+      basePriority: priority,
+      mutexesHeld: 0,
+      stackPointer: stackSize,
       stackSize,
       stack,
       delayTicks: 0,
@@ -57,11 +86,29 @@ export class TaskManager {
       lastRunTime: 0,
       runCount: 0,
       generator: generator,
-      isGenerator
+      isGenerator,
+      eventValue: undefined,
+      pendingRequest: null,
+      notifyValue: 0,
+      notifyState: NotifyState.NOT_WAITING,
+      timing: null,
+      stats: {
+        runTime: 0,
+        runSteps: 0,
+        stateTicks: {
+          [TaskState.READY]: 0,
+          [TaskState.RUNNING]: 0,
+          [TaskState.BLOCKED]: 0,
+          [TaskState.SUSPENDED]: 0
+        }
+      }
     };
 
     this.tasks.set(handle, tcb);
     this.addToReadyList(handle);
+
+    // 压入初始上下文
+    this.stackAlloc(handle, CONTEXT_FRAME_SIZE);
     
     return handle;
   }
@@ -75,6 +122,9 @@ export class TaskManager {
       return false;
     }
 
+    // 离开内核对象的等待列表
+    this.cancelPendingRequest(task);
+
     // 从所有列表中移除
     this.removeFromReadyList(handle);
     this.removeFromBlockedList(handle);
@@ -98,12 +148,17 @@ export class TaskManager {
       return false;
     }
 
+    // 挂起会中止正在进行的等待，恢复后按超时处理
+    this.cancelPendingRequest(task);
+    task.delayTicks = 0;
+
     // 从当前状态列表中移除
     this.removeFromReadyList(handle);
     this.removeFromBlockedList(handle);
 
     // 更新状态
-    task.state = TaskState.SUSPENDED;
+    this.setState(task, TaskState.SUSPENDED, 'suspend');
+    task.blockedOn = null;
     this.suspendedList.push(handle);
 
     return true;
@@ -122,7 +177,7 @@ export class TaskManager {
     this.removeFromSuspendedList(handle);
 
     // 恢复到就绪状态
-    task.state = TaskState.READY;
+    this.setState(task, TaskState.READY, 'resume');
     this.addToReadyList(handle);
 
     return true;
@@ -141,17 +196,23 @@ export class TaskManager {
     this.removeFromReadyList(handle);
 
     // 更新状态
-    task.state = TaskState.BLOCKED;
+    this.setState(task, TaskState.BLOCKED, reason);
     task.blockedOn = reason;
     this.blockedList.push(handle);
 
+    const request = task.pendingRequest;
+    if (request) {
+      this.events.emit('ipc.block', { handle, name: task.name, object: reason, timeoutTicks: request.timeoutTicks });
+    }
+
     return true;
   }
 
   /**
    * 解除任务阻塞
+   * @param reason 解除原因，记录在 stateChanged 事件中
    */
-  unblockTask(handle: TaskHandle): boolean {
+  unblockTask(handle: TaskHandle, reason: string = 'unblock'): boolean {
     const task = this.tasks.get(handle);
     if (!task || task.state !== TaskState.BLOCKED) {
       return false;
@@ -161,13 +222,279 @@ export class TaskManager {
     this.removeFromBlockedList(handle);
 
     // 恢复到就绪状态
-    task.state = TaskState.READY;
+    this.setState(task, TaskState.READY, reason);
     task.blockedOn = null;
     this.addToReadyList(handle);
 
     return true;
   }
 
+  /**
+   * 唤醒等待内核对象的任务，并把结果传回任务
+   */
+  wakeTask(handle: TaskHandle, value: any): boolean {
+    const task = this.tasks.get(handle);
+    if (!task || task.state !== TaskState.BLOCKED) {
+      return false;
+    }
+
+    task.pendingRequest = null;
+    task.delayTicks = 0;
+    task.eventValue = value;
+    this.emitIPC('ipc.wake', task);
+    const unblocked = this.unblockTask(handle, 'wake');
+    if (unblocked) {
+      this.onWake(handle);
+    }
+    return unblocked;
+  }
+
+  /**
+   * 等待超时，离开等待列表并恢复就绪
+   */
+  timeoutTask(handle: TaskHandle): boolean {
+    const task = this.tasks.get(handle);
+    if (!task || task.state !== TaskState.BLOCKED) {
+      return false;
+    }
+
+    if (task.pendingRequest) {
+      this.emitIPC('ipc.timeout', task);
+    }
+    this.cancelPendingRequest(task);
+    task.delayTicks = 0;
+    return this.unblockTask(handle, 'timeout');
+  }
+
+  /**
+   * 提前结束任务的等待 (xTaskAbortDelay)，任务收到超时结果
+   * 用于内核自身唤醒任务 (例如定时器到期时唤醒定时器服务任务)，不是真正的等待超时，不发出 ipc.timeout 事件
+   */
+  abortWait(handle: TaskHandle): boolean {
+    const task = this.tasks.get(handle);
+    if (!task || task.state !== TaskState.BLOCKED) {
+      return false;
+    }
+
+    this.cancelPendingRequest(task);
+    task.delayTicks = 0;
+    return this.unblockTask(handle, 'abort');
+  }
+
+  /**
+   * 取消任务正在等待的阻塞请求，任务将收到超时结果
+   */
+  private cancelPendingRequest(task: TaskControlBlock): void {
+    const request = task.pendingRequest;
+    if (!request) {
+      return;
+    }
+
+    task.pendingRequest = null;
+    task.eventValue = request.timeoutValue;
+    request.cancel(task.handle);
+  }
+
+  /**
+   * 向任务发送通知，正在等待通知的任务会被直接唤醒
+   * @returns noOverwrite 且已有未处理的通知时返回 false
+   */
+  notify(handle: TaskHandle, value: number, action: NotifyAction): boolean {
+    const task = this.tasks.get(handle);
+    if (!task) {
+      return false;
+    }
+
+    const previousState = task.notifyState;
+    if (action === 'noOverwrite' && previousState === NotifyState.PENDING) {
+      return false;
+    }
+
+    switch (action) {
+      case 'setBits':
+        task.notifyValue |= value;
+        break;
+      case 'increment':
+        task.notifyValue++;
+        break;
+      case 'overwrite':
+      case 'noOverwrite':
+        task.notifyValue = value;
+        break;
+      case 'noAction':
+        break;
+    }
+    task.notifyState = NotifyState.PENDING;
+
+    // 任务正阻塞等待通知时直接完成它的请求
+    if (previousState === NotifyState.WAITING && task.pendingRequest) {
+      const result = task.pendingRequest.attempt(handle);
+      if (result.completed) {
+        this.wakeTask(handle, result.value);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 以计数信号量的方式等待通知 (ulTaskNotifyTake)
+   * 返回等待结束时的通知值，超时返回 0
+   * @param clearOnExit true: 退出时清零, false: 退出时减一
+   */
+  notifyTake(clearOnExit: boolean = true, timeoutTicks: number = MAX_DELAY): BlockingRequest {
+    return this.createNotifyRequest(timeoutTicks, 0, (task) => {
+      if (task.notifyValue === 0) {
+        return null;
+      }
+      const value = task.notifyValue;
+      task.notifyValue = clearOnExit ? 0 : value - 1;
+      return value;
+    });
+  }
+
+  /**
+   * 等待通知 (xTaskNotifyWait)
+   * 返回收到的通知值，超时返回 TIMEOUT
+   */
+  notifyWait(
+    bitsToClearOnEntry: number = 0,
+    bitsToClearOnExit: number = 0,
+    timeoutTicks: number = MAX_DELAY
+  ): BlockingRequest {
+    let entered = false;
+    return this.createNotifyRequest(timeoutTicks, TIMEOUT, (task) => {
+      if (!entered) {
+        entered = true;
+        // 没有未处理的通知时，进入等待前先清除指定位
+        if (task.notifyState !== NotifyState.PENDING) {
+          task.notifyValue &= ~bitsToClearOnEntry;
+        }
+      }
+      if (task.notifyState !== NotifyState.PENDING) {
+        return null;
+      }
+      const value = task.notifyValue;
+      task.notifyValue &= ~bitsToClearOnExit;
+      return value;
+    });
+  }
+
+  /**
+   * 创建等待通知的请求，不经过任何等待列表，由通知方直接唤醒
+   * @param tryReceive 尝试处理通知，成功时返回传回任务的值，否则返回 null
+   */
+  private createNotifyRequest(
+    timeoutTicks: number,
+    timeoutValue: any,
+    tryReceive: (task: TaskControlBlock) => any
+  ): BlockingRequest {
+    return {
+      type: 'blocking',
+      reason: 'notification',
+      timeoutTicks,
+      timeoutValue,
+      attempt: (handle) => {
+        const task = this.tasks.get(handle);
+        const value = task ? tryReceive(task) : null;
+        if (!task || value === null) {
+          return { completed: false };
+        }
+        task.notifyState = NotifyState.NOT_WAITING;
+        return { completed: true, value };
+      },
+      wait: (handle) => {
+        const task = this.tasks.get(handle);
+        if (task) {
+          task.notifyState = NotifyState.WAITING;
+        }
+      },
+      cancel: (handle) => {
+        const task = this.tasks.get(handle);
+        if (task) {
+          task.notifyState = NotifyState.NOT_WAITING;
+        }
+      }
+    };
+  }
+
+  /**
+   * 在任务栈上分配空间
+   * @returns 分配后栈指针越界时返回 false
+   */
+  stackAlloc(handle: TaskHandle, bytes: number): boolean {
+    this.validateStackBytes(bytes);
+    const task = this.tasks.get(handle);
+    if (!task) {
+      return false;
+    }
+
+    const top = task.stackPointer;
+    task.stackPointer -= bytes;
+    // 写入栈缓冲区，越界的部分丢失
+    new Uint8Array(task.stack).fill(0, Math.max(0, task.stackPointer), Math.max(0, top));
+    return task.stackPointer >= 0;
+  }
+
+  /**
+   * 释放任务栈上的空间 (已写入的数据保留，高水位线不会回升)
+   */
+  stackFree(handle: TaskHandle, bytes: number): boolean {
+    this.validateStackBytes(bytes);
+    const task = this.tasks.get(handle);
+    if (!task) {
+      return false;
+    }
+
+    task.stackPointer = Math.min(task.stackSize, task.stackPointer + bytes);
+    return true;
+  }
+
+  /**
+   * 获取任务栈的高水位线：从未被使用过的最小剩余栈空间 (uxTaskGetStackHighWaterMark)
+   */
+  getStackHighWaterMark(handle: TaskHandle): number | null {
+    const task = this.tasks.get(handle);
+    if (!task) {
+      return null;
+    }
+
+    const bytes = new Uint8Array(task.stack);
+    let free = 0;
+    while (free < bytes.length && bytes[free] === STACK_FILL_BYTE) {
+      free++;
+    }
+    return free;
+  }
+
+  /**
+   * 检查任务栈是否溢出
+   */
+  isStackOverflowed(handle: TaskHandle, mode: StackOverflowCheck): boolean {
+    const task = this.tasks.get(handle);
+    if (!task || mode === 'none') {
+      return false;
+    }
+
+    if (task.stackPointer < 0) {
+      return true;
+    }
+    if (mode === 'pattern') {
+      const guard = new Uint8Array(task.stack, 0, Math.min(STACK_GUARD_SIZE, task.stackSize));
+      return guard.some(byte => byte !== STACK_FILL_BYTE);
+    }
+    return false;
+  }
+
+  /**
+   * 检查栈操作的字节数
+   */
+  private validateStackBytes(bytes: number): void {
+    if (!Number.isInteger(bytes) || bytes < 0) {
+      throw new Error(`Invalid stack bytes: ${bytes}`);
+    }
+  }
+
   /**
    * 设置任务优先级
    */
@@ -177,17 +504,60 @@ export class TaskManager {
       return false;
     }
 
-    task.priority = priority;
-    
-    // 如果任务在就绪列表中，需要重新排序
-    if (task.state === TaskState.READY) {
-      this.removeFromReadyList(handle);
-      this.addToReadyList(handle);
+    // 处于优先级继承期间时只修改基础优先级，除非新优先级更高
+    const isInherited = task.priority !== task.basePriority;
+    task.basePriority = priority;
+    if (!isInherited || priority > task.priority) {
+      this.applyPriority(task, priority);
+    }
+
+    return true;
+  }
+
+  /**
+   * 优先级继承：临时提升任务优先级
+   */
+  inheritPriority(handle: TaskHandle, priority: TaskPriority): boolean {
+    const task = this.tasks.get(handle);
+    if (!task || priority <= task.priority) {
+      return false;
+    }
+
+    this.applyPriority(task, priority);
+    return true;
+  }
+
+  /**
+   * 撤销优先级继承，降回指定优先级（不低于基础优先级）
+   */
+  disinheritPriority(handle: TaskHandle, priority?: TaskPriority): boolean {
+    const task = this.tasks.get(handle);
+    if (!task) {
+      return false;
+    }
+
+    const targetPriority = Math.max(task.basePriority, priority ?? task.basePriority);
+    if (targetPriority === task.priority) {
+      return false;
     }
 
+    this.applyPriority(task, targetPriority);
     return true;
   }
 
+  /**
+   * 修改任务的有效优先级
+   */
+  private applyPriority(task: TaskControlBlock, priority: TaskPriority): void {
+    task.priority = priority;
+
+    // 如果任务在就绪列表中，需要重新排序
+    if (this.readyList.includes(task.handle)) {
+      this.removeFromReadyList(task.handle);
+      this.addToReadyList(task.handle);
+    }
+  }
+
   /**
    * 获取任务信息
    */
@@ -292,21 +662,23 @@ export class TaskManager {
       return null;
     }
 
-    // 按优先级分组
-    const priorityGroups = new Map<number, TaskHandle[]>();
+    // 找出调度策略下最先运行的一组任务
+    let highestPriorityTasks: TaskHandle[] = [];
+    let best: TaskControlBlock | null = null;
     for (const handle of this.readyList) {
       const task = this.tasks.get(handle);
-      if (task) {
-        if (!priorityGroups.has(task.priority)) {
-          priorityGroups.set(task.priority, []);
-        }
-        priorityGroups.get(task.priority)!.push(handle);
+      if (!task) {
+        continue;
       }
-    }
 
-    // 找到最高优先级
-    const maxPriority = Math.max(...priorityGroups.keys());
-    const highestPriorityTasks = priorityGroups.get(maxPriority)!;
+      const order = best ? this.policy.compare(task, best) : -1;
+      if (order < 0) {
+        best = task;
+        highestPriorityTasks = [handle];
+      } else if (order === 0) {
+        highestPriorityTasks.push(handle);
+      }
+    }
 
     // 如果只有一个任务，直接返回
     if (highestPriorityTasks.length === 1) {
@@ -326,6 +698,23 @@ export class TaskManager {
     return highestPriorityTasks[this.lastScheduledIndex] || null;
   }
 
+  /**
+   * 是否有按调度策略应当先于指定任务运行的就绪任务
+   */
+  hasHigherPriorityReadyTask(task: TaskControlBlock): boolean {
+    return this.readyList.some(handle => {
+      const other = this.tasks.get(handle);
+      return other !== undefined && other.state === TaskState.READY && this.policy.compare(other, task) < 0;
+    });
+  }
+
+  /**
+   * 获取调度策略
+   */
+  getPolicy(): SchedulingPolicy {
+    return this.policy;
+  }
+
   /**
    * 设置当前运行任务
    */
@@ -336,7 +725,7 @@ export class TaskManager {
       const task = this.tasks.get(handle);
       if (task && task.state !== TaskState.BLOCKED) {
         // 只有非阻塞的任务才设置为运行状态
-        task.state = TaskState.RUNNING;
+        this.setState(task, TaskState.RUNNING, 'schedule');
         task.lastRunTime = Date.now();
         task.runCount++;
       }
@@ -345,18 +734,36 @@ export class TaskManager {
 
   /**
    * 将当前任务放回就绪列表
+   * @param reason 让出原因，记录在 stateChanged 事件中
    */
-  yieldCurrentTask(): void {
+  yieldCurrentTask(reason: string = 'yield'): void {
     if (this.currentTask) {
       const task = this.tasks.get(this.currentTask);
       if (task && task.state === TaskState.RUNNING) {
-        task.state = TaskState.READY;
-        // 检查任务是否已经在就绪列表中，避免重复添加
-        if (!this.readyList.includes(this.currentTask)) {
-          this.addToReadyList(this.currentTask);
-        }
+        this.setState(task, TaskState.READY, reason);
+        // 移到同优先级任务的末尾
+        this.removeFromReadyList(this.currentTask);
+        this.addToReadyList(this.currentTask);
         this.currentTask = null;
       }
     }
   }
+
+  /**
+   * 更新任务状态并发出 stateChanged 事件
+   */
+  private setState(task: TaskControlBlock, state: TaskStateType, reason: string): void {
+    const from = task.state;
+    task.state = state;
+    if (from !== state) {
+      this.events.emit('stateChanged', { handle: task.handle, name: task.name, from, to: state, reason });
+    }
+  }
+
+  /**
+   * 发出任务在内核对象上被唤醒或超时的事件
+   */
+  private emitIPC(event: 'ipc.wake' | 'ipc.timeout', task: TaskControlBlock): void {
+    this.events.emit(event, { handle: task.handle, name: task.name, object: task.blockedOn ?? '' });
+  }
 }
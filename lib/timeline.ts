@@ -0,0 +1,102 @@
+import { TaskHandle, TaskState, TaskStateType } from './types';
+import { TraceRecord } from './trace';
+
+/**
+ * 任务在一段时间内的状态
+ * 时间以节拍为单位，一个节拍内的任务步按 stepsPerTick 等分
+ */
+export interface TimelineSegment {
+  state: TaskStateType;
+  start: number;
+  end: number;
+  reason: string | null;   // 进入该状态的原因，阻塞状态为阻塞原因 (blockedOn)
+}
+
+/**
+ * 一个任务的时间线
+ */
+export interface TimelineRow {
+  handle: TaskHandle;
+  name: string;
+  segments: TimelineSegment[];
+  deleted: boolean;
+}
+
+export interface TimelineOptions {
+  stepsPerTick?: number;   // 每个节拍的任务步数，默认 1
+  end?: number;            // 未结束的状态延续到的时间，默认为最后一条记录的时间
+}
+
+/**
+ * 根据追踪记录中的状态变化生成每个任务的状态时间线 (甘特图)
+ *
+ * 任务在自己的一步中阻塞、让出或结束时，运行状态持续到这一步结束；被抢占时在切换处结束。
+ * 开始记录前已存在的任务从第一条记录的时间开始显示。
+ */
+export function buildTimeline(records: TraceRecord[], options: TimelineOptions = {}): TimelineRow[] {
+  const stepDuration = 1 / (options.stepsPerTick ?? 1);
+  const rows: Map<TaskHandle, TimelineRow> = new Map();
+  const open: Map<TaskHandle, TimelineSegment> = new Map();  // 尚未结束的状态
+  const first = records[0];
+  const startTime = first ? first.tick + first.step * stepDuration : 0;
+  let lastTime = startTime;
+
+  const getRow = (handle: TaskHandle, name: string): TimelineRow => {
+    let row = rows.get(handle);
+    if (!row) {
+      row = { handle, name, segments: [], deleted: false };
+      rows.set(handle, row);
+    }
+    return row;
+  };
+  const close = (row: TimelineRow, time: number) => {
+    const segment = open.get(row.handle);
+    if (segment) {
+      segment.end = Math.max(time, segment.start);
+      if (segment.end > segment.start) {
+        row.segments.push(segment);
+      }
+      open.delete(row.handle);
+    }
+  };
+
+  for (const record of records) {
+    const time = record.tick + record.step * stepDuration;
+    lastTime = Math.max(lastTime, time);
+
+    switch (record.event) {
+      case 'taskCreated': {
+        const row = getRow(record.data.handle, record.data.name);
+        open.set(row.handle, { state: TaskState.READY, start: time, end: time, reason: null });
+        break;
+      }
+      case 'stateChanged': {
+        const { handle, name, from, to, reason } = record.data;
+        const row = getRow(handle, name);
+        if (!open.has(handle)) {
+          open.set(handle, { state: from, start: startTime, end: startTime, reason: null });
+        }
+
+        const at = from === TaskState.RUNNING && reason !== 'preempt' ? time + stepDuration : time;
+        close(row, at);
+        open.set(handle, { state: to, start: at, end: at, reason: to === TaskState.RUNNING ? null : reason });
+        lastTime = Math.max(lastTime, at);
+        break;
+      }
+      case 'taskDeleted': {
+        const row = getRow(record.data.handle, record.data.name);
+        const segment = open.get(row.handle);
+        close(row, segment?.state === TaskState.RUNNING ? time + stepDuration : time);
+        row.deleted = true;
+        break;
+      }
+    }
+  }
+
+  const end = options.end ?? lastTime;
+  for (const row of rows.values()) {
+    close(row, end);
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.handle - b.handle);
+}
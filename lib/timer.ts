@@ -0,0 +1,276 @@
+import { TaskManager } from './task';
+import { Queue } from './queue';
+import { KernelEventBus } from './events';
+import { TaskHandle, TaskState, Timer, TIMEOUT } from './types';
+
+/**
+ * 定时器命令 - 由任务或外部代码发送到定时器服务任务
+ */
+export interface TimerCommand {
+  type: 'start' | 'stop' | 'reset' | 'changePeriod' | 'delete';
+  timer: Timer;
+  tick: number;       // 发出命令时的节拍，用于补偿服务任务处理命令的延迟
+  period?: number;    // changePeriod 的新周期
+}
+
+/**
+ * 软件定时器服务 (类似 FreeRTOS 的定时器服务任务)
+ *
+ * 定时器的启动、停止等操作通过命令队列发送给服务任务执行，
+ * Scheduler.tick() 推进定时器计数，到期的回调在服务任务的上下文中运行。
+ */
+export class TimerService {
+  private timers: Map<number, Timer> = new Map();
+  private nextId: number = 1;
+  private expiredTimers: Array<{ timer: Timer; tick: number }> = [];
+  private daemonHandle: TaskHandle | null = null;
+
+  constructor(
+    private taskManager: TaskManager,
+    private commandQueue: Queue<TimerCommand>,
+    private getTickCount: () => number,
+    private events: KernelEventBus = new KernelEventBus()
+  ) {}
+
+  /**
+   * 创建定时器 (创建后处于停止状态)
+   */
+  createTimer(name: string, period: number, autoReload: boolean, callback: (timer: Timer) => void): Timer {
+    this.validatePeriod(period);
+
+    const timer: Timer = {
+      id: this.nextId++,
+      name,
+      period,
+      callback,
+      isActive: false,
+      isAutoReload: autoReload,
+      remainingTicks: 0
+    };
+
+    this.timers.set(timer.id, timer);
+    return timer;
+  }
+
+  /**
+   * 启动定时器
+   * @returns 命令队列已满时返回 false
+   */
+  start(timer: Timer): boolean {
+    return this.sendCommand({ type: 'start', timer, tick: this.getTickCount() });
+  }
+
+  /**
+   * 停止定时器
+   */
+  stop(timer: Timer): boolean {
+    return this.sendCommand({ type: 'stop', timer, tick: this.getTickCount() });
+  }
+
+  /**
+   * 重置定时器 (重新开始计时，未启动的定时器会被启动)
+   */
+  reset(timer: Timer): boolean {
+    return this.sendCommand({ type: 'reset', timer, tick: this.getTickCount() });
+  }
+
+  /**
+   * 修改定时器周期 (未启动的定时器会被启动)
+   */
+  changePeriod(timer: Timer, period: number): boolean {
+    this.validatePeriod(period);
+    return this.sendCommand({ type: 'changePeriod', timer, tick: this.getTickCount(), period });
+  }
+
+  /**
+   * 删除定时器
+   */
+  delete(timer: Timer): boolean {
+    return this.sendCommand({ type: 'delete', timer, tick: this.getTickCount() });
+  }
+
+  /**
+   * 获取所有定时器
+   */
+  getTimers(): Timer[] {
+    return Array.from(this.timers.values());
+  }
+
+  /**
+   * 是否有正在计时或等待执行回调的定时器
+   */
+  hasPendingTimers(): boolean {
+    return this.expiredTimers.length > 0 || this.getTimers().some(timer => timer.isActive);
+  }
+
+  /**
+   * 距离最近一个定时器到期的节拍数，没有运行中的定时器时返回 Infinity
+   */
+  getTicksToNextExpiry(): number {
+    return Math.min(Infinity, ...this.getTimers().filter(timer => timer.isActive).map(timer => timer.remainingTicks));
+  }
+
+  /**
+   * 跳过若干个不会有定时器到期的节拍 (tickless 睡眠)
+   */
+  skipTicks(ticks: number): void {
+    for (const timer of this.getTimers()) {
+      if (timer.isActive) {
+        timer.remainingTicks -= ticks;
+      }
+    }
+  }
+
+  /**
+   * 绑定定时器服务任务
+   */
+  setDaemonTask(handle: TaskHandle): void {
+    this.daemonHandle = handle;
+  }
+
+  /**
+   * 定时器服务任务的 Generator 函数
+   */
+  createDaemon(): () => Generator<any, void, any> {
+    const service = this;
+    return function* () {
+      while (true) {
+        // 没有命令时一直阻塞，定时器到期时由 tick() 提前唤醒
+        let command = yield service.commandQueue.receive();
+        // 一次处理完队列中积压的命令
+        while (command !== TIMEOUT) {
+          service.processCommand(command);
+          command = service.commandQueue.tryReceive();
+        }
+        service.runExpiredCallbacks();
+      }
+    };
+  }
+
+  /**
+   * 时钟节拍处理 (由 Scheduler.tick() 调用)
+   */
+  tick(): void {
+    for (const timer of this.timers.values()) {
+      if (!timer.isActive) {
+        continue;
+      }
+
+      timer.remainingTicks--;
+      if (timer.remainingTicks <= 0) {
+        this.expire(timer);
+      }
+    }
+
+    if (this.expiredTimers.length > 0) {
+      this.wakeDaemon();
+    }
+  }
+
+  /**
+   * 发送命令到命令队列
+   */
+  private sendCommand(command: TimerCommand): boolean {
+    if (!this.timers.has(command.timer.id)) {
+      return false;
+    }
+    return this.commandQueue.trySend(command);
+  }
+
+  /**
+   * 在服务任务中执行命令
+   */
+  private processCommand(command: TimerCommand): void {
+    const { timer } = command;
+    if (!this.timers.has(timer.id)) {
+      return;
+    }
+
+    // 命令发出之后才发生的到期已被本命令取代
+    this.expiredTimers = this.expiredTimers.filter(
+      expired => expired.timer !== timer || expired.tick <= command.tick
+    );
+
+    switch (command.type) {
+      case 'changePeriod':
+        timer.period = command.period ?? timer.period;
+        this.activate(timer, command.tick);
+        break;
+      case 'start':
+      case 'reset':
+        this.activate(timer, command.tick);
+        break;
+      case 'stop':
+        timer.isActive = false;
+        break;
+      case 'delete':
+        timer.isActive = false;
+        this.timers.delete(timer.id);
+        this.expiredTimers = this.expiredTimers.filter(expired => expired.timer !== timer);
+        break;
+    }
+  }
+
+  /**
+   * 启动定时器，从发出命令的节拍开始计时
+   */
+  private activate(timer: Timer, commandTick: number): void {
+    timer.isActive = true;
+    timer.remainingTicks = timer.period - (this.getTickCount() - commandTick);
+    if (timer.remainingTicks <= 0) {
+      this.expire(timer);
+    }
+  }
+
+  /**
+   * 定时器到期，自动重载定时器进入下一个周期
+   */
+  private expire(timer: Timer): void {
+    if (timer.isAutoReload) {
+      timer.remainingTicks += timer.period;
+    } else {
+      timer.isActive = false;
+      timer.remainingTicks = 0;
+    }
+    this.expiredTimers.push({ timer, tick: this.getTickCount() });
+  }
+
+  /**
+   * 在服务任务的上下文中执行到期定时器的回调
+   */
+  private runExpiredCallbacks(): void {
+    const expired = this.expiredTimers;
+    this.expiredTimers = [];
+
+    for (const { timer } of expired) {
+      try {
+        timer.callback(timer);
+      } catch (error) {
+        this.events.log('error', `定时器 ${timer.name} 回调执行出错:`, error);
+      }
+    }
+  }
+
+  /**
+   * 唤醒阻塞在命令队列上的服务任务
+   */
+  private wakeDaemon(): void {
+    if (this.daemonHandle === null) {
+      return;
+    }
+
+    const daemon = this.taskManager.getTaskInfo(this.daemonHandle);
+    if (daemon && daemon.state === TaskState.BLOCKED) {
+      this.taskManager.abortWait(this.daemonHandle);
+    }
+  }
+
+  /**
+   * 检查定时器周期
+   */
+  private validatePeriod(period: number): void {
+    if (!Number.isInteger(period) || period <= 0) {
+      throw new Error(`Invalid timer period: ${period}`);
+    }
+  }
+}
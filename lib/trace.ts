@@ -0,0 +1,304 @@
+import { KernelEventBus } from './events';
+import { KernelEvents, TaskHandle, TaskState } from './types';
+
+/**
+ * 记录的事件类型
+ */
+export type TraceEventName =
+  | 'taskCreated'
+  | 'taskDeleted'
+  | 'taskCompleted'
+  | 'taskError'
+  | 'stateChanged'
+  | 'contextSwitch'
+  | 'ipc.block'
+  | 'ipc.wake'
+  | 'ipc.timeout'
+  | 'isrEnter'
+  | 'isrExit';
+
+const TRACED_EVENTS: TraceEventName[] = [
+  'taskCreated',
+  'taskDeleted',
+  'taskCompleted',
+  'taskError',
+  'stateChanged',
+  'contextSwitch',
+  'ipc.block',
+  'ipc.wake',
+  'ipc.timeout',
+  'isrEnter',
+  'isrExit'
+];
+
+/**
+ * 追踪时间戳
+ */
+export interface TraceTimestamp {
+  tick: number;   // 时钟节拍
+  step: number;   // 节拍内的任务步序号 (0 ~ stepsPerTick-1)
+}
+
+/**
+ * 追踪记录
+ */
+export type TraceRecord = {
+  [K in TraceEventName]: TraceTimestamp & { event: K; data: KernelEvents[K] };
+}[TraceEventName];
+
+/**
+ * Chrome Trace Event 格式的事件 (chrome://tracing、Perfetto)
+ */
+export interface ChromeTraceEvent {
+  name: string;
+  cat?: string;
+  ph: 'B' | 'E' | 'i' | 'M';   // 开始、结束、瞬时、元数据
+  ts: number;                   // 微秒
+  pid: number;
+  tid: number;
+  s?: 't' | 'p' | 'g';          // 瞬时事件的范围
+  args?: Record<string, unknown>;
+}
+
+/**
+ * Chrome Trace JSON 文件
+ */
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: 'ms' | 'ns';
+  otherData: Record<string, unknown>;
+}
+
+export interface TraceRecorderOptions {
+  capacity?: number;        // 环形缓冲区容量，默认 10000 条记录
+  tickRate?: number;        // 时钟节拍率 (Hz)，用于换算导出的时间，默认 1000
+  stepsPerTick?: number;    // 每个节拍的任务步数，默认 1
+}
+
+/**
+ * 导出中的进程 ID
+ */
+const TASKS_PID = 1;
+const INTERRUPTS_PID = 2;
+
+/**
+ * 默认的环形缓冲区容量
+ */
+export const DEFAULT_TRACE_CAPACITY = 10000;
+
+/**
+ * 执行追踪记录器 (类似 Tracealyzer / SystemView)
+ *
+ * 订阅内核事件，把上下文切换、状态变化、IPC 和中断按节拍和任务步记录在有界的环形缓冲区中，
+ * 可以导出为 Chrome Trace Event JSON，在 chrome://tracing 或 Perfetto 中查看。
+ */
+export class TraceRecorder {
+  private buffer: TraceRecord[] = [];
+  private head: number = 0;       // 缓冲区满后最旧记录的位置
+  private dropped: number = 0;
+  private unsubscribers: Array<() => void> = [];
+  private readonly capacity: number;
+  private readonly tickDurationUs: number;
+  private readonly stepDurationUs: number;
+
+  /**
+   * @param getTimestamp 获取当前的节拍和任务步
+   */
+  constructor(
+    private events: KernelEventBus,
+    private getTimestamp: () => TraceTimestamp,
+    options: TraceRecorderOptions = {}
+  ) {
+    const capacity = options.capacity ?? DEFAULT_TRACE_CAPACITY;
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error(`Invalid trace capacity: ${capacity}`);
+    }
+
+    this.capacity = capacity;
+    this.tickDurationUs = 1_000_000 / (options.tickRate ?? 1000);
+    this.stepDurationUs = this.tickDurationUs / (options.stepsPerTick ?? 1);
+  }
+
+  /**
+   * 开始记录
+   */
+  start(): void {
+    if (this.isRecording()) {
+      return;
+    }
+
+    for (const event of TRACED_EVENTS) {
+      this.unsubscribers.push(this.events.on(event, data => this.record(event, data)));
+    }
+  }
+
+  /**
+   * 停止记录，已记录的内容保留
+   */
+  stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+  }
+
+  /**
+   * 是否正在记录
+   */
+  isRecording(): boolean {
+    return this.unsubscribers.length > 0;
+  }
+
+  /**
+   * 清空缓冲区
+   */
+  clear(): void {
+    this.buffer = [];
+    this.head = 0;
+    this.dropped = 0;
+  }
+
+  /**
+   * 按时间顺序获取缓冲区中的记录
+   */
+  getRecords(): TraceRecord[] {
+    return [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+  }
+
+  /**
+   * 缓冲区满后被覆盖的记录数
+   */
+  getDroppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * 导出为 Chrome Trace Event 格式
+   * 任务在 Tasks 进程中各占一个线程，运行区间为 B/E 事件；中断在 Interrupts 进程中按中断号分线程
+   */
+  toChromeTrace(): ChromeTrace {
+    const records = this.getRecords();
+    const traceEvents: ChromeTraceEvent[] = [
+      { name: 'process_name', ph: 'M', ts: 0, pid: TASKS_PID, tid: 0, args: { name: 'Tasks' } },
+      { name: 'process_name', ph: 'M', ts: 0, pid: INTERRUPTS_PID, tid: 0, args: { name: 'Interrupts' } }
+    ];
+    const taskNames: Map<TaskHandle, string> = new Map();
+    const irqs: Set<number> = new Set();
+    const running: Set<TaskHandle> = new Set();  // 已输出 B 事件的任务
+    let ts = 0;
+
+    // 任务在自己的一步中阻塞、让出或结束时，运行区间持续到这一步结束；被抢占时在切换处结束
+    const end = (handle: TaskHandle, endTs: number = ts) => {
+      if (running.delete(handle)) {
+        traceEvents.push({ name: taskNames.get(handle) ?? `Task ${handle}`, cat: 'task', ph: 'E', ts: endTs, pid: TASKS_PID, tid: handle });
+      }
+    };
+    const instant = (handle: TaskHandle, name: string, cat: string, args: Record<string, unknown>) => {
+      traceEvents.push({ name, cat, ph: 'i', s: 't', ts, pid: TASKS_PID, tid: handle, args });
+    };
+
+    for (const record of records) {
+      ts = this.toMicroseconds(record);
+      if ('name' in record.data && 'handle' in record.data) {
+        taskNames.set(record.data.handle, record.data.name);
+      }
+
+      switch (record.event) {
+        case 'contextSwitch': {
+          const { from, to } = record.data;
+          if (from !== null) {
+            end(from);
+          }
+          running.add(to);
+          traceEvents.push({ name: taskNames.get(to) ?? `Task ${to}`, cat: 'task', ph: 'B', ts, pid: TASKS_PID, tid: to });
+          break;
+        }
+        case 'stateChanged': {
+          const { handle, from, to, reason } = record.data;
+          if (from === TaskState.RUNNING) {
+            end(handle, reason === 'preempt' ? ts : ts + this.stepDurationUs);
+          }
+          if (to !== TaskState.RUNNING) {
+            instant(handle, `${from} → ${to}`, 'state', { reason });
+          }
+          break;
+        }
+        case 'taskDeleted':
+          end(record.data.handle, ts + this.stepDurationUs);
+          instant(record.data.handle, record.event, 'task', {});
+          break;
+        case 'taskCreated':
+        case 'taskCompleted':
+          instant(record.data.handle, record.event, 'task', {});
+          break;
+        case 'taskError':
+          instant(record.data.handle, record.event, 'task', {
+            error: String(record.data.error),
+            ...(record.data.location ? { line: record.data.location.line, column: record.data.location.column } : {})
+          });
+          break;
+        case 'ipc.block':
+          instant(record.data.handle, record.event, 'ipc', { object: record.data.object, timeoutTicks: record.data.timeoutTicks });
+          break;
+        case 'ipc.wake':
+        case 'ipc.timeout':
+          instant(record.data.handle, record.event, 'ipc', { object: record.data.object });
+          break;
+        case 'isrEnter':
+          irqs.add(record.data.irq);
+          traceEvents.push({ name: `IRQ ${record.data.irq}`, cat: 'isr', ph: 'B', ts, pid: INTERRUPTS_PID, tid: record.data.irq, args: { priority: record.data.priority } });
+          break;
+        case 'isrExit':
+          if (irqs.has(record.data.irq)) {
+            traceEvents.push({ name: `IRQ ${record.data.irq}`, cat: 'isr', ph: 'E', ts, pid: INTERRUPTS_PID, tid: record.data.irq });
+          }
+          break;
+      }
+    }
+
+    // 结束仍在运行的任务
+    Array.from(running).forEach(handle => end(handle));
+    // 按时间排序，同一时间保持记录顺序
+    traceEvents.sort((a, b) => a.ts - b.ts);
+
+    for (const [handle, name] of taskNames) {
+      traceEvents.push({ name: 'thread_name', ph: 'M', ts: 0, pid: TASKS_PID, tid: handle, args: { name } });
+    }
+    for (const irq of irqs) {
+      traceEvents.push({ name: 'thread_name', ph: 'M', ts: 0, pid: INTERRUPTS_PID, tid: irq, args: { name: `IRQ ${irq}` } });
+    }
+
+    return {
+      traceEvents,
+      displayTimeUnit: 'ms',
+      otherData: { records: records.length, dropped: this.dropped }
+    };
+  }
+
+  /**
+   * 导出为 Chrome Trace JSON 字符串
+   */
+  exportJSON(): string {
+    return JSON.stringify(this.toChromeTrace());
+  }
+
+  /**
+   * 写入环形缓冲区，已满时覆盖最旧的记录
+   */
+  private record<K extends TraceEventName>(event: K, data: KernelEvents[K]): void {
+    const record = { ...this.getTimestamp(), event, data } as TraceRecord;
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(record);
+      return;
+    }
+
+    this.buffer[this.head] = record;
+    this.head = (this.head + 1) % this.capacity;
+    this.dropped++;
+  }
+
+  /**
+   * 把节拍和任务步换算为微秒
+   */
+  private toMicroseconds(timestamp: TraceTimestamp): number {
+    return timestamp.tick * this.tickDurationUs + timestamp.step * this.stepDurationUs;
+  }
+}
@@ -10,6 +10,32 @@ export const TaskState = {
 
 export type TaskStateType = typeof TaskState[keyof typeof TaskState];
 
+/**
+ * 任务通知状态
+ */
+export const NotifyState = {
+  NOT_WAITING: 'notWaiting', // 没有等待通知
+  WAITING: 'waiting',        // 正在等待通知
+  PENDING: 'pending'         // 收到通知尚未处理
+} as const;
+
+export type NotifyStateType = typeof NotifyState[keyof typeof NotifyState];
+
+/**
+ * 任务通知动作 (eNotifyAction)
+ */
+export type NotifyAction = 'noAction' | 'setBits' | 'increment' | 'overwrite' | 'noOverwrite';
+
+/**
+ * 永久等待 (相当于 FreeRTOS 的 portMAX_DELAY)
+ */
+export const MAX_DELAY = Infinity;
+
+/**
+ * 阻塞等待超时后传回任务的值
+ */
+export const TIMEOUT: unique symbol = Symbol('timeout');
+
 /**
  * 任务优先级
  */
@@ -22,9 +48,107 @@ export type TaskHandle = number;
 
 /**
  * 任务函数类型 - 支持普通函数和 Generator 函数
- * 现在接受 rtos 作为参数
+ * 创建任务时传入的 params 会作为参数传给任务函数
+ */
+export type TaskFunction = (params?: any) => void | Generator<any, any, any>;
+
+/**
+ * 任务的编写方式
+ * generator: 普通函数，由解析器转换为 Generator；async: async 函数，通过 await 等待内核调用
+ */
+export type TaskMode = 'generator' | 'async';
+
+/**
+ * 创建任务的选项，实时参数的单位为节拍
+ */
+export interface TaskOptions {
+  period?: number;    // 周期，每个周期释放一个作业
+  deadline?: number;  // 相对截止时间 (默认等于周期)
+  wcet?: number;      // 最坏执行时间，用于计算处理器利用率
+  mode?: TaskMode;    // 任务编写方式，默认 async 函数使用 async，其他使用 generator
+}
+
+/**
+ * 实时任务释放的一个作业
+ */
+export interface TaskJob {
+  releaseTick: number;  // 释放节拍
+  deadline: number;     // 绝对截止节拍
+  missed: boolean;      // 是否已错过截止时间
+}
+
+/**
+ * 实时任务的作业状态
+ * 任务进入延时 (delay / delayUntil) 或执行结束时视为完成最早的未完成作业
+ */
+export interface TaskTiming {
+  period: number | null;        // 周期 (null 表示只释放一个作业)
+  deadline: number;             // 相对截止时间
+  wcet: number | null;          // 最坏执行时间
+  nextReleaseTick: number;      // 下一次释放作业的节拍
+  jobs: TaskJob[];              // 已释放但未完成的作业
+  jobsReleased: number;         // 已释放的作业数
+  jobsCompleted: number;        // 已完成的作业数
+  deadlineMisses: number;       // 错过截止时间的作业数
+  lastMissTick: number | null;  // 最近一次错过截止时间的节拍
+}
+
+/**
+ * 截止时间统计
+ */
+export interface DeadlineReport {
+  policy: string;               // 调度策略名称
+  utilization: number;          // 处理器利用率 (Σ wcet / period)
+  tasks: Array<{
+    handle: TaskHandle;
+    name: string;
+    period: number | null;
+    deadline: number;
+    wcet: number | null;
+    jobsReleased: number;
+    jobsCompleted: number;
+    deadlineMisses: number;
+    lastMissTick: number | null;
+  }>;
+}
+
+/**
+ * 任务运行时计数
  */
-export type TaskFunction = (rtos: any) => void | Generator<any, any, any>;
+export interface TaskRunTimeCounters {
+  runTime: number;                            // 累计运行时间 (节拍，一个节拍内执行多步时按步数折算)
+  runSteps: number;                           // 累计运行步数
+  stateTicks: Record<TaskStateType, number>;  // 各状态累计节拍数 (每个节拍结束时采样)
+}
+
+/**
+ * 运行时统计 (vTaskGetRunTimeStats)
+ */
+export interface RunTimeStats {
+  totalTime: number;            // 调度器启动以来的总节拍数
+  tasks: Array<{
+    handle: TaskHandle;
+    name: string;
+    state: TaskStateType;
+    priority: TaskPriority;
+    runTime: number;
+    runSteps: number;
+    cpuUsage: number;           // CPU 占用率 (百分比，含空闲任务)
+    stateTicks: Record<TaskStateType, number>;
+  }>;
+}
+
+/**
+ * 调度策略 - 决定就绪任务的运行顺序
+ */
+export interface SchedulingPolicy {
+  readonly name: string;
+  /**
+   * 比较两个就绪任务，a 应该先于 b 运行时返回负数，无先后之分时返回 0
+   * 无先后之分的任务按时间片轮转
+   */
+  compare(a: TaskControlBlock, b: TaskControlBlock): number;
+}
 
 /**
  * 任务控制块 (Task Control Block)
@@ -35,8 +159,10 @@ export interface TaskControlBlock {
   function: TaskFunction;       // 任务函数
   params?: any;                 // 任务参数
   state: TaskStateType;         // 任务状态
-  priority: TaskPriority;       // 任务优先级
-  stackPointer: number;         // 栈指针
+  priority: TaskPriority;       // 任务优先级 (含优先级继承后的有效优先级)
+  basePriority: TaskPriority;   // 基础优先级 (未继承时的优先级)
+  mutexesHeld: number;          // 持有的互斥量数量
+  stackPointer: number;         // 栈指针 (栈从高地址向低地址增长，小于 0 表示已越界)
   stackSize: number;            // 栈大小
   stack: ArrayBuffer;           // 任务栈
   delayTicks: number;           // 延时计数
@@ -46,16 +172,225 @@ export interface TaskControlBlock {
   runCount: number;             // 运行次数
   generator: Generator<any, any, any> | undefined; // Generator 对象
   isGenerator: boolean;         // 是否为 Generator 任务
+  eventValue: any;              // 下次运行时传回 Generator 的值
+  pendingRequest: BlockingRequest | null; // 正在等待的阻塞请求
+  notifyValue: number;          // 任务通知值
+  notifyState: NotifyStateType; // 任务通知状态
+  timing: TaskTiming | null;    // 实时任务的周期与截止时间
+  stats: TaskRunTimeCounters;   // 运行时统计
+}
+
+/**
+ * 阻塞请求的执行结果
+ */
+export type BlockingResult = { completed: true; value: any } | { completed: false };
+
+/**
+ * 阻塞请求 - 任务通过 yield 交给调度器的内核对象操作
+ * 调度器先尝试立即完成，无法完成时任务进入内核对象的等待列表并阻塞
+ */
+export interface BlockingRequest {
+  type: 'blocking';
+  reason: string;                                // 阻塞原因 (写入 blockedOn)
+  timeoutTicks: number;                          // 超时节拍数 (0 表示不等待)
+  timeoutValue: any;                             // 超时后传回任务的值
+  attempt(handle: TaskHandle): BlockingResult;   // 尝试立即完成请求
+  wait(handle: TaskHandle): void;                // 加入等待列表
+  cancel(handle: TaskHandle): void;              // 离开等待列表 (超时、挂起或删除)
 }
 
 /**
  * 调度器配置
  */
 export interface SchedulerConfig {
-  maxTasks: number;             // 最大任务数
+  maxTasks: number;             // 最大任务数 (含空闲任务；创建第一个定时器时启动的定时器服务任务也计入，已达上限时抛出 MAX_TASKS)
   tickRate: number;             // 时钟节拍率 (Hz)
   stackSize: number;            // 默认栈大小
   idleTaskStackSize: number;    // 空闲任务栈大小
+  tickSource?: TickSource;      // 时钟源 (默认使用 setInterval 实时时钟)
+  timerTaskPriority?: number;   // 定时器服务任务优先级
+  timerQueueLength?: number;    // 定时器命令队列长度
+  timerTaskStackSize?: number;  // 定时器服务任务栈大小
+  preemption?: boolean;         // 抢占式调度 (默认 true)，关闭后任务运行到阻塞或主动让出为止
+  timeSlicing?: boolean;        // 同优先级任务时间片轮转 (默认 true，仅在抢占式调度下生效)
+  timeSliceTicks?: number;      // 时间片长度 (节拍数，默认 1)
+  stepsPerTick?: number;        // 每个节拍内最多执行的任务步数 (默认 1)
+  schedulingPolicy?: SchedulingPolicy; // 调度策略 (默认固定优先级)
+  stackOverflowCheck?: StackOverflowCheck;          // 栈溢出检测方式 (默认 'none')
+  stackOverflowAction?: 'terminate' | 'suspend';    // 检测到栈溢出后删除或挂起任务 (默认 'terminate')
+  onStackOverflow?: (handle: TaskHandle, name: string) => void; // 栈溢出钩子
+  totalHeapSize?: number;       // 模拟堆大小 (字节，不设置时不限制)
+  heapScheme?: HeapScheme;      // 内存分配策略 (默认 'heap_4')
+  heapRegions?: number[];       // heap_5 的各内存区域大小 (设置后忽略 totalHeapSize)
+  mallocFailedHook?: (size: number) => void; // 内存分配失败钩子 (vApplicationMallocFailedHook)
+  maxSyscallInterruptPriority?: number; // 可以调用 FromISR 接口的最高中断优先级 (默认不限制)
+  tickless?: boolean;           // 低功耗 tickless 模式：所有任务阻塞时跳过空闲节拍 (默认 false)
+  expectedIdleTimeBeforeSleep?: number; // 预计空闲节拍数不少于该值时才进入睡眠 (默认 2)
+  preSleepProcessing?: (expectedIdleTicks: number) => number | void; // 睡眠前钩子，返回值替换预计空闲节拍数，返回 0 取消睡眠
+  postSleepProcessing?: (sleptTicks: number) => void; // 唤醒后钩子
+  hooks?: SchedulerHooks;       // 内核生命周期钩子
+  logSinks?: LogSink[];         // 日志输出端，默认输出到 console
+}
+
+/**
+ * 内核生命周期钩子 - 用于监控和调试，不应在钩子中调用阻塞接口
+ */
+export interface SchedulerHooks {
+  onIdle?: () => void;                          // 空闲任务每次运行时调用 (vApplicationIdleHook)
+  onTick?: (tickCount: number) => void;         // 每个时钟节拍调用 (vApplicationTickHook)
+  onTaskSwitchedIn?: (handle: TaskHandle, name: string) => void;  // 任务切入
+  onTaskSwitchedOut?: (handle: TaskHandle, name: string) => void; // 任务切出
+  onTaskCreate?: (handle: TaskHandle, name: string) => void;      // 任务创建 (含空闲任务和定时器服务任务)
+  onTaskDelete?: (handle: TaskHandle, name: string) => void;      // 任务删除或执行完毕
+  onTaskError?: (handle: TaskHandle, name: string, error: unknown) => void; // 任务执行出错
+}
+
+/**
+ * 日志级别，与 console 的方法对应
+ */
+export type LogLevel = 'log' | 'info' | 'warn' | 'error';
+
+/**
+ * 日志条目
+ */
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  args: unknown[];   // 附加参数 (如错误对象)
+  tick: number;      // 输出日志时的节拍
+}
+
+/**
+ * 日志输出端
+ */
+export type LogSink = (entry: LogEntry) => void;
+
+/**
+ * 源码中的位置，行列都从 1 开始
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * 任务出错时在原始源码中的位置
+ */
+export interface SourceLocation extends SourcePosition {
+  source: string;   // 任务函数的原始源码
+  frame: string;    // 出错位置的代码帧
+}
+
+/**
+ * 任务相关事件的公共字段
+ */
+export interface TaskEvent {
+  handle: TaskHandle;
+  name: string;
+}
+
+/**
+ * 任务在内核对象上阻塞、被唤醒或等待超时的事件
+ */
+export interface IPCEvent extends TaskEvent {
+  object: string;    // 阻塞原因，如 queue:Queue_1
+}
+
+/**
+ * 内核事件 - 事件名到事件数据的映射
+ */
+export interface KernelEvents {
+  taskCreated: TaskEvent & { priority: TaskPriority };
+  taskDeleted: TaskEvent;
+  taskCompleted: TaskEvent;                       // Generator 任务执行完毕 (随后被删除)
+  taskError: TaskEvent & { error: unknown; location?: SourceLocation };   // location 为转换后的任务出错的原始位置
+  stateChanged: TaskEvent & { from: TaskStateType; to: TaskStateType; reason: string };
+  contextSwitch: { from: TaskHandle | null; to: TaskHandle; tick: number };
+  tick: { tickCount: number };
+  log: LogEntry;
+  'ipc.block': IPCEvent & { timeoutTicks: number };
+  'ipc.wake': IPCEvent;
+  'ipc.timeout': IPCEvent;
+  isrEnter: { irq: number; priority: number; nesting: number }; // nesting: 进入后的中断嵌套深度
+  isrExit: { irq: number };
+}
+
+/**
+ * 栈溢出检测方式 (configCHECK_FOR_STACK_OVERFLOW)
+ * pointer: 任务切出时检查栈指针是否越界
+ * pattern: 同时检查栈底的填充字节是否被改写
+ */
+export type StackOverflowCheck = 'none' | 'pointer' | 'pattern';
+
+/**
+ * 内存分配策略 (对应 FreeRTOS 的 heap_1.c ~ heap_5.c)
+ * heap_1: 只分配不释放
+ * heap_2: 最佳适配，不合并空闲块
+ * heap_3: 包装宿主的 malloc/free
+ * heap_4: 首次适配，合并相邻空闲块
+ * heap_5: 同 heap_4，支持多个不连续的内存区域
+ */
+export type HeapScheme = 'heap_1' | 'heap_2' | 'heap_3' | 'heap_4' | 'heap_5';
+
+/**
+ * 堆统计信息 (vPortGetHeapStats)
+ */
+export interface HeapStats {
+  scheme: HeapScheme;
+  totalSize: number;              // 堆总大小
+  freeSize: number;               // 剩余空间
+  minimumEverFreeSize: number;    // 历史最小剩余空间
+  largestFreeBlock: number;       // 最大空闲块
+  smallestFreeBlock: number;      // 最小空闲块
+  freeBlocks: number;             // 空闲块数量
+  allocatedBlocks: number;        // 已分配块数量
+  successfulAllocations: number;  // 成功分配次数
+  successfulFrees: number;        // 成功释放次数
+  fragmentation: number;          // 碎片率: 1 - 最大空闲块 / 剩余空间
+}
+
+/**
+ * 中断服务程序
+ */
+export type InterruptHandler = (irq: number) => void;
+
+/**
+ * 中断源 - 未设置时只能通过 triggerInterrupt 手动触发
+ */
+export interface InterruptSource {
+  period?: number;              // 每隔 period 个节拍触发一次
+  probability?: number;         // 每个节拍以该概率随机触发 (0 ~ 1)
+  random?: () => number;        // 随机数生成器 (默认 Math.random)
+}
+
+/**
+ * 已注册的中断
+ */
+export interface Interrupt {
+  irq: number;
+  priority: number;             // 中断优先级 (数值越大越优先，可以嵌套打断较低优先级的中断)
+  handler: InterruptHandler;
+  source: InterruptSource | null;
+  pending: boolean;             // 已触发但尚未执行
+  count: number;                // 已执行次数
+}
+
+/**
+ * FromISR 接口的结果
+ */
+export interface FromISRResult {
+  success: boolean;
+  higherPriorityTaskWoken: boolean; // 唤醒了比当前任务优先级更高的任务，中断退出时切换任务
+}
+
+/**
+ * 时钟源 - 负责驱动调度器的时钟节拍
+ */
+export interface TickSource {
+  start(onTick: () => void, intervalMs: number): void; // 开始产生节拍
+  stop(): void;                                         // 停止产生节拍
+  sleep?(ticks: number, onWake: (elapsedTicks: number) => void): void; // 暂停 ticks 个节拍周期后调用 onWake 并恢复节拍 (tickless 模式)
+  abortSleep?(): void;                                  // 提前结束睡眠，以实际经过的节拍数调用 onWake
 }
 
 
@@ -64,8 +399,9 @@ export interface SchedulerConfig {
  */
 export interface Timer {
   id: number;
+  name: string;
   period: number;
-  callback: () => void;
+  callback: (timer: Timer) => void;
   isActive: boolean;
   isAutoReload: boolean;
   remainingTicks: number;
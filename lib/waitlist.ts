@@ -0,0 +1,94 @@
+import { TaskManager } from './task';
+import { TaskHandle } from './types';
+
+/**
+ * 内核对象的等待列表
+ * 按任务当前优先级出队，相同优先级按进入顺序 (FIFO)
+ */
+export class WaitList {
+  private waiters: TaskHandle[] = [];
+
+  constructor(private taskManager: TaskManager) {}
+
+  /**
+   * 加入等待列表
+   */
+  add(handle: TaskHandle): void {
+    if (!this.waiters.includes(handle)) {
+      this.waiters.push(handle);
+    }
+  }
+
+  /**
+   * 移出等待列表
+   */
+  remove(handle: TaskHandle): boolean {
+    const index = this.waiters.indexOf(handle);
+    if (index === -1) {
+      return false;
+    }
+    this.waiters.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * 获取优先级最高的等待任务
+   * 每次按当前优先级计算，优先级被动态调整后顺序依然正确
+   */
+  first(): TaskHandle | null {
+    let best: TaskHandle | null = null;
+    let bestPriority = -Infinity;
+
+    for (const handle of this.waiters) {
+      const task = this.taskManager.getTaskInfo(handle);
+      if (task && task.priority > bestPriority) {
+        best = handle;
+        bestPriority = task.priority;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 按优先级依次完成等待任务的请求并唤醒它们，直到某个请求无法完成
+   * @returns 被唤醒的任务数
+   */
+  process(): number {
+    let woken = 0;
+    let handle = this.first();
+
+    while (handle !== null) {
+      const request = this.taskManager.getTaskInfo(handle)?.pendingRequest;
+      if (!request) {
+        // 任务已不再等待，直接清理
+        this.remove(handle);
+      } else {
+        const result = request.attempt(handle);
+        if (!result.completed) {
+          break;
+        }
+        this.remove(handle);
+        this.taskManager.wakeTask(handle, result.value);
+        woken++;
+      }
+      handle = this.first();
+    }
+
+    return woken;
+  }
+
+  /**
+   * 等待任务数
+   */
+  get length(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * 获取所有等待任务
+   */
+  getWaiters(): TaskHandle[] {
+    return [...this.waiters];
+  }
+}
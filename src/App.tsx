@@ -12,12 +12,14 @@ import {
   FunctionOutlined,
   PauseOutlined,
   CodeOutlined,
+  BarChartOutlined,
 } from "@ant-design/icons";
 import BasicExample from "./pages/basic";
 import TaskExample from "./pages/task";
 import SuspendExample from "./pages/suspend";
 import CodeTransformPage from "./pages/code-transform";
 import TaskModePage from "./pages/task-mode";
+import TimelinePage from "./pages/timeline";
 import LogContainer from "./components/LogContainer";
 import { LogProvider, useLog } from "./contexts/LogContext";
 import styles from "./App.module.css";
@@ -54,6 +56,11 @@ function AppContent() {
       icon: <PlayCircleOutlined />,
       label: <Link to="/task-mode">任务执行模式</Link>,
     },
+    {
+      key: "/timeline",
+      icon: <BarChartOutlined />,
+      label: <Link to="/timeline">任务时间线</Link>,
+    },
   ];
 
   return (
@@ -81,6 +88,7 @@ function AppContent() {
               <Route path="/task" element={<TaskExample />} />
               <Route path="/code-transform" element={<CodeTransformPage />} />
               <Route path="/task-mode" element={<TaskModePage />} />
+              <Route path="/timeline" element={<TimelinePage />} />
             </Routes>
           </Content>
         </Layout>
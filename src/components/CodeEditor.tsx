@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Input, Typography } from 'antd';
+import { RTOS } from '../../lib/rtos';
+import { SourceLocation } from '../../lib/types';
+import styles from './CodeEditor.module.css';
+
+const { TextArea } = Input;
+const { Text } = Typography;
+
+/**
+ * 任务出错的位置和错误信息
+ */
+export interface CodeEditorError {
+  location: SourceLocation;
+  message: string;
+}
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  error?: CodeEditorError | null;
+  placeholder?: string;
+  rows?: number;
+  style?: React.CSSProperties;
+}
+
+/**
+ * 任务源码在编辑器代码中的起始行，任务函数的源码就是编辑器代码的一部分
+ */
+function findErrorLine(code: string, location: SourceLocation): number | null {
+  const index = code.indexOf(location.source);
+  if (index < 0) {
+    return null;
+  }
+  return code.slice(0, index).split('\n').length + location.line - 1;
+}
+
+/**
+ * 订阅任务出错事件，返回最近一次出错的原始位置
+ */
+export function useTaskError(rtos: RTOS): [CodeEditorError | null, (error: CodeEditorError | null) => void] {
+  const [taskError, setTaskError] = useState<CodeEditorError | null>(null);
+
+  useEffect(() => rtos.events.on('taskError', ({ name, error, location }) => {
+    if (location) {
+      setTaskError({ location, message: `${name}: ${String(error)}` });
+    }
+  }), [rtos]);
+
+  return [taskError, setTaskError];
+}
+
+/**
+ * 任务代码编辑器
+ * 在文本框下方绘制同样排版的背景层，用波浪线标出任务出错的行
+ */
+const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, error, placeholder = '', rows = 8, style }) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const errorLine = error ? findErrorLine(value, error.location) : null;
+
+  const handleScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    const backdrop = backdropRef.current;
+    if (backdrop) {
+      backdrop.scrollTop = event.currentTarget.scrollTop;
+      backdrop.scrollLeft = event.currentTarget.scrollLeft;
+    }
+  };
+
+  return (
+    <div style={style}>
+      <div className={styles.editor}>
+        <div className={styles.backdrop} ref={backdropRef} aria-hidden>
+          {value.split('\n').map((line, index) => (
+            <div key={index} className={index + 1 === errorLine ? styles.errorLine : undefined}>
+              {line || ' '}
+            </div>
+          ))}
+        </div>
+        <TextArea
+          className={styles.textarea || ''}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={handleScroll}
+          placeholder={placeholder}
+          rows={rows}
+          wrap="off"
+          spellCheck={false}
+        />
+      </div>
+      {error && errorLine !== null && (
+        <Text type="danger" className={styles.errorMessage || ''}>
+          第 {errorLine} 行，第 {error.location.column} 列: {error.message}
+        </Text>
+      )}
+    </div>
+  );
+};
+
+export default CodeEditor;
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button, Space, Switch, Typography } from 'antd';
+import { ZoomInOutlined, ZoomOutOutlined } from '@ant-design/icons';
+import { TimelineRow, TimelineSegment } from '../../lib/timeline';
+import styles from './TimelineChart.module.css';
+
+const { Text } = Typography;
+
+/**
+ * 任务状态的颜色和名称
+ */
+const STATE_STYLES: Record<string, { color: string; label: string }> = {
+  running: { color: '#52c41a', label: '运行' },
+  ready: { color: '#faad14', label: '就绪' },
+  blocked: { color: '#1677ff', label: '阻塞' },
+  suspended: { color: '#bfbfbf', label: '挂起' }
+};
+
+const LABEL_WIDTH = 120;
+const AXIS_HEIGHT = 24;
+const ROW_HEIGHT = 28;
+const BAR_HEIGHT = 18;
+const MIN_PX_PER_TICK = 1;
+const MAX_PX_PER_TICK = 80;
+const ZOOM_FACTOR = 1.25;
+
+interface TimelineChartProps {
+  rows: TimelineRow[];
+  currentTick: number;
+}
+
+interface HoveredSegment {
+  row: TimelineRow;
+  segment: TimelineSegment;
+  x: number;
+  y: number;
+}
+
+/**
+ * 选择刻度间隔，使相邻刻度至少相距 60 像素
+ */
+function getAxisStep(pxPerTick: number): number {
+  const steps = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+  return steps.find(step => step * pxPerTick >= 60) ?? 10000;
+}
+
+/**
+ * 任务状态甘特图
+ * 滚轮平移，按住 Ctrl 滚动缩放，拖动平移；跟随模式下视图随当前节拍滚动
+ */
+const TimelineChart: React.FC<TimelineChartProps> = ({ rows, currentTick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number; offset: number } | null>(null);
+  const [width, setWidth] = useState(800);
+  const [pxPerTick, setPxPerTick] = useState(12);
+  const [offset, setOffset] = useState(0);  // 视图起始节拍 (非跟随模式)
+  const [follow, setFollow] = useState(true);
+  const [hovered, setHovered] = useState<HoveredSegment | null>(null);
+
+  // 当前节拍结束处
+  const now = currentTick + 1;
+  const chartWidth = Math.max(width - LABEL_WIDTH, 1);
+  const visibleTicks = chartWidth / pxPerTick;
+  const viewStart = follow ? Math.max(0, now - visibleTicks * 0.9) : offset;
+  const viewEnd = viewStart + visibleTicks;
+  const height = AXIS_HEIGHT + rows.length * ROW_HEIGHT;
+
+  const toX = (tick: number) => LABEL_WIDTH + (tick - viewStart) * pxPerTick;
+
+  // 跟随容器宽度
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      const entry = entries[0];
+      if (entry) {
+        setWidth(entry.contentRect.width);
+      }
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // 滚轮需要阻止页面滚动，React 的 onWheel 是被动监听，不能调用 preventDefault
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      if (event.ctrlKey || event.metaKey) {
+        const rect = svg.getBoundingClientRect();
+        zoom(event.deltaY < 0 ? ZOOM_FACTOR : 1 / ZOOM_FACTOR, event.clientX - rect.left);
+      } else {
+        const delta = Math.abs(event.deltaX) > Math.abs(event.deltaY) ? event.deltaX : event.deltaY;
+        panTo(viewStart + delta / pxPerTick);
+      }
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  });
+
+  const panTo = (start: number) => {
+    setFollow(false);
+    setOffset(Math.max(0, start));
+  };
+
+  /**
+   * 以 anchorX 处的节拍为中心缩放
+   */
+  const zoom = (factor: number, anchorX: number = LABEL_WIDTH + chartWidth / 2) => {
+    const next = Math.min(MAX_PX_PER_TICK, Math.max(MIN_PX_PER_TICK, pxPerTick * factor));
+    const anchorTick = viewStart + (anchorX - LABEL_WIDTH) / pxPerTick;
+    setPxPerTick(next);
+    if (!follow) {
+      setOffset(Math.max(0, anchorTick - (anchorX - LABEL_WIDTH) / next));
+    }
+  };
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    dragRef.current = { x: event.clientX, offset: viewStart };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const drag = dragRef.current;
+    if (drag) {
+      panTo(drag.offset - (event.clientX - drag.x) / pxPerTick);
+    }
+  };
+
+  const handleMouseUp = () => {
+    dragRef.current = null;
+  };
+
+  const axisStep = getAxisStep(pxPerTick);
+  const axisTicks: number[] = [];
+  for (let tick = Math.ceil(viewStart / axisStep) * axisStep; tick <= viewEnd; tick += axisStep) {
+    axisTicks.push(tick);
+  }
+
+  return (
+    <div className={styles.container} ref={containerRef}>
+      <div className={styles.toolbar}>
+        <Space wrap>
+          <Button icon={<ZoomInOutlined />} onClick={() => zoom(ZOOM_FACTOR)}>放大</Button>
+          <Button icon={<ZoomOutOutlined />} onClick={() => zoom(1 / ZOOM_FACTOR)}>缩小</Button>
+          <Space>
+            <Switch checked={follow} onChange={checked => {
+              setFollow(checked);
+              setOffset(viewStart);
+            }} />
+            <Text>跟随当前节拍</Text>
+          </Space>
+          {Object.entries(STATE_STYLES).map(([state, { color, label }]) => (
+            <span key={state} className={styles.legend}>
+              <span className={styles.swatch} style={{ background: color }} />
+              {label}
+            </span>
+          ))}
+        </Space>
+      </div>
+
+      <svg
+        ref={svgRef}
+        className={styles.chart}
+        width={width}
+        height={height}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => {
+          handleMouseUp();
+          setHovered(null);
+        }}
+      >
+        <defs>
+          <clipPath id="timeline-clip">
+            <rect x={LABEL_WIDTH} y={0} width={chartWidth} height={height} />
+          </clipPath>
+        </defs>
+
+        {/* 时间轴 */}
+        <g clipPath="url(#timeline-clip)">
+          {axisTicks.map(tick => (
+            <g key={tick}>
+              <line x1={toX(tick)} x2={toX(tick)} y1={AXIS_HEIGHT - 6} y2={height} className={styles.gridLine} />
+              <text x={toX(tick) + 3} y={AXIS_HEIGHT - 10} className={styles.axisLabel}>{tick}</text>
+            </g>
+          ))}
+        </g>
+
+        {rows.map((row, index) => {
+          const y = AXIS_HEIGHT + index * ROW_HEIGHT;
+          return (
+            <g key={row.handle}>
+              <text x={8} y={y + ROW_HEIGHT / 2 + 4} className={row.deleted ? styles.deletedLabel : styles.rowLabel}>
+                {row.name}
+              </text>
+              <g clipPath="url(#timeline-clip)">
+                {row.segments
+                  .filter(segment => segment.end > viewStart && segment.start < viewEnd)
+                  .map(segment => (
+                    <rect
+                      key={segment.start}
+                      x={toX(segment.start)}
+                      y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+                      width={Math.max((segment.end - segment.start) * pxPerTick, 1)}
+                      height={BAR_HEIGHT}
+                      fill={STATE_STYLES[segment.state]?.color}
+                      onMouseMove={event => {
+                        const rect = containerRef.current!.getBoundingClientRect();
+                        setHovered({ row, segment, x: event.clientX - rect.left, y: event.clientY - rect.top });
+                      }}
+                      onMouseLeave={() => setHovered(null)}
+                    />
+                  ))}
+              </g>
+            </g>
+          );
+        })}
+
+        {/* 当前节拍 */}
+        {now >= viewStart && now <= viewEnd && (
+          <g>
+            <line x1={toX(now)} x2={toX(now)} y1={0} y2={height} className={styles.cursor} />
+            <text x={toX(now) + 4} y={10} className={styles.cursorLabel}>节拍 {currentTick}</text>
+          </g>
+        )}
+      </svg>
+
+      {hovered && (
+        <div className={styles.tooltip} style={{ left: hovered.x + 12, top: hovered.y + 12 }}>
+          <div><strong>{hovered.row.name}</strong> {STATE_STYLES[hovered.segment.state]?.label}</div>
+          <div>节拍 {hovered.segment.start.toFixed(2)} ~ {hovered.segment.end.toFixed(2)}</div>
+          {hovered.segment.reason && (
+            <div>{hovered.segment.state === 'blocked' ? '阻塞于' : '原因'}: {hovered.segment.reason}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimelineChart;
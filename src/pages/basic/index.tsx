@@ -1,15 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Card, Button, Space, Statistic, Row, Col, Typography, Alert, Input } from 'antd';
+import { Card, Button, Space, Statistic, Row, Col, Typography, Alert } from 'antd';
 import { PlayCircleOutlined, PauseCircleOutlined, CopyOutlined, CodeOutlined } from '@ant-design/icons';
-import { RTOS } from '../../../lib/rtos';
+import { RTOS, TaskCreationError } from '../../../lib/rtos';
 import { SchedulerConfig } from '../../../lib/types';
 import { useLog } from '../../contexts/LogContext';
+import CodeEditor, { useTaskError } from '../../components/CodeEditor';
 import styles from './index.module.css';
 
-const { TextArea } = Input;
-
 const BasicExample: React.FC = () => {
-  const { startCapture, stopCapture } = useLog();
+  const { addLog, subscribe } = useLog();
   
   // 创建独立的 RTOS 实例
   const [rtos] = useState(() => {
@@ -21,6 +20,7 @@ const BasicExample: React.FC = () => {
     };
     return new RTOS(config);
   });
+  const [taskError, setTaskError] = useTaskError(rtos);
   const [isRunning, setIsRunning] = useState(false);
   const [status, setStatus] = useState(rtos.getSystemStatus());
   const isRunningRef = useRef(false);
@@ -80,12 +80,14 @@ rtos.createTask(
     return () => clearInterval(interval);
   }, [isRunning]);
 
+  // 订阅 RTOS 日志
+  useEffect(() => subscribe(rtos), [rtos, subscribe]);
+
   // 组件卸载时清理资源
   useEffect(() => {
     return () => {
       if (isRunningRef.current) {
         rtos.stop();
-        stopCapture();
       }
     };
   }, []);
@@ -94,8 +96,7 @@ rtos.createTask(
     rtos.start();
     setIsRunning(true);
     isRunningRef.current = true;
-    startCapture(); // 开始捕获 console.log
-    console.log('🚀 系统已启动');
+    addLog('🚀 系统已启动');
     updateStatus();
   };
 
@@ -103,30 +104,30 @@ rtos.createTask(
     rtos.stop();
     setIsRunning(false);
     isRunningRef.current = false;
-    stopCapture(); // 停止捕获 console.log
-    console.log('⏹️ 系统已停止');
+    addLog('⏹️ 系统已停止');
     updateStatus();
   };
 
 
   const runBasicExample = () => {
-    console.log('=== 基本任务示例 ===');
+    addLog('=== 基本任务示例 ===');
     
     // 如果系统没有运行，先启动系统
     if (!isRunningRef.current) {
-      console.log('🚀 自动启动系统以运行任务...');
+      addLog('🚀 自动启动系统以运行任务...');
       rtos.start();
       setIsRunning(true);
       isRunningRef.current = true;
-      startCapture(); // 开始捕获 console.log
     }
     
+    setTaskError(null);
+    
     try {
       const executeHighPriority = new Function('rtos', 'console', 'log', `
         ${highPriorityCode}
       `);
       const log = (message: string) => {
-        console.log(`[Task] ${message}`);
+        addLog(`[Task] ${message}`);
       };
       executeHighPriority(rtos, console, log);
 
@@ -145,14 +146,19 @@ rtos.createTask(
       // 让出 CPU 给新创建的任务执行
       rtos.yield();
     } catch (error) {
-      console.log(`❌ 创建任务时出错: ${error}`);
+      if (error instanceof TaskCreationError) {
+        // 任务数、内存或优先级超出限制，已创建的任务保持不变
+        addLog(`❌ 创建任务失败 [${error.code}]: ${error.message}`);
+      } else {
+        addLog(`❌ 创建任务时出错: ${error}`);
+      }
     }
   };
 
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text).then(() => {
-      console.log('📋 代码已复制到剪贴板');
+      addLog('📋 代码已复制到剪贴板');
     });
   };
 
@@ -187,7 +193,7 @@ rtos.createTask(
         </Col>
         <Col span={6}>
           <Card>
-            <Statistic title="总任务数" value={status.totalTasks} />
+            <Statistic title="总任务数" value={status.totalTasks} suffix={`/ ${status.maxTasks}`} />
           </Card>
         </Col>
         <Col span={6}>
@@ -238,12 +244,12 @@ rtos.createTask(
             </Button>
           }
         >
-          <TextArea
+          <CodeEditor
             value={highPriorityCode}
-            onChange={(e) => setHighPriorityCode(e.target.value)}
+            onChange={setHighPriorityCode}
+            error={taskError}
             placeholder="输入完整的 rtos.createTask 调用代码..."
             rows={6}
-            style={{ fontFamily: 'Monaco, Consolas, "Courier New", monospace', fontSize: '12px' }}
           />
         </Card>
 
@@ -260,12 +266,12 @@ rtos.createTask(
             </Button>
           }
         >
-          <TextArea
+          <CodeEditor
             value={mediumPriorityCode}
-            onChange={(e) => setMediumPriorityCode(e.target.value)}
+            onChange={setMediumPriorityCode}
+            error={taskError}
             placeholder="输入完整的 rtos.createTask 调用代码..."
             rows={6}
-            style={{ fontFamily: 'Monaco, Consolas, "Courier New", monospace', fontSize: '12px' }}
           />
         </Card>
 
@@ -282,12 +288,12 @@ rtos.createTask(
             </Button>
           }
         >
-          <TextArea
+          <CodeEditor
             value={lowPriorityCode}
-            onChange={(e) => setLowPriorityCode(e.target.value)}
+            onChange={setLowPriorityCode}
+            error={taskError}
             placeholder="输入完整的 rtos.createTask 调用代码..."
             rows={6}
-            style={{ fontFamily: 'Monaco, Consolas, "Courier New", monospace', fontSize: '12px' }}
           />
         </Card>
       </Space>
@@ -2,13 +2,16 @@ import React, { useState } from 'react';
 import { Card, Button, Space, Statistic, Row, Col, Typography, Alert, Input } from 'antd';
 import { CodeOutlined } from '@ant-design/icons';
 import { RTOSParser } from '../../../lib/parser';
+import { useLog } from '../../contexts/LogContext';
 import styles from './index.module.css';
 
 const { TextArea } = Input;
 
 const CodeTransformPage: React.FC = () => {
+  const { addLog } = useLog();
   const [transformedCode, setTransformedCode] = useState('');
   const [yieldAllStatements, setYieldAllStatements] = useState(false);
+  const [warnings, setWarnings] = useState<string[]>([]);
   
   // 任务代码
   const [taskCode, setTaskCode] = useState(`// 创建多个任务示例 - 展示交替执行效果
@@ -43,8 +46,8 @@ rtos.createTask((rtos) => {
   // 转换代码
   const transformCode = () => {
     try {
-      console.log("开始转换代码...");
-      console.log("转换模式:", yieldAllStatements ? "所有语句转 yield" : "仅 delay 转 yield");
+      addLog("开始转换代码...");
+      addLog(`转换模式: ${yieldAllStatements ? "所有语句转 yield" : "仅阻塞调用转 yield"}`);
       
       // 使用 RTOS 内部的解析器
       const parser = new RTOSParser({ yieldAllStatements });
@@ -53,6 +56,7 @@ rtos.createTask((rtos) => {
       const taskFunctionRegex = /rtos\.createTask\(\(([^)]+)\)\s*=>\s*\{([\s\S]*?)\}/g;
       let result = taskCode;
       let match;
+      const diagnostics: string[] = [];
       
       while ((match = taskFunctionRegex.exec(taskCode)) !== null) {
         const fullMatch = match[0];
@@ -61,6 +65,11 @@ rtos.createTask((rtos) => {
         
         // 转换函数体
         const transformedBody = parser.parseAndTransformToGenerator(`(${params}) => {${functionBody}}`);
+        parser.getDiagnostics().forEach(({ message, line }) => {
+          // 诊断的行号相对于任务函数，换算为编辑器中的行号
+          const taskLine = taskCode.slice(0, match!.index).split('\n').length;
+          diagnostics.push(`第 ${taskLine + line - 1} 行: ${message}`);
+        });
         
         // 将箭头函数转换为 Generator 函数
         const generatorFunction = transformedBody.replace(/^\(([^)]+)\)\s*=>\s*\{/, 'function* ($1) {');
@@ -71,14 +80,15 @@ rtos.createTask((rtos) => {
         result = result.replace(fullMatch, newFullMatch);
       }
       
-      console.log("代码转换成功");
-      console.log("转换结果:", result);
+      addLog("代码转换成功");
+      addLog(`转换结果: ${result}`);
       
       setTransformedCode(result);
+      setWarnings(diagnostics);
     } catch (error) {
-      console.error("代码转换失败:", error);
-      console.error("错误详情:", error instanceof Error ? error.message : String(error));
+      addLog(`代码转换失败: ${error instanceof Error ? error.message : String(error)}`, 'error');
       setTransformedCode("");
+      setWarnings([]);
     }
   };
 
@@ -101,7 +111,7 @@ rtos.createTask((rtos) => {
           <Card>
             <Statistic 
               title="转换模式" 
-              value={yieldAllStatements ? '所有语句转 yield' : '仅 delay 转 yield'} 
+              value={yieldAllStatements ? '所有语句转 yield' : '仅阻塞调用转 yield'} 
             />
           </Card>
         </Col>
@@ -151,7 +161,7 @@ rtos.createTask((rtos) => {
               onClick={() => setYieldAllStatements(false)}
               style={{ marginLeft: 8 }}
             >
-              仅 delay 转 yield
+              仅阻塞调用转 yield
             </Button>
           </div>
           
@@ -176,6 +186,15 @@ rtos.createTask((rtos) => {
             </Button>
           </div>
           
+          {warnings.length > 0 && (
+            <Alert
+              type="warning"
+              showIcon
+              message="转换警告"
+              description={warnings.map(warning => <div key={warning}>{warning}</div>)}
+            />
+          )}
+
           {transformedCode && (
             <div>
               <Typography.Text strong>转换后的代码：</Typography.Text>
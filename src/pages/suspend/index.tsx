@@ -1,15 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Card, Button, Space, Statistic, Row, Col, Typography, Alert, Input } from 'antd';
+import { Card, Button, Space, Statistic, Row, Col, Typography, Alert } from 'antd';
 import { PlayCircleOutlined, PauseCircleOutlined, CopyOutlined, PauseOutlined, CaretRightOutlined, CodeOutlined } from '@ant-design/icons';
-import { RTOS } from '../../../lib/rtos';
+import { RTOS, TaskCreationError } from '../../../lib/rtos';
 import { SchedulerConfig, TaskHandle } from '../../../lib/types';
 import { useLog } from '../../contexts/LogContext';
+import CodeEditor, { useTaskError } from '../../components/CodeEditor';
 import styles from './index.module.css';
 
-const { TextArea } = Input;
-
 const SuspendExample: React.FC = () => {
-  const { startCapture, stopCapture } = useLog();
+  const { addLog, subscribe } = useLog();
   
   // 创建独立的 RTOS 实例
   const [rtos] = useState(() => {
@@ -21,6 +20,7 @@ const SuspendExample: React.FC = () => {
     };
     return new RTOS(config);
   });
+  const [taskError, setTaskError] = useTaskError(rtos);
   const [isRunning, setIsRunning] = useState(false);
   const [status, setStatus] = useState(rtos.getSystemStatus());
   const [taskHandle, setTaskHandle] = useState<TaskHandle | null>(null);
@@ -62,7 +62,7 @@ return taskHandle;`);
           if (!taskInfo) {
             // 任务不存在，说明已完成或被删除
             setTaskHandle(null);
-            console.log('📋 任务已完成，可以创建新任务');
+            addLog('📋 任务已完成，可以创建新任务');
           }
         }
       }
@@ -71,12 +71,14 @@ return taskHandle;`);
     return () => clearInterval(interval);
   }, [isRunning, taskHandle]);
 
+  // 订阅 RTOS 日志
+  useEffect(() => subscribe(rtos), [rtos, subscribe]);
+
   // 组件卸载时清理资源
   useEffect(() => {
     return () => {
       if (isRunningRef.current) {
         rtos.stop();
-        stopCapture();
       }
     };
   }, []);
@@ -85,8 +87,7 @@ return taskHandle;`);
     rtos.start();
     setIsRunning(true);
     isRunningRef.current = true;
-    startCapture(); // 开始捕获 console.log
-    console.log('🚀 系统已启动');
+    addLog('🚀 系统已启动');
     updateStatus();
   };
 
@@ -94,24 +95,25 @@ return taskHandle;`);
     rtos.stop();
     setIsRunning(false);
     isRunningRef.current = false;
-    stopCapture(); // 停止捕获 console.log
-    console.log('⏹️ 系统已停止');
+    addLog('⏹️ 系统已停止');
     updateStatus();
   };
 
   const createSuspendableTask = () => {
     if (!isRunningRef.current) {
-      console.log('❌ 请先启动系统');
+      addLog('❌ 请先启动系统');
       return;
     }
 
     if (taskHandle) {
-      console.log('❌ 任务已存在，请先删除或等待完成');
+      addLog('❌ 任务已存在，请先删除或等待完成');
       return;
     }
 
+    setTaskError(null);
+
     try {
-      console.log('📝 执行任务代码...');
+      addLog('📝 执行任务代码...');
       
       // 创建一个安全的执行环境，支持任务创建和句柄获取
       const executeCode = new Function('rtos', 'console', 'log', `
@@ -120,7 +122,7 @@ return taskHandle;`);
       
       // 创建 log 函数
       const log = (message: string) => {
-        console.log(`[Task] ${message}`);
+        addLog(`[Task] ${message}`);
       };
       
       // 执行任务代码
@@ -129,12 +131,12 @@ return taskHandle;`);
       // 如果代码返回了句柄，使用它
       if (result && typeof result === 'number') {
         setTaskHandle(result);
-        console.log(`📋 创建任务，句柄: ${result}`);
+        addLog(`📋 创建任务，句柄: ${result}`);
       } else {
         // 如果没有返回句柄，尝试从代码中提取
         // 这里我们需要修改代码，让用户明确返回句柄
-        console.log('❌ 任务创建失败，请确保代码返回任务句柄');
-        console.log('💡 提示：请在代码末尾添加 "return taskHandle;" 或直接返回 rtos.createTask 的结果');
+        addLog('❌ 任务创建失败，请确保代码返回任务句柄');
+        addLog('💡 提示：请在代码末尾添加 "return taskHandle;" 或直接返回 rtos.createTask 的结果');
       }
       
       updateStatus();
@@ -142,52 +144,57 @@ return taskHandle;`);
       // 让出 CPU 给新创建的任务执行
       rtos.yield();
     } catch (error) {
-      console.log(`❌ 执行任务代码出错: ${error}`);
+      if (error instanceof TaskCreationError) {
+        // 任务数、内存或优先级超出限制，已创建的任务保持不变
+        addLog(`❌ 创建任务失败 [${error.code}]: ${error.message}`);
+      } else {
+        addLog(`❌ 执行任务代码出错: ${error}`);
+      }
     }
   };
 
   const suspendTask = () => {
     if (!taskHandle) {
-      console.log('❌ 没有可挂起的任务');
+      addLog('❌ 没有可挂起的任务');
       return;
     }
 
     const success = rtos.suspendTask(taskHandle);
     if (success) {
-      console.log('⏸️ 任务已挂起');
+      addLog('⏸️ 任务已挂起');
     } else {
-      console.log('❌ 挂起任务失败');
+      addLog('❌ 挂起任务失败');
     }
     updateStatus();
   };
 
   const resumeTask = () => {
     if (!taskHandle) {
-      console.log('❌ 没有可恢复的任务');
+      addLog('❌ 没有可恢复的任务');
       return;
     }
 
     const success = rtos.resumeTask(taskHandle);
     if (success) {
-      console.log('▶️ 任务已恢复');
+      addLog('▶️ 任务已恢复');
     } else {
-      console.log('❌ 恢复任务失败');
+      addLog('❌ 恢复任务失败');
     }
     updateStatus();
   };
 
   const deleteTask = () => {
     if (!taskHandle) {
-      console.log('❌ 没有可删除的任务');
+      addLog('❌ 没有可删除的任务');
       return;
     }
 
     const success = rtos.deleteTask(taskHandle);
     if (success) {
-      console.log('🗑️ 任务已删除');
+      addLog('🗑️ 任务已删除');
       setTaskHandle(null);
     } else {
-      console.log('❌ 删除任务失败');
+      addLog('❌ 删除任务失败');
     }
     updateStatus();
   };
@@ -195,7 +202,7 @@ return taskHandle;`);
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text).then(() => {
-      console.log('📋 代码已复制到剪贴板');
+      addLog('📋 代码已复制到剪贴板');
     });
   };
 
@@ -229,7 +236,7 @@ return taskHandle;`);
         </Col>
         <Col span={6}>
           <Card>
-            <Statistic title="总任务数" value={status.totalTasks} />
+            <Statistic title="总任务数" value={status.totalTasks} suffix={`/ ${status.maxTasks}`} />
           </Card>
         </Col>
         <Col span={6}>
@@ -302,12 +309,12 @@ return taskHandle;`);
         }
         style={{ marginBottom: 24 }}
       >
-        <TextArea
+        <CodeEditor
           value={taskCode}
-          onChange={(e) => setTaskCode(e.target.value)}
+          onChange={setTaskCode}
+          error={taskError}
           placeholder="输入完整的 rtos.createTask 调用代码..."
           rows={10}
-          style={{ fontFamily: 'Monaco, Consolas, "Courier New", monospace', fontSize: '12px' }}
         />
       </Card>
 
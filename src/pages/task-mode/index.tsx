@@ -1,14 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Card, Button, Space, Statistic, Row, Col, Typography, Alert, Input } from 'antd';
+import { Card, Button, Space, Statistic, Row, Col, Typography, Alert } from 'antd';
 import { PlayCircleOutlined, PauseCircleOutlined, CodeOutlined } from '@ant-design/icons';
-import { RTOS } from '../../../lib/rtos';
+import { RTOS, TaskCreationError } from '../../../lib/rtos';
 import { useLog } from '../../contexts/LogContext';
+import CodeEditor, { useTaskError } from '../../components/CodeEditor';
 import styles from './index.module.css';
 
-const { TextArea } = Input;
-
 const TaskModePage: React.FC = () => {
-  const { startCapture, stopCapture } = useLog();
+  const { addLog, subscribe } = useLog();
   const [isRunning, setIsRunning] = useState(false);
   const isRunningRef = useRef(false);
   
@@ -22,6 +21,7 @@ const TaskModePage: React.FC = () => {
     };
     return new RTOS(config);
   });
+  const [taskError, setTaskError] = useTaskError(rtos);
   const [status, setStatus] = useState(rtos.getSystemStatus());
   
   // 任务代码
@@ -67,12 +67,14 @@ rtos.createTask((rtos) => {
     return () => clearInterval(interval);
   }, [isRunning]);
 
+  // 订阅 RTOS 日志
+  useEffect(() => subscribe(rtos), [rtos, subscribe]);
+
   // 组件卸载时清理资源
   useEffect(() => {
     return () => {
       if (isRunningRef.current) {
         rtos.stop();
-        stopCapture();
       }
     };
   }, []);
@@ -81,8 +83,7 @@ rtos.createTask((rtos) => {
     rtos.start();
     setIsRunning(true);
     isRunningRef.current = true;
-    startCapture();
-    console.log('🚀 系统已启动');
+    addLog('🚀 系统已启动');
     updateStatus();
   };
 
@@ -90,29 +91,29 @@ rtos.createTask((rtos) => {
     rtos.stop();
     setIsRunning(false);
     isRunningRef.current = false;
-    stopCapture();
-    console.log('⏹️ 系统已停止');
+    addLog('⏹️ 系统已停止');
     updateStatus();
   };
 
   const runTaskExample = (yieldAllStatements: boolean) => {
-    console.log(`=== 执行原始代码（${yieldAllStatements ? '全部 yield' : 'delay yield'} 模式） ===`);
+    addLog(`=== 执行原始代码（${yieldAllStatements ? '全部 yield' : 'delay yield'} 模式） ===`);
     
     // 设置 RTOS 的 yield 模式
     rtos.setYieldMode(yieldAllStatements);
     
     // 如果系统没有运行，先启动系统
     if (!isRunningRef.current) {
-      console.log('🚀 自动启动系统以运行任务...');
+      addLog('🚀 自动启动系统以运行任务...');
       rtos.start();
       setIsRunning(true);
       isRunningRef.current = true;
-      startCapture();
     }
     
+    setTaskError(null);
+    
     try {
-      console.log('📝 执行原始代码，RTOS 内部会根据当前模式自动转换...');
-      console.log('当前模式:', rtos.getYieldMode() ? "所有语句转 yield" : "仅 delay 转 yield");
+      addLog('📝 执行原始代码，RTOS 内部会根据当前模式自动转换...');
+      addLog(`当前模式: ${rtos.getYieldMode() ? "所有语句转 yield" : "仅阻塞调用转 yield"}`);
       
       // 创建一个安全的执行环境
       const executeCode = new Function('rtos', 'console', `
@@ -122,10 +123,15 @@ rtos.createTask((rtos) => {
       // 执行原始代码，RTOS 内部会自动转换
       executeCode(rtos, console);
       
-      console.log('✅ 原始代码执行完成，RTOS 内部已自动转换');
+      addLog('✅ 原始代码执行完成，RTOS 内部已自动转换');
       
     } catch (error) {
-      console.log(`❌ 执行原始代码出错: ${error}`);
+      if (error instanceof TaskCreationError) {
+        // 任务数、内存或优先级超出限制，已创建的任务保持不变
+        addLog(`❌ 创建任务失败 [${error.code}]: ${error.message}`);
+      } else {
+        addLog(`❌ 执行原始代码出错: ${error}`);
+      }
     }
     
     updateStatus();
@@ -160,7 +166,7 @@ rtos.createTask((rtos) => {
         </Col>
         <Col span={6}>
           <Card>
-            <Statistic title="总任务数" value={status.totalTasks} />
+            <Statistic title="总任务数" value={status.totalTasks} suffix={`/ ${status.maxTasks}`} />
           </Card>
         </Col>
         <Col span={6}>
@@ -177,9 +183,10 @@ rtos.createTask((rtos) => {
             <Typography.Text type="secondary">
               （可以编辑任务代码，然后点击下方按钮来执行）
             </Typography.Text>
-            <TextArea
+            <CodeEditor
               value={taskCode}
-              onChange={(e) => setTaskCode(e.target.value)}
+              onChange={setTaskCode}
+              error={taskError}
               placeholder="输入包含 rtos.delay() 的任务代码..."
               rows={8}
               style={{ marginTop: 8 }}
@@ -1,15 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Card, Button, Space, Statistic, Row, Col, Typography, Alert, Input } from 'antd';
+import { Card, Button, Space, Statistic, Row, Col, Typography, Alert } from 'antd';
 import { PlayCircleOutlined, PauseCircleOutlined, CodeOutlined } from '@ant-design/icons';
-import { RTOS } from '../../../lib/rtos';
+import { RTOS, TaskCreationError } from '../../../lib/rtos';
 import { SchedulerConfig } from '../../../lib/types';
 import { useLog } from '../../contexts/LogContext';
+import CodeEditor, { useTaskError } from '../../components/CodeEditor';
 import styles from './index.module.css';
 
-const { TextArea } = Input;
-
 const TaskExample: React.FC = () => {
-  const { startCapture, stopCapture } = useLog();
+  const { addLog, subscribe } = useLog();
   
   // 创建独立的 RTOS 实例
   const [rtos] = useState(() => {
@@ -21,6 +20,7 @@ const TaskExample: React.FC = () => {
     };
     return new RTOS(config);
   });
+  const [taskError, setTaskError] = useTaskError(rtos);
   const [isRunning, setIsRunning] = useState(false);
   const [status, setStatus] = useState(rtos.getSystemStatus());
   const isRunningRef = useRef(false);
@@ -59,12 +59,14 @@ rtos.createTask((rtos) => {
     return () => clearInterval(interval);
   }, [isRunning]);
 
+  // 订阅 RTOS 日志
+  useEffect(() => subscribe(rtos), [rtos, subscribe]);
+
   // 组件卸载时清理资源
   useEffect(() => {
     return () => {
       if (isRunningRef.current) {
         rtos.stop();
-        stopCapture();
       }
     };
   }, []);
@@ -73,8 +75,7 @@ rtos.createTask((rtos) => {
     rtos.start();
     setIsRunning(true);
     isRunningRef.current = true;
-    startCapture(); // 开始捕获 console.log
-    console.log('🚀 系统已启动');
+    addLog('🚀 系统已启动');
     updateStatus();
   };
 
@@ -82,26 +83,26 @@ rtos.createTask((rtos) => {
     rtos.stop();
     setIsRunning(false);
     isRunningRef.current = false;
-    stopCapture(); // 停止捕获 console.log
-    console.log('⏹️ 系统已停止');
+    addLog('⏹️ 系统已停止');
     updateStatus();
   };
 
 
   const runTaskExample = () => {
-    console.log('=== 任务调度示例 ===');
+    addLog('=== 任务调度示例 ===');
     
     // 如果系统没有运行，先启动系统
     if (!isRunningRef.current) {
-      console.log('🚀 自动启动系统以运行任务...');
+      addLog('🚀 自动启动系统以运行任务...');
       rtos.start();
       setIsRunning(true);
       isRunningRef.current = true;
-      startCapture(); // 开始捕获 console.log
     }
     
+    setTaskError(null);
+    
     try {
-      console.log('📝 执行原始代码中的任务...');
+      addLog('📝 执行原始代码中的任务...');
       
       // 创建一个安全的执行环境
       const executeCode = new Function('rtos', 'console', `
@@ -112,7 +113,12 @@ rtos.createTask((rtos) => {
       executeCode(rtos, console);
       
     } catch (error) {
-      console.log(`❌ 执行原始代码出错: ${error}`);
+      if (error instanceof TaskCreationError) {
+        // 任务数、内存或优先级超出限制，已创建的任务保持不变
+        addLog(`❌ 创建任务失败 [${error.code}]: ${error.message}`);
+      } else {
+        addLog(`❌ 执行原始代码出错: ${error}`);
+      }
     }
     
     updateStatus();
@@ -148,7 +154,7 @@ rtos.createTask((rtos) => {
         </Col>
         <Col span={6}>
           <Card>
-            <Statistic title="总任务数" value={status.totalTasks} />
+            <Statistic title="总任务数" value={status.totalTasks} suffix={`/ ${status.maxTasks}`} />
           </Card>
         </Col>
         <Col span={6}>
@@ -165,9 +171,10 @@ rtos.createTask((rtos) => {
             <Typography.Text type="secondary">
               （可以编辑任务代码，然后点击"运行任务示例"来执行）
             </Typography.Text>
-            <TextArea
+            <CodeEditor
               value={taskCode}
-              onChange={(e) => setTaskCode(e.target.value)}
+              onChange={setTaskCode}
+              error={taskError}
               placeholder="输入包含 rtos.delay() 的任务代码..."
               rows={8}
               style={{ marginTop: 8 }}
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, Button, Space, Typography, Alert } from 'antd';
+import { PlayCircleOutlined, PauseCircleOutlined, CodeOutlined, ClearOutlined } from '@ant-design/icons';
+import { RTOS, TaskCreationError } from '../../../lib/rtos';
+import { buildTimeline, TimelineRow } from '../../../lib/timeline';
+import { SchedulerConfig } from '../../../lib/types';
+import TimelineChart from '../../components/TimelineChart';
+import { useLog } from '../../contexts/LogContext';
+import CodeEditor, { useTaskError } from '../../components/CodeEditor';
+import styles from './index.module.css';
+
+const TimelinePage: React.FC = () => {
+  const { addLog, subscribe } = useLog();
+
+  // 创建独立的 RTOS 实例，所有语句转 yield 使任务的运行区间可见
+  const [rtos] = useState(() => {
+    const config: SchedulerConfig = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+    };
+    return new RTOS(config, { yieldAllStatements: true });
+  });
+  const [taskError, setTaskError] = useTaskError(rtos);
+  const [trace] = useState(() => rtos.createTraceRecorder());
+  const [isRunning, setIsRunning] = useState(false);
+  const [rows, setRows] = useState<TimelineRow[]>([]);
+  const [currentTick, setCurrentTick] = useState(0);
+  const isRunningRef = useRef(false);
+
+  const [taskCode, setTaskCode] = useState(`// 三个不同优先级的周期任务
+rtos.createTask((rtos) => {
+  while (true) {
+    console.log('🔥 高优先级任务运行');
+    rtos.delay(11);
+  }
+}, 10, 2048, undefined, 'High');
+
+rtos.createTask((rtos) => {
+  while (true) {
+    console.log('⚡ 中优先级任务运行');
+    console.log('⚡ 中优先级任务处理数据');
+    rtos.delay(7);
+  }
+}, 5, 2048, undefined, 'Medium');
+
+rtos.createTask((rtos) => {
+  while (true) {
+    console.log('🐌 低优先级任务运行');
+    console.log('🐌 低优先级任务处理数据');
+    console.log('🐌 低优先级任务保存结果');
+    rtos.delay(3);
+  }
+}, 1, 2048, undefined, 'Low');`);
+
+  // 根据状态变化事件刷新时间线，同一帧内的多个事件合并为一次渲染
+  useEffect(() => {
+    let frame: number | null = null;
+    const refresh = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        const tick = rtos.getTickCount();
+        setRows(buildTimeline(trace.getRecords(), { end: tick + 1 }));
+        setCurrentTick(tick);
+      });
+    };
+
+    trace.start();
+    const unsubscribers = [
+      rtos.events.on('tick', refresh),
+      rtos.events.on('stateChanged', refresh),
+      rtos.events.on('taskCreated', refresh),
+      rtos.events.on('taskDeleted', refresh)
+    ];
+    refresh();
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      trace.stop();
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, [rtos, trace]);
+
+  // 订阅 RTOS 日志
+  useEffect(() => subscribe(rtos), [rtos, subscribe]);
+
+  // 组件卸载时清理资源
+  useEffect(() => {
+    return () => {
+      if (isRunningRef.current) {
+        rtos.stop();
+      }
+    };
+  }, []);
+
+  const startSystem = () => {
+    rtos.start();
+    setIsRunning(true);
+    isRunningRef.current = true;
+    addLog('🚀 系统已启动');
+  };
+
+  const stopSystem = () => {
+    rtos.stop();
+    setIsRunning(false);
+    isRunningRef.current = false;
+    addLog('⏹️ 系统已停止');
+  };
+
+  const runExample = () => {
+    addLog('=== 任务时间线示例 ===');
+
+    // 如果系统没有运行，先启动系统
+    if (!isRunningRef.current) {
+      addLog('🚀 自动启动系统以运行任务...');
+      startSystem();
+    }
+
+    setTaskError(null);
+
+    try {
+      const executeCode = new Function('rtos', 'console', `
+        ${taskCode}
+      `);
+      executeCode(rtos, console);
+    } catch (error) {
+      if (error instanceof TaskCreationError) {
+        // 任务数、内存或优先级超出限制，已创建的任务保持不变
+        addLog(`❌ 创建任务失败 [${error.code}]: ${error.message}`);
+      } else {
+        addLog(`❌ 创建任务时出错: ${error}`);
+      }
+    }
+  };
+
+  const clearTimeline = () => {
+    trace.clear();
+    setRows([]);
+    addLog('🧹 时间线已清空');
+  };
+
+  return (
+    <div className={styles.container}>
+      <Typography.Title level={2}>任务时间线</Typography.Title>
+
+      <Alert
+        message="演示说明"
+        description="按节拍显示每个任务的运行、就绪、阻塞和挂起区间。时间线由内核状态变化事件驱动；滚轮平移，按住 Ctrl 滚动缩放，悬停查看阻塞原因。"
+        type="info"
+        showIcon
+        style={{ marginBottom: 24 }}
+      />
+
+      <Card title="控制面板" style={{ marginBottom: 24 }}>
+        <Space wrap>
+          <Button
+            type="primary"
+            icon={<PlayCircleOutlined />}
+            onClick={startSystem}
+            disabled={isRunning}
+          >
+            启动系统
+          </Button>
+          <Button
+            icon={<PauseCircleOutlined />}
+            onClick={stopSystem}
+            disabled={!isRunning}
+          >
+            停止系统
+          </Button>
+          <Button
+            type="primary"
+            icon={<CodeOutlined />}
+            onClick={runExample}
+          >
+            运行任务
+          </Button>
+          <Button
+            icon={<ClearOutlined />}
+            onClick={clearTimeline}
+          >
+            清空时间线
+          </Button>
+        </Space>
+      </Card>
+
+      <Card title="📊 时间线" style={{ marginBottom: 24 }}>
+        <TimelineChart rows={rows} currentTick={currentTick} />
+      </Card>
+
+      <Card title="📝 任务代码" size="small">
+        <CodeEditor
+          value={taskCode}
+          onChange={setTaskCode}
+          error={taskError}
+          placeholder="输入 rtos.createTask 调用代码..."
+          rows={16}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default TimelinePage;
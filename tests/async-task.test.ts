@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RTOS, RTOSError, VirtualTickSource } from '../lib/rtos';
+import { SchedulerConfig } from '../lib/types';
+
+describe('async 任务', () => {
+  let rtos: RTOS;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource()
+    };
+    rtos = new RTOS(config);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('应该在调度器再次调度任务时恢复 await，并保留闭包', async () => {
+    const ticks: number[] = [];
+    const record = (tick: number) => ticks.push(tick);
+
+    rtos.createTask(async (rtos) => {
+      for (let i = 0; i < 3; i++) {
+        record(rtos.getTickCount());
+        await rtos.delay(2);
+      }
+    }, 1, 2048, undefined, 'Blinker');
+
+    rtos.start();
+    await rtos.stepAsync(6);
+
+    // 任务恢复后在同一步内提交新的延时
+    expect(ticks).toEqual([1, 3, 5]);
+    expect(rtos.getSystemStatus().totalTasks).toBe(2);
+    await rtos.stepAsync(1);
+    expect(rtos.getSystemStatus().totalTasks).toBe(1);
+  });
+
+  it('恢复执行的任务应该在自己的上下文中运行', async () => {
+    rtos = new RTOS({ ...config, stepsPerTick: 2 });
+    const released: string[] = [];
+
+    // 两个任务在同一节拍内先后恢复，释放互斥量要求当前任务是持有者
+    for (const name of ['A', 'B']) {
+      const mutex = rtos.createMutex(name);
+      rtos.createTask(async (rtos) => {
+        await rtos.wait(mutex.take());
+        await rtos.delay(1);
+        if (mutex.give()) {
+          released.push(name);
+        }
+      }, 1, 2048, undefined, name);
+    }
+
+    rtos.start();
+    await rtos.stepAsync(4);
+    expect(released.sort()).toEqual(['A', 'B']);
+  });
+
+  it('实时时钟驱动时任务应该在同一节拍内提交新的请求，低优先级任务照常运行', async () => {
+    let onTick: () => void = () => {};
+    rtos = new RTOS({ ...config, tickSource: { start: (callback) => { onTick = callback; }, stop: () => {} } });
+    const ticks: number[] = [];
+    const background = { runs: 0 };
+
+    rtos.createTask(async (rtos) => {
+      for (let i = 0; i < 3; i++) {
+        ticks.push(rtos.getTickCount());
+        await rtos.delay(2);
+      }
+    }, 2, 2048, undefined, 'Blinker');
+    rtos.createTask((rtos, background) => {
+      for (;;) {
+        background.runs++;
+        rtos.yield();
+      }
+    }, 1, 2048, background, 'Background');
+
+    rtos.start();
+    // 等待 async 任务期间到达的节拍在当前节拍结束后补上
+    for (let i = 0; i < 6; i++) {
+      onTick();
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(rtos.getTickCount()).toBe(6);
+    expect(ticks).toEqual([1, 3, 5]);
+    expect(background.runs).toBe(3);
+  });
+
+  it('有 async 任务时同步推进应该被拒绝', () => {
+    rtos.createTask(async (rtos) => {
+      await rtos.delay(2);
+    }, 1, 2048, undefined, 'Worker');
+    rtos.start();
+
+    for (const advance of [() => rtos.step(10), () => rtos.runUntilIdle(50), () => rtos.runUntilTick(5)]) {
+      expect(advance).toThrowError(RTOSError);
+      expect(advance).toThrow('use advanceAsync instead');
+    }
+    expect(rtos.getTickCount()).toBe(0);
+  });
+
+  it('应该通过 wait 等待内核对象，与 Generator 任务通信', async () => {
+    const queue = rtos.createQueue<number>(2, 'Inbox');
+    const received: number[] = [];
+
+    rtos.createTask(async (rtos) => {
+      while (received.length < 3) {
+        received.push(await rtos.wait<number>(queue.receive()));
+      }
+    }, 2, 2048, undefined, 'Consumer');
+    // 转换模式的任务没有闭包，通过任务参数传入队列
+    rtos.createTask((rtos, queue) => {
+      for (let i = 1; i <= 3; i++) {
+        queue.send(i * 10);
+        rtos.delay(1);
+      }
+    }, 1, 2048, queue, 'Producer');
+
+    rtos.start();
+    await rtos.stepAsync(20);
+    expect(received).toEqual([10, 20, 30]);
+  });
+
+  it('应该支持按选项把返回 Promise 的普通函数作为 async 任务', async () => {
+    const steps: string[] = [];
+    // 模拟编译为 ES5 后的代码：不是原生 async 函数，toString 也无法被解析器转换
+    const compiled = function (rtos: any) {
+      steps.push('start');
+      return rtos.delay(1).then(() => steps.push('resumed'));
+    };
+
+    rtos.createTask(compiled as any, 1, 2048, undefined, 'Compiled', { mode: 'async' });
+    rtos.start();
+    await rtos.stepAsync(4);
+
+    expect(steps).toEqual(['start', 'resumed']);
+    expect(rtos.getSystemStatus().totalTasks).toBe(1);
+  });
+
+  it('任务抛出异常时应该报告错误并删除任务', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onError = vi.fn();
+    rtos.events.on('taskError', onError);
+
+    const handle = rtos.createTask(async (rtos) => {
+      await rtos.delay(1);
+      throw new Error('boom');
+    }, 1, 2048, undefined, 'Faulty');
+    rtos.start();
+    await rtos.stepAsync(5);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ handle, name: 'Faulty' }));
+    expect(rtos.getTaskInfo(handle)).toBeNull();
+    errorSpy.mockRestore();
+  });
+
+  it('同时等待多个内核请求应该被拒绝', async () => {
+    let error: unknown;
+    rtos.createTask(async (rtos) => {
+      const first = rtos.delay(1);
+      await rtos.delay(2).catch(e => {
+        error = e;
+      });
+      await first;
+    }, 1);
+    rtos.start();
+    await rtos.stepAsync(3);
+
+    expect(error).toBeInstanceOf(RTOSError);
+    expect((error as RTOSError).code).toBe('INVALID_CONTEXT');
+  });
+
+  it('应该拒绝无效的任务模式', () => {
+    expect(() => rtos.createTask(() => {}, 1, 2048, undefined, 'Bad', { mode: 'thread' as any })).toThrow('Invalid task mode: thread');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { VirtualTickSource } from '../lib/clock';
+import { SchedulerConfig, TaskState } from '../lib/types';
+
+const BIT_A = 0b001;
+const BIT_B = 0b010;
+const BIT_C = 0b100;
+
+describe('EventGroup', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+    };
+    scheduler = new Scheduler(config);
+  });
+
+  describe('基本功能', () => {
+    it('应该能够设置和清除事件位', () => {
+      const group = scheduler.createEventGroup();
+      expect(group.name).toBe('EventGroup_1');
+
+      expect(group.setBits(BIT_A | BIT_C)).toBe(0b101);
+      expect(group.clearBits(BIT_A)).toBe(0b101);
+      expect(group.getBits()).toBe(BIT_C);
+    });
+
+    it('应该拒绝无效的等待位', () => {
+      const group = scheduler.createEventGroup();
+      expect(() => group.waitBits(0)).toThrow('Invalid event group bits: 0');
+    });
+  });
+
+  describe('等待语义', () => {
+    it('任意一位满足时应该唤醒并返回事件位', () => {
+      const group = scheduler.createEventGroup('Flags');
+      let result: number | undefined;
+
+      const waiter = scheduler.createTask('Waiter', function* () {
+        result = yield group.waitBits(BIT_A | BIT_B);
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(scheduler.getTaskInfo(waiter)?.blockedOn).toBe('eventgroup:Flags');
+
+      group.setBits(BIT_B | BIT_C);
+      scheduler.runUntilIdle();
+
+      expect(result).toBe(BIT_B | BIT_C);
+      // 默认退出时清除等待的位，未等待的位保留
+      expect(group.getBits()).toBe(BIT_C);
+    });
+
+    it('waitForAll 应该等待所有位', () => {
+      const group = scheduler.createEventGroup();
+      let result: number | undefined;
+
+      const waiter = scheduler.createTask('Waiter', function* () {
+        result = yield group.waitBits(BIT_A | BIT_B, { waitForAll: true, clearOnExit: false });
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+
+      group.setBits(BIT_A);
+      scheduler.advance(1);
+      expect(scheduler.getTaskInfo(waiter)?.state).toBe(TaskState.BLOCKED);
+
+      group.setBits(BIT_B);
+      scheduler.runUntilIdle();
+      expect(result).toBe(BIT_A | BIT_B);
+      expect(group.getBits()).toBe(BIT_A | BIT_B);
+    });
+
+    it('设置事件位应该唤醒所有满足条件的等待任务', () => {
+      const group = scheduler.createEventGroup();
+      const results: Record<string, number> = {};
+
+      scheduler.createTask('WaitA', function* () {
+        results.a = yield group.waitBits(BIT_A);
+      }, 3);
+      scheduler.createTask('WaitAB', function* () {
+        results.ab = yield group.waitBits(BIT_A | BIT_B, { waitForAll: true });
+      }, 2);
+      scheduler.createTask('WaitC', function* () {
+        results.c = yield group.waitBits(BIT_C, { timeout: 20 });
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(3);
+      expect(group.getWaiters()).toHaveLength(3);
+
+      // 所有等待者基于同一事件值判断，清除在最后统一进行
+      expect(group.setBits(BIT_A | BIT_B)).toBe(0);
+      scheduler.advance(3);
+
+      expect(results).toEqual({ a: BIT_A | BIT_B, ab: BIT_A | BIT_B });
+      expect(group.getWaiters()).toHaveLength(1);
+    });
+
+    it('超时应该返回当前事件位', () => {
+      const group = scheduler.createEventGroup();
+      let result: number | undefined;
+
+      scheduler.createTask('Waiter', function* () {
+        result = yield group.waitBits(BIT_A | BIT_B, { waitForAll: true, timeout: 3 });
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+      group.setBits(BIT_A);
+      scheduler.runUntilIdle();
+
+      expect(result).toBe(BIT_A);
+      expect(group.getWaiters()).toEqual([]);
+    });
+
+    it('条件已满足时不应该阻塞', () => {
+      const group = scheduler.createEventGroup();
+      group.setBits(BIT_A);
+      let result: number | undefined;
+
+      scheduler.createTask('Waiter', function* () {
+        result = yield group.waitBits(BIT_A, { timeout: 0 });
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(2);
+      expect(result).toBe(BIT_A);
+      expect(group.getBits()).toBe(0);
+    });
+  });
+
+  describe('任务同步', () => {
+    it('所有参与者到达同步点后才一起继续', () => {
+      const group = scheduler.createEventGroup('Rendezvous');
+      const ALL = BIT_A | BIT_B | BIT_C;
+      const passedAt: Record<string, number> = {};
+
+      const participant = (name: string, bit: number, delayTicks: number) => function* () {
+        yield { delayTicks };
+        const bits: number = yield group.sync(bit, ALL);
+        expect(bits & ALL).toBe(ALL);
+        passedAt[name] = scheduler.getTickCount();
+      };
+
+      scheduler.createTask('A', participant('a', BIT_A, 2), 3);
+      scheduler.createTask('B', participant('b', BIT_B, 5), 2);
+      scheduler.createTask('C', participant('c', BIT_C, 9), 1);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+
+      // C 在第 13 个节拍最后到达同步点，被唤醒的 A、B 在同一节拍内按优先级继续，C 在下一个节拍继续
+      expect(passedAt).toEqual({ a: 13, b: 13, c: 14 });
+      expect(group.getBits()).toBe(0);
+    });
+  });
+});
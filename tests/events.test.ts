@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter, KernelEventBus, formatLogArgs } from '../lib/events';
+import { Scheduler } from '../lib/scheduler';
+import { RTOS } from '../lib/rtos';
+import { VirtualTickSource } from '../lib/clock';
+import { KernelEvents, LogEntry, SchedulerConfig } from '../lib/types';
+
+describe('EventEmitter', () => {
+  it('应该支持订阅、取消订阅和单次订阅', () => {
+    const emitter = new EventEmitter<{ value: number }>();
+    const values: number[] = [];
+    const once: number[] = [];
+
+    const unsubscribe = emitter.on('value', value => values.push(value));
+    emitter.once('value', value => once.push(value));
+    emitter.emit('value', 1);
+    unsubscribe();
+    emitter.emit('value', 2);
+
+    expect(values).toEqual([1]);
+    expect(once).toEqual([1]);
+    expect(emitter.listenerCount('value')).toBe(0);
+  });
+
+  it('监听器出错不应该影响其他监听器', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const emitter = new EventEmitter<{ value: number }>();
+    const listener = vi.fn();
+    emitter.on('value', () => {
+      throw new Error('boom');
+    });
+    emitter.on('value', listener);
+
+    emitter.emit('value', 1);
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(errorSpy).toHaveBeenCalledWith('事件 value 的监听器执行出错:', expect.any(Error));
+  });
+});
+
+describe('KernelEventBus', () => {
+  it('日志应该写入所有输出端并记录节拍', () => {
+    const entries: LogEntry[] = [];
+    const bus = new KernelEventBus([entry => entries.push(entry)], () => 7);
+    const error = new Error('boom');
+
+    bus.log('error', '出错:', error);
+    expect(entries).toEqual([{ level: 'error', message: '出错:', args: [error], tick: 7 }]);
+
+    const removed: LogEntry[] = [];
+    const remove = bus.addLogSink(entry => removed.push(entry));
+    remove();
+    bus.log('log', '忽略');
+    expect(removed).toEqual([]);
+  });
+
+  it('默认输出端应该输出到 console', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    new KernelEventBus().log('warn', '警告', 1);
+    expect(warnSpy).toHaveBeenCalledWith('警告', 1);
+  });
+
+  it('应该把日志参数格式化为文本', () => {
+    expect(formatLogArgs(['x =', 1, { a: 1 }, null])).toBe('x = 1 {\n  "a": 1\n} null');
+  });
+});
+
+describe('内核事件', () => {
+  let config: SchedulerConfig;
+  let logs: LogEntry[];
+
+  beforeEach(() => {
+    logs = [];
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+      logSinks: [entry => logs.push(entry)]
+    };
+  });
+
+  it('应该发出任务创建、状态变化、上下文切换和完成事件', () => {
+    const scheduler = new Scheduler(config);
+    const events: string[] = [];
+    scheduler.events.on('taskCreated', ({ name, priority }) => events.push(`created:${name}:${priority}`));
+    scheduler.events.on('stateChanged', ({ name, from, to, reason }) => events.push(`${name}:${from}->${to}:${reason}`));
+    scheduler.events.on('taskCompleted', ({ name }) => events.push(`completed:${name}`));
+    scheduler.events.on('taskDeleted', ({ name }) => events.push(`deleted:${name}`));
+    const switches: Array<KernelEvents['contextSwitch']> = [];
+    scheduler.events.on('contextSwitch', event => switches.push(event));
+
+    const handle = scheduler.createTask('Worker', function* () {
+      yield { delayTicks: 2 };
+    }, 1);
+    scheduler.start();
+    scheduler.advance(3);
+
+    expect(events).toEqual([
+      'created:Worker:1',
+      'Worker:ready->running:schedule',
+      'Worker:running->blocked:delay',
+      'IdleTask:ready->running:schedule',
+      'IdleTask:running->ready:yield',
+      'Worker:blocked->ready:delay',
+      'Worker:ready->running:schedule',
+      'completed:Worker',
+      'deleted:Worker'
+    ]);
+    expect(switches[0]).toEqual({ from: null, to: handle, tick: 1 });
+    expect(switches[1]?.from).toBe(handle);
+    expect(logs.map(entry => entry.message)).toEqual(['调度器已启动']);
+  });
+
+  it('应该发出节拍和任务出错事件，错误日志写入输出端而不是 console', () => {
+    const errorSpy = vi.spyOn(console, 'error');
+    const scheduler = new Scheduler(config);
+    const ticks: number[] = [];
+    const errors: unknown[] = [];
+    scheduler.events.on('tick', ({ tickCount }) => ticks.push(tickCount));
+    scheduler.events.on('taskError', ({ error }) => errors.push(error));
+
+    scheduler.createTask('Faulty', function* () {
+      yield;
+      throw new Error('boom');
+    }, 1);
+    scheduler.start();
+    scheduler.advance(3);
+
+    expect(ticks).toEqual([1, 2, 3]);
+    expect(errors).toEqual([expect.objectContaining({ message: 'boom' })]);
+    expect(logs[1]).toMatchObject({ level: 'error', message: 'Generator 任务 Faulty 执行出错:', tick: 2 });
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+
+  it('应该发出内核对象的阻塞、唤醒和超时事件', () => {
+    const scheduler = new Scheduler(config);
+    const queue = scheduler.createQueue<number>(1, 'Inbox');
+    const events: string[] = [];
+    scheduler.events.on('ipc.block', ({ name, object, timeoutTicks }) => events.push(`block:${name}:${object}:${timeoutTicks}`));
+    scheduler.events.on('ipc.wake', ({ name, object }) => events.push(`wake:${name}:${object}`));
+    scheduler.events.on('ipc.timeout', ({ name, object }) => events.push(`timeout:${name}:${object}`));
+
+    scheduler.createTask('Consumer', function* () {
+      yield queue.receive(5);
+      yield queue.receive(2);
+    }, 2);
+    scheduler.createTask('Producer', function* () {
+      yield queue.send(1);
+    }, 1);
+    scheduler.start();
+    scheduler.advance(6);
+
+    expect(events).toEqual([
+      'block:Consumer:queue:Inbox:5',
+      'wake:Consumer:queue:Inbox',
+      'block:Consumer:queue:Inbox:2',
+      'timeout:Consumer:queue:Inbox'
+    ]);
+  });
+
+  it('任务中的 console 和 log 应该写入事件总线', () => {
+    const rtos = new RTOS(config);
+    const messages: string[] = [];
+    rtos.addLogSink(entry => messages.push(`${entry.level}:${entry.message}`));
+
+    rtos.createTask((rtos) => {
+      console.log('开始', 1);
+      log('完成');
+      rtos.delay(1);
+      console.warn('结束');
+    }, 1, undefined, undefined, 'Logger');
+    rtos.start();
+    rtos.step(3);
+
+    expect(messages).toEqual(['log:调度器已启动', 'log:开始 1', 'log:[Logger] 完成', 'warn:结束']);
+  });
+
+  it('解析器的诊断和转换错误应该写入事件总线', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const rtos = new RTOS(config);
+    rtos.setYieldMode(true);
+
+    rtos.createTask((rtos) => {
+      [1, 2].forEach((n) => rtos.delay(n));
+    }, 1, undefined, undefined, 'Callback');
+    // 原生函数的源码无法解析
+    expect(() => rtos.createTask(Math.max as any, 1, undefined, undefined, 'Native')).toThrowError(SyntaxError);
+
+    expect(logs.map(entry => `${entry.level}:${entry.message}`)).toEqual([
+      expect.stringMatching(/^warn:阻塞调用不会阻塞任务 \(匿名函数\).*\(第 \d+ 行，第 \d+ 列\)$/),
+      'error:转换任务 Native 时出错:'
+    ]);
+    expect(warn).not.toHaveBeenCalled();
+    expect(error).not.toHaveBeenCalled();
+    warn.mockRestore();
+    error.mockRestore();
+  });
+});
+
+declare function log(message: string): void;
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { BestFitHeap, BumpHeap, CoalescingHeap, WrappedHeap, createHeap } from '../lib/heap';
+
+describe('Heap', () => {
+  describe('heap_1', () => {
+    it('应该顺序分配并按 8 字节对齐', () => {
+      const heap = new BumpHeap(1024);
+      expect(heap.malloc(10)).toBe(0);
+      expect(heap.malloc(100)).toBe(16);
+      expect(heap.getFreeHeapSize()).toBe(1024 - 16 - 104);
+    });
+
+    it('释放内存不应该回收空间', () => {
+      const heap = new BumpHeap(64);
+      const address = heap.malloc(32)!;
+      heap.free(address);
+
+      expect(heap.getFreeHeapSize()).toBe(32);
+      expect(heap.malloc(40)).toBeNull();
+      expect(heap.getStats().successfulFrees).toBe(0);
+    });
+  });
+
+  describe('heap_2', () => {
+    it('应该选择能容纳请求的最小空闲块', () => {
+      const heap = new BestFitHeap(1024);
+      const a = heap.malloc(120)!;  // 128 字节块
+      heap.malloc(8);
+      const b = heap.malloc(56)!;   // 64 字节块
+      heap.malloc(8);
+      heap.free(a);
+      heap.free(b);
+
+      expect(heap.malloc(40)).toBe(b);
+    });
+
+    it('释放相邻块时不应该合并', () => {
+      const heap = new BestFitHeap(256);
+      const a = heap.malloc(120)!;
+      const b = heap.malloc(120)!;
+      heap.free(a);
+      heap.free(b);
+
+      const stats = heap.getStats();
+      expect(stats.freeSize).toBe(256);
+      expect(stats.freeBlocks).toBe(2);
+      expect(stats.largestFreeBlock).toBe(128);
+      expect(stats.fragmentation).toBeCloseTo(0.5);
+      expect(heap.malloc(200)).toBeNull();
+    });
+  });
+
+  describe('heap_3', () => {
+    it('应该只按请求大小统计用量', () => {
+      const heap = new WrappedHeap(100);
+      const a = heap.malloc(60)!;
+      expect(heap.getFreeHeapSize()).toBe(40);
+      expect(heap.malloc(50)).toBeNull();
+
+      heap.free(a);
+      expect(heap.malloc(100)).not.toBeNull();
+      expect(heap.getMinimumEverFreeHeapSize()).toBe(0);
+    });
+  });
+
+  describe('heap_4', () => {
+    it('应该首次适配并合并相邻空闲块', () => {
+      const heap = new CoalescingHeap([256]);
+      const a = heap.malloc(56)!;
+      const b = heap.malloc(56)!;
+      const c = heap.malloc(56)!;
+      heap.free(a);
+      heap.free(c);
+      expect(heap.getStats().freeBlocks).toBe(2);
+
+      heap.free(b);
+      const stats = heap.getStats();
+      expect(stats.freeBlocks).toBe(1);
+      expect(stats.largestFreeBlock).toBe(256);
+      expect(stats.fragmentation).toBe(0);
+      expect(heap.malloc(240)).toBe(0);
+    });
+
+    it('应该记录历史最小剩余空间', () => {
+      const heap = createHeap('heap_4', 512);
+      const a = heap.malloc(248)!;
+      heap.malloc(56);
+      heap.free(a);
+
+      expect(heap.getFreeHeapSize()).toBe(512 - 64);
+      expect(heap.getMinimumEverFreeHeapSize()).toBe(512 - 256 - 64);
+    });
+
+    it('剩余空间不足一个最小块时应该整块分配', () => {
+      const heap = new CoalescingHeap([64]);
+      heap.malloc(48); // 56 字节块，剩余 8 字节不足以拆分
+      expect(heap.getFreeHeapSize()).toBe(0);
+      expect(heap.getBlocks()).toEqual([{ address: 0, size: 64, region: 0, free: false }]);
+    });
+
+    it('应该拒绝无效的分配和释放', () => {
+      const heap = new CoalescingHeap([64]);
+      expect(() => heap.malloc(0)).toThrow('Invalid allocation size: 0');
+      expect(() => heap.free(123)).toThrow('Invalid free address: 123');
+      expect(() => createHeap('heap_4', -1)).toThrow('Invalid heap size: -1');
+    });
+  });
+
+  describe('heap_5', () => {
+    it('应该从多个区域分配且不跨区域合并', () => {
+      const heap = createHeap('heap_5', 0, [128, 256]);
+      expect(heap.totalSize).toBe(384);
+
+      const a = heap.malloc(120)!;
+      const b = heap.malloc(120)!;
+      expect(heap.getBlocks().find(block => block.address === b)?.region).toBe(1);
+
+      heap.free(a);
+      heap.free(b);
+      const stats = heap.getStats();
+      expect(stats.freeBlocks).toBe(2);
+      expect(stats.largestFreeBlock).toBe(256);
+      expect(heap.malloc(300)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { VirtualTickSource } from '../lib/clock';
+import { RTOSError } from '../lib/errors';
+import { FromISRResult, SchedulerConfig } from '../lib/types';
+
+describe('Interrupt', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+    };
+    scheduler = new Scheduler(config);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('中断触发', () => {
+    it('触发的中断应该在任务的下一步之前执行', () => {
+      const order: string[] = [];
+      scheduler.registerInterrupt(1, 5, () => order.push('ISR'));
+      scheduler.createTask('Task', function* () {
+        while (true) {
+          order.push('Task');
+          yield;
+        }
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(scheduler.triggerInterrupt(1)).toBe(true);
+      expect(order).toEqual(['Task']);
+
+      scheduler.advance(1);
+      expect(order).toEqual(['Task', 'ISR', 'Task']);
+      expect(scheduler.getInterrupts()[0]?.count).toBe(1);
+    });
+
+    it('未注册的中断应该返回 false', () => {
+      expect(scheduler.triggerInterrupt(7)).toBe(false);
+      scheduler.registerInterrupt(7, 1, () => {});
+      expect(scheduler.unregisterInterrupt(7)).toBe(true);
+      expect(scheduler.triggerInterrupt(7)).toBe(false);
+    });
+
+    it('应该按优先级执行同时挂起的中断', () => {
+      const order: number[] = [];
+      scheduler.registerInterrupt(1, 1, irq => order.push(irq));
+      scheduler.registerInterrupt(2, 3, irq => order.push(irq));
+      scheduler.registerInterrupt(3, 2, irq => order.push(irq));
+
+      scheduler.triggerInterrupt(1);
+      scheduler.triggerInterrupt(2);
+      scheduler.triggerInterrupt(3);
+      scheduler.start();
+      scheduler.advance(1);
+      expect(order).toEqual([2, 3, 1]);
+    });
+
+    it('更高优先级的中断应该嵌套执行，较低优先级的中断等待当前中断退出', () => {
+      const order: string[] = [];
+      scheduler.registerInterrupt(1, 1, () => {
+        order.push('low:enter');
+        scheduler.triggerInterrupt(2);
+        order.push('low:exit');
+      });
+      scheduler.registerInterrupt(2, 5, () => {
+        order.push('high:enter');
+        expect(scheduler.isInISR()).toBe(true);
+        scheduler.triggerInterrupt(3);
+        order.push('high:exit');
+      });
+      scheduler.registerInterrupt(3, 3, () => order.push('mid'));
+
+      scheduler.triggerInterrupt(1);
+      scheduler.start();
+      scheduler.advance(1);
+      expect(order).toEqual(['low:enter', 'high:enter', 'high:exit', 'mid', 'low:exit']);
+      expect(scheduler.isInISR()).toBe(false);
+    });
+
+    it('应该支持周期和随机中断源', () => {
+      const random = vi.fn().mockReturnValueOnce(0.9).mockReturnValueOnce(0.1).mockReturnValue(0.9);
+      scheduler.registerInterrupt(1, 1, () => {}, { period: 3 });
+      scheduler.registerInterrupt(2, 1, () => {}, { probability: 0.5, random });
+
+      scheduler.start();
+      scheduler.advance(9);
+      const [periodic, randomSource] = scheduler.getInterrupts();
+      expect(periodic?.count).toBe(3);
+      expect(randomSource?.count).toBe(1);
+    });
+
+    it('中断出错时应该记录错误并继续运行', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      scheduler.registerInterrupt(1, 1, () => {
+        throw new Error('boom');
+      });
+
+      scheduler.triggerInterrupt(1);
+      scheduler.start();
+      scheduler.advance(1);
+      expect(errorSpy).toHaveBeenCalledWith('中断 1 执行出错:', expect.any(Error));
+      expect(scheduler.isInISR()).toBe(false);
+    });
+
+    it('应该拒绝无效的中断参数', () => {
+      expect(() => scheduler.registerInterrupt(-1, 1, () => {})).toThrow('Invalid interrupt number: -1');
+      expect(() => scheduler.registerInterrupt(1, 1.5, () => {})).toThrow('Invalid interrupt priority: 1.5');
+      expect(() => scheduler.registerInterrupt(1, 1, () => {}, { period: 0 })).toThrow('Invalid interrupt period: 0');
+      expect(() => scheduler.registerInterrupt(1, 1, () => {}, { probability: 2 })).toThrow('Invalid interrupt probability: 2');
+    });
+  });
+
+  describe('FromISR 接口', () => {
+    it('唤醒更高优先级的任务时应该在中断退出时切换，即使关闭了抢占', () => {
+      scheduler = new Scheduler({ ...config, preemption: false });
+      const semaphore = scheduler.createBinarySemaphore();
+      const order: string[] = [];
+      let result: FromISRResult | null = null;
+
+      scheduler.registerInterrupt(1, 1, () => {
+        result = scheduler.giveFromISR(semaphore);
+      });
+      scheduler.createTask('Low', function* () {
+        while (true) {
+          order.push('L');
+          yield;
+        }
+      }, 1);
+      scheduler.createTask('High', function* () {
+        yield semaphore.take();
+        order.push('H');
+        yield { delayTicks: 100 };
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(2);
+      scheduler.triggerInterrupt(1);
+      scheduler.advance(2);
+
+      expect(result).toEqual({ success: true, higherPriorityTaskWoken: true });
+      expect(order).toEqual(['L', 'H', 'L']);
+    });
+
+    it('唤醒较低优先级的任务时不应该请求切换', () => {
+      const queue = scheduler.createQueue<number>(1);
+      const received: number[] = [];
+      const results: FromISRResult[] = [];
+
+      scheduler.registerInterrupt(1, 1, () => {
+        results.push(scheduler.sendFromISR(queue, 42));
+        results.push(scheduler.sendFromISR(queue, 43));
+      });
+      scheduler.createTask('Consumer', function* () {
+        const value = yield queue.receive();
+        received.push(value);
+        yield { delayTicks: 100 };
+      }, 1);
+      scheduler.createTask('Busy', function* () {
+        for (let i = 0; i < 3; i++) {
+          yield;
+        }
+        yield { delayTicks: 100 };
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(2);
+      scheduler.triggerInterrupt(1);
+      scheduler.advance(5);
+
+      expect(results).toEqual([
+        { success: true, higherPriorityTaskWoken: false },
+        { success: false, higherPriorityTaskWoken: false }
+      ]);
+      expect(received).toEqual([42]);
+    });
+
+    it('应该能够在中断中发送任务通知', () => {
+      const values: number[] = [];
+      const handle = scheduler.createTask('Waiter', function* () {
+        const value = yield scheduler.notifyWait(0, 0xffffffff, 10);
+        values.push(value);
+      }, 3);
+      scheduler.registerInterrupt(1, 1, () => {
+        scheduler.notifyFromISR(handle, 0x4, 'setBits');
+      }, { period: 2 });
+
+      scheduler.start();
+      scheduler.advance(3);
+      expect(values).toEqual([0x4]);
+    });
+
+    it('在中断之外或超过 maxSyscallInterruptPriority 的中断中调用时应该抛出错误', () => {
+      scheduler = new Scheduler({ ...config, maxSyscallInterruptPriority: 5 });
+      const semaphore = scheduler.createBinarySemaphore();
+      const errors: unknown[] = [];
+
+      expect(() => scheduler.giveFromISR(semaphore)).toThrow(RTOSError);
+      scheduler.registerInterrupt(1, 5, () => scheduler.giveFromISR(semaphore));
+      scheduler.registerInterrupt(2, 6, () => {
+        try {
+          scheduler.giveFromISR(semaphore);
+        } catch (error) {
+          errors.push(error);
+        }
+      });
+
+      scheduler.triggerInterrupt(1);
+      scheduler.triggerInterrupt(2);
+      scheduler.start();
+      scheduler.advance(1);
+      expect(semaphore.getCount()).toBe(1);
+      expect(errors).toHaveLength(1);
+      expect((errors[0] as RTOSError).code).toBe('INVALID_CONTEXT');
+    });
+  });
+});
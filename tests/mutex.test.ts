@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { VirtualTickSource } from '../lib/clock';
+import { SchedulerConfig, TaskHandle } from '../lib/types';
+
+describe('Mutex', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+    };
+    scheduler = new Scheduler(config);
+  });
+
+  /**
+   * 经典优先级反转场景：低优先级任务持有锁，中优先级任务长时间占用 CPU，高优先级任务等待锁
+   */
+  const runInversionScenario = (lock: { take(): any; give(): boolean }) => {
+    const events: string[] = [];
+    const priorities: number[] = [];
+    let lowHandle: TaskHandle = 0;
+
+    scheduler.createTask('High', function* () {
+      yield { delayTicks: 3 };
+      yield lock.take();
+      events.push('high-acquired');
+      lock.give();
+    }, 3);
+    scheduler.createTask('Medium', function* () {
+      yield { delayTicks: 4 };
+      for (let i = 0; i < 20; i++) {
+        yield;
+      }
+      events.push('medium-done');
+    }, 2);
+    lowHandle = scheduler.createTask('Low', function* () {
+      yield lock.take();
+      for (let i = 0; i < 5; i++) {
+        priorities.push(scheduler.getTaskInfo(lowHandle)!.priority);
+        yield;
+      }
+      lock.give();
+      priorities.push(scheduler.getTaskInfo(lowHandle)!.priority);
+      events.push('low-release');
+    }, 1);
+
+    scheduler.start();
+    scheduler.runUntilIdle();
+    return { events, priorities };
+  };
+
+  describe('优先级继承', () => {
+    it('二值信号量作为锁时会发生优先级反转', () => {
+      const semaphore = scheduler.createCountingSemaphore(1, 1);
+      const { events } = runInversionScenario(semaphore);
+      expect(events).toEqual(['medium-done', 'low-release', 'high-acquired']);
+    });
+
+    it('互斥量应该通过优先级继承避免优先级反转', () => {
+      const mutex = scheduler.createMutex();
+      const { events, priorities } = runInversionScenario(mutex);
+      expect(events).toEqual(['low-release', 'high-acquired', 'medium-done']);
+      // 高优先级任务阻塞后，持有者临时继承优先级 3，释放后恢复为 1
+      expect(priorities.slice(-2)).toEqual([3, 1]);
+    });
+
+    it('等待者超时后持有者应该恢复基础优先级', () => {
+      const mutex = scheduler.createMutex('Lock');
+      let highResult: boolean | undefined;
+
+      const low = scheduler.createTask('Low', function* () {
+        yield mutex.take();
+        for (let i = 0; i < 10; i++) {
+          yield;
+        }
+        mutex.give();
+      }, 1);
+      scheduler.createTask('High', function* () {
+        yield { delayTicks: 2 };
+        highResult = yield mutex.take(3);
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(4);
+      expect(scheduler.getTaskInfo(low)?.priority).toBe(5);
+      expect(scheduler.getTaskInfo(low)?.basePriority).toBe(1);
+
+      scheduler.advance(4);
+      expect(highResult).toBe(false);
+      expect(scheduler.getTaskInfo(low)?.priority).toBe(1);
+    });
+
+    it('继承期间修改优先级只影响基础优先级', () => {
+      const mutex = scheduler.createMutex();
+
+      const low = scheduler.createTask('Low', function* () {
+        yield mutex.take();
+        while (true) {
+          yield;
+        }
+      }, 1);
+      scheduler.createTask('High', function* () {
+        yield { delayTicks: 2 };
+        yield mutex.take();
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(4);
+      scheduler.setTaskPriority(low, 2);
+      expect(scheduler.getTaskInfo(low)?.priority).toBe(5);
+      expect(scheduler.getTaskInfo(low)?.basePriority).toBe(2);
+    });
+  });
+
+  describe('持有者语义', () => {
+    it('只有持有者可以释放互斥量', () => {
+      const mutex = scheduler.createMutex();
+      const results: boolean[] = [];
+
+      scheduler.createTask('Owner', function* () {
+        yield mutex.take();
+        yield { delayTicks: 5 };
+        results.push(mutex.give());
+      }, 5);
+      scheduler.createTask('Other', function* () {
+        results.push(mutex.give());
+      }, 1);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(results).toEqual([false, true]);
+      expect(mutex.getHolder()).toBeNull();
+    });
+
+    it('递归互斥量需要相同次数的释放', () => {
+      const mutex = scheduler.createRecursiveMutex('Recursive');
+      const holders: Array<TaskHandle | null> = [];
+      let owner: TaskHandle = 0;
+
+      owner = scheduler.createTask('Owner', function* () {
+        yield mutex.take();
+        yield mutex.take();
+        expect(mutex.getRecursionCount()).toBe(2);
+        mutex.give();
+        holders.push(mutex.getHolder());
+        mutex.give();
+        holders.push(mutex.getHolder());
+      }, 5);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(holders).toEqual([owner, null]);
+    });
+
+    it('非递归互斥量重复获取应该阻塞直到超时', () => {
+      const mutex = scheduler.createMutex();
+      let second: boolean | undefined;
+
+      scheduler.createTask('Owner', function* () {
+        yield mutex.take();
+        second = yield mutex.take(2);
+      }, 5);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(second).toBe(false);
+    });
+
+    it('释放时应该交给优先级最高的等待任务', () => {
+      const mutex = scheduler.createMutex();
+      const order: string[] = [];
+
+      scheduler.createTask('Owner', function* () {
+        yield mutex.take();
+        yield { delayTicks: 5 };
+        mutex.give();
+      }, 10);
+      scheduler.createTask('Low', function* () {
+        yield mutex.take();
+        order.push('low');
+        mutex.give();
+      }, 1);
+      scheduler.createTask('High', function* () {
+        yield mutex.take();
+        order.push('high');
+        mutex.give();
+      }, 3);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(order).toEqual(['high', 'low']);
+    });
+  });
+});
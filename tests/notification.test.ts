@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { VirtualTickSource } from '../lib/clock';
+import { NotifyState, SchedulerConfig, TaskState, TIMEOUT } from '../lib/types';
+
+describe('任务通知', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+    };
+    scheduler = new Scheduler(config);
+  });
+
+  describe('notify', () => {
+    it('应该按动作更新通知值', () => {
+      const handle = scheduler.createTask('Target', function* () {}, 1);
+      const task = () => scheduler.getTaskInfo(handle)!;
+
+      expect(task().notifyState).toBe(NotifyState.NOT_WAITING);
+
+      scheduler.notify(handle, 0b0101, 'setBits');
+      scheduler.notify(handle, 0b0010, 'setBits');
+      expect(task().notifyValue).toBe(0b0111);
+      expect(task().notifyState).toBe(NotifyState.PENDING);
+
+      scheduler.notify(handle, 100, 'increment');
+      expect(task().notifyValue).toBe(0b1000);
+
+      expect(scheduler.notify(handle, 42, 'overwrite')).toBe(true);
+      expect(task().notifyValue).toBe(42);
+    });
+
+    it('noOverwrite 在有未处理的通知时应该失败', () => {
+      const handle = scheduler.createTask('Target', function* () {}, 1);
+
+      expect(scheduler.notify(handle, 1, 'noOverwrite')).toBe(true);
+      expect(scheduler.notify(handle, 2, 'noOverwrite')).toBe(false);
+      expect(scheduler.getTaskInfo(handle)?.notifyValue).toBe(1);
+    });
+
+    it('通知不存在的任务应该返回 false', () => {
+      expect(scheduler.notifyGive(999)).toBe(false);
+    });
+  });
+
+  describe('notifyTake', () => {
+    it('等待通知的任务应该被通知方直接唤醒', () => {
+      const results: number[] = [];
+      const handle = scheduler.createTask('Waiter', function* () {
+        results.push(yield scheduler.notifyTake());
+        results.push(scheduler.getTaskInfo(handle)!.notifyValue);
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(scheduler.getTaskInfo(handle)?.state).toBe(TaskState.BLOCKED);
+      expect(scheduler.getTaskInfo(handle)?.blockedOn).toBe('notification');
+      expect(scheduler.getTaskInfo(handle)?.notifyState).toBe(NotifyState.WAITING);
+
+      scheduler.notifyGive(handle);
+      expect(scheduler.getTaskInfo(handle)?.state).toBe(TaskState.READY);
+
+      scheduler.runUntilIdle();
+      expect(results).toEqual([1, 0]);
+    });
+
+    it('clearOnExit 为 false 时应该作为计数信号量逐个获取', () => {
+      const results: number[] = [];
+      const handle = scheduler.createTask('Counter', function* () {
+        for (let i = 0; i < 3; i++) {
+          results.push(yield scheduler.notifyTake(false));
+        }
+      }, 5);
+
+      scheduler.notifyGive(handle);
+      scheduler.notifyGive(handle);
+      scheduler.notifyGive(handle);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(results).toEqual([3, 2, 1]);
+    });
+
+    it('超时应该返回 0', () => {
+      let result: unknown;
+      let wokenAt = 0;
+      let state: unknown;
+      const handle = scheduler.createTask('Waiter', function* () {
+        result = yield scheduler.notifyTake(true, 3);
+        wokenAt = scheduler.getTickCount();
+        state = scheduler.getTaskInfo(handle)!.notifyState;
+      }, 5);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(result).toBe(0);
+      expect(wokenAt).toBe(4);
+      expect(state).toBe(NotifyState.NOT_WAITING);
+    });
+  });
+
+  describe('notifyWait', () => {
+    it('应该返回通知值并在退出时清除指定位', () => {
+      const results: unknown[] = [];
+      const waiter = scheduler.createTask('Waiter', function* () {
+        results.push(yield scheduler.notifyWait(0, 0b01));
+        results.push(yield scheduler.notifyWait(0, 0, 2));
+        results.push(scheduler.getTaskInfo(waiter)!.notifyValue);
+      }, 5);
+      scheduler.createTask('Notifier', function* () {
+        yield { delayTicks: 2 };
+        scheduler.notify(waiter, 0b11, 'setBits');
+      }, 3);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(results).toEqual([0b11, TIMEOUT, 0b10]);
+    });
+
+    it('已有未处理的通知时不应该阻塞，也不应该在进入时清除', () => {
+      const results: unknown[] = [];
+      const waiter = scheduler.createTask('Waiter', function* () {
+        results.push(yield scheduler.notifyWait(0xff, 0));
+      }, 5);
+
+      scheduler.notify(waiter, 7, 'overwrite');
+      scheduler.start();
+      scheduler.advance(2);
+      expect(results).toEqual([7]);
+    });
+
+    it('没有未处理的通知时应该在进入时清除指定位', () => {
+      const results: unknown[] = [];
+      const waiter = scheduler.createTask('Waiter', function* () {
+        results.push(yield scheduler.notifyWait(0, 0));
+        results.push(yield scheduler.notifyWait(0b100, 0, 0));
+        results.push(scheduler.getTaskInfo(waiter)!.notifyValue);
+      }, 5);
+
+      scheduler.notify(waiter, 0b110, 'setBits');
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(results).toEqual([0b110, TIMEOUT, 0b010]);
+    });
+
+    it('挂起等待通知的任务应该复位通知状态', () => {
+      const handle = scheduler.createTask('Waiter', function* () {
+        yield scheduler.notifyWait();
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(scheduler.getTaskInfo(handle)?.notifyState).toBe(NotifyState.WAITING);
+
+      scheduler.suspendTask(handle);
+      expect(scheduler.getTaskInfo(handle)?.notifyState).toBe(NotifyState.NOT_WAITING);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { RTOSParser } from '../lib/parser';
 
 describe('RTOSParser', () => {
@@ -424,4 +424,337 @@ describe('RTOSParser', () => {
       expect(yieldCount).toBeGreaterThan(0); // 应该有多个 yield
     });
   });
-});
\ No newline at end of file
+
+  describe('队列阻塞调用', () => {
+    it('应该将队列操作转换为 yield', () => {
+      const code = '(rtos, queue) => { const item = queue.receive(10); queue.send(item); }';
+
+      const result = parser.parseAndTransformToGenerator(code);
+      expect(result).toContain('const item = yield queue.receive(10)');
+      expect(result).toContain('yield queue.send(item)');
+    });
+
+    it('应该为表达式中的阻塞调用加括号', () => {
+      const code = '(rtos, queue) => { console.log(queue.receive()); }';
+
+      const result = parser.parseAndTransformToGenerator(code);
+      expect(result).toContain('console.log((yield queue.receive()))');
+    });
+
+    it('应该把接收结果和任务参数传给 Generator', () => {
+      const taskFunction = (rtos, queue) => {
+        const item = queue.receive();
+        rtos.delay(item);
+      };
+
+      const request = { type: 'blocking' };
+      const queue = { receive: () => request };
+      const mockRtos = { delay: (ticks: number) => ({ delayTicks: ticks }) };
+      const transformedFunction = parser.transformTaskFunction(taskFunction);
+      const generator = transformedFunction(mockRtos)(queue);
+
+      expect(generator.next().value).toBe(request);
+      expect(generator.next(7).value.delayTicks).toBe(7);
+    });
+  });
+
+  describe('阻塞调用对象的来源', () => {
+    it('由任务参数得到的局部变量上的阻塞调用应该被转换', () => {
+      const taskFunction = (rtos, p) => {
+        const q = p.q;
+        rtos.delay(1);
+        q.receive();
+      };
+
+      const request = { type: 'blocking' };
+      const mockRtos = { delay: (ticks: number) => ({ delayTicks: ticks }) };
+      const generator = parser.transformTaskFunction(taskFunction)(mockRtos)({ q: { receive: () => request } });
+
+      expect(generator.next().value).toEqual({ delayTicks: 1 });
+      expect(generator.next().value).toBe(request);
+      expect(generator.next().done).toBe(true);
+    });
+
+    it('全局对象和新建对象的同名方法不应该被转换', () => {
+      const code = '(rtos) => { const socket = new WebSocket(url); socket.send(1); channel.send(2); rtos.delay(1); }';
+
+      expect(parser.parseAndTransformToGenerator(code)).toBe(
+        '(rtos) => { const socket = new WebSocket(url); socket.send(1); channel.send(2); yield rtos.delay(1); }'
+      );
+    });
+
+    it('局部函数的参数应该按调用处的实参解析', () => {
+      const code = [
+        '(rtos, p) => {',
+        '  function post(socket, data) { socket.send(data); }',
+        '  function forward(q) { q.send(q.receive()); }',
+        '  post(new WebSocket(url), 1);',
+        '  post(channel, 2);',
+        '  forward(p.inbox);',
+        '}'
+      ].join('\n');
+
+      // 与内核无关的辅助函数保持为普通函数
+      expect(parser.parseAndTransformToGenerator(code)).toBe(code
+        .replace('function forward(q) { q.send(q.receive()); }', 'function* forward(q) { yield q.send((yield q.receive())); }')
+        .replace('  forward(p.inbox);', '  yield* forward(p.inbox);'));
+      expect(parser.getDiagnostics()).toEqual([]);
+    });
+
+    it('无法确定对象来源的阻塞调用应该保持不变并给出警告', () => {
+      const code = '(rtos, p) => {\n  let q;\n  q = p.q;\n  q.receive();\n  this.send(1);\n}';
+
+      expect(parser.parseAndTransformToGenerator(code)).toBe(code);
+      expect(parser.getDiagnostics()).toEqual([
+        { severity: 'warning', message: expect.stringContaining('无法确定阻塞调用的对象 (q.receive)'), line: 4, column: 3 },
+        { severity: 'warning', message: expect.stringContaining('无法确定阻塞调用的对象 (this.send)'), line: 5, column: 3 }
+      ]);
+    });
+  });
+
+  describe('作用域感知的转换', () => {
+    const mockRtos = { delay: (ticks: number) => ({ delayTicks: ticks }) };
+
+    const run = (taskFunction: Function, logs: string[] = []) => {
+      const mockConsole = { log: (...args: any[]) => logs.push(args.join(' ')), error: () => {} };
+      const generator = parser.transformTaskFunction(taskFunction)(mockRtos, mockConsole)();
+      const values: any[] = [];
+      let result = generator.next();
+      while (!result.done) {
+        values.push(result.value);
+        result = generator.next();
+      }
+      return values;
+    };
+
+    it('只应该改名引用 RTOS 参数的标识符，不改字符串和属性名', () => {
+      const logs: string[] = [];
+      const taskFunction = (r) => {
+        const config = { r: 2, label: 'r.delay(r)' };
+        console.log(`r = ${config.r}`, config.label);
+        r.delay(config.r);
+      };
+
+      expect(run(taskFunction, logs)).toEqual([{ delayTicks: 2 }]);
+      expect(logs).toEqual(['r = 2 r.delay(r)']);
+    });
+
+    it('不应该改名被内层绑定遮蔽的同名变量', () => {
+      const taskFunction = (r) => {
+        const double = (r) => r * 2;
+        let total = 0;
+        for (const r of [1, 2]) {
+          total += r;
+        }
+        try {
+          throw 3;
+        } catch (r) {
+          total += double(r);
+        }
+        r.delay(total);
+      };
+
+      expect(run(taskFunction)).toEqual([{ delayTicks: 9 }]);
+    });
+
+    it('应该展开简写属性中的参数引用', () => {
+      const taskFunction = (r) => {
+        const context = { r };
+        r.delay(context.r === r ? 1 : 0);
+      };
+
+      expect(run(taskFunction)).toEqual([{ delayTicks: 1 }]);
+    });
+
+    it('改名会被同名变量捕获时应该改为声明别名', () => {
+      const taskFunction = new Function(`return (r) => {
+        const rtos = 4;
+        r.delay(rtos);
+      }`)();
+
+      expect(run(taskFunction)).toEqual([{ delayTicks: 4 }]);
+    });
+
+    it('应该在每个调用自己的位置插入 yield，不受相同源码和字符串影响', () => {
+      const code = `(rtos) => { rtos.delay(1); console.log('rtos.delay(1)'); rtos.delay(1); }`;
+
+      expect(parser.parseAndTransformToGenerator(code)).toBe(
+        `(rtos) => { yield rtos.delay(1); console.log('rtos.delay(1)'); yield rtos.delay(1); }`
+      );
+    });
+
+    it('应该为起始位置相同的嵌套阻塞调用按外层在前插入 yield', () => {
+      const code = '(rtos, q) => { q.receive().send(1); }';
+
+      expect(parser.parseAndTransformToGenerator(code)).toBe('(rtos, q) => { yield (yield q.receive()).send(1); }');
+    });
+
+    it('应该支持表达式形式的箭头函数和对象方法简写', () => {
+      const arrow = new Function('return (r) => r.delay(6)')();
+      const method = new Function('return { task(r) { r.delay(7); } }.task')();
+
+      expect(run(arrow)).toEqual([{ delayTicks: 6 }]);
+      expect(run(method)).toEqual([{ delayTicks: 7 }]);
+    });
+  });
+
+  describe('局部函数调用图', () => {
+    const mockRtos = { delay: (ticks: number) => ({ delayTicks: ticks }) };
+
+    const collect = (taskFunction: Function, p: RTOSParser = parser) => {
+      const generator = p.transformTaskFunction(taskFunction)(mockRtos)();
+      const values: any[] = [];
+      let result = generator.next();
+      while (!result.done) {
+        values.push(result.value?.delayTicks);
+        result = generator.next();
+      }
+      return values;
+    };
+
+    it('应该把会阻塞的辅助函数转换为 Generator，并用 yield* 调用', () => {
+      const taskFunction = (rtos) => {
+        function blink(times) {
+          for (let i = 0; i < times; i++) {
+            rtos.delay(5);
+          }
+          return times;
+        }
+        const twice = () => blink(1) + blink(1);
+        rtos.delay(twice());
+      };
+
+      expect(collect(taskFunction)).toEqual([5, 5, 2]);
+    });
+
+    it('应该转换循环中定义的闭包和立即调用的函数', () => {
+      const taskFunction = (rtos) => {
+        for (let i = 1; i <= 2; i++) {
+          const step = (n) => rtos.delay(n * i);
+          step(10);
+        }
+        (() => {
+          rtos.delay(3);
+        })();
+      };
+
+      expect(collect(taskFunction)).toEqual([10, 20, 3]);
+    });
+
+    it('不阻塞的辅助函数应该保持不变', () => {
+      const code = '(rtos) => { const add = (a, b) => a + b; rtos.delay(add(1, 2)); }';
+
+      expect(parser.parseAndTransformToGenerator(code)).toBe('(rtos) => { const add = (a, b) => a + b; yield rtos.delay(add(1, 2)); }');
+    });
+
+    it('yieldAllStatements 模式下应该只在 Generator 函数中插入 yield', () => {
+      const parserWithYieldAll = new RTOSParser({ yieldAllStatements: true });
+      const code = '(rtos) => { const log = (m) => { console.log(m); }; function wait() { log("wait"); rtos.delay(1); } wait(); }';
+
+      expect(parserWithYieldAll.parseAndTransformToGenerator(code)).toBe(
+        '(rtos) => { const log = (m) => { console.log(m); }; function* wait() { yield log("wait"); yield rtos.delay(1); } yield* wait(); }'
+      );
+    });
+
+    it('作为回调传递的阻塞函数应该给出警告而不是生成语法错误', () => {
+      const taskFunction = (rtos) => {
+        [1, 2].forEach((n) => rtos.delay(n));
+        rtos.delay(7);
+      };
+
+      expect(collect(taskFunction)).toEqual([7]);
+      expect(parser.getDiagnostics()).toEqual([
+        expect.objectContaining({ message: expect.stringContaining('阻塞调用不会阻塞任务 (匿名函数)') })
+      ]);
+    });
+
+    it('使用外层 this 或 arguments 的箭头函数不应该转换，并给出警告', () => {
+      const code = [
+        '(rtos) => {',
+        '  const wait = () => rtos.delay(arguments.length);',
+        '  const mark = () => { this.ready = true; rtos.delay(1); };',
+        '  const ok = () => { function f() { return this; } rtos.delay(f()); };',
+        '  wait();',
+        '  mark();',
+        '  ok();',
+        '}'
+      ].join('\n');
+
+      expect(parser.parseAndTransformToGenerator(code)).toBe(code
+        .replace('const ok = () => {', 'const ok = function* () {')
+        .replace('rtos.delay(f())', 'yield rtos.delay(f())')
+        .replace('  ok();', '  yield* ok();'));
+      expect(parser.getDiagnostics()).toEqual([
+        expect.objectContaining({ message: expect.stringContaining('阻塞调用不会阻塞任务 (wait)：箭头函数使用了外层的 this 或 arguments'), line: 2, column: 16 }),
+        expect.objectContaining({ message: expect.stringContaining('阻塞调用不会阻塞任务 (mark)：箭头函数使用了外层的 this 或 arguments'), line: 3, column: 16 })
+      ]);
+    });
+  });
+
+  describe('阻塞 API 注册表', () => {
+    it('应该把毫秒延时和让出 CPU 转换为 yield', () => {
+      const code = '(rtos) => { rtos.delayMs(500); rtos.yield(); rtos.delayUntil(20); }';
+
+      expect(parser.parseAndTransformToGenerator(code)).toBe(
+        '(rtos) => { yield rtos.delayMs(500); yield rtos.yield(); yield rtos.delayUntil(20); }'
+      );
+    });
+
+    it('应该支持自定义阻塞 API', () => {
+      const custom = new RTOSParser({ blockingCalls: ['delay'] });
+      custom.registerBlockingCall('acquire');
+      const code = '(rtos, pool) => { pool.acquire(); rtos.delayMs(5); rtos.delay(1); }';
+
+      expect(custom.getBlockingCalls()).toEqual(['delay', 'acquire']);
+      expect(custom.parseAndTransformToGenerator(code)).toBe('(rtos, pool) => { yield pool.acquire(); rtos.delayMs(5); yield rtos.delay(1); }');
+      expect(() => custom.registerBlockingCall('a.b')).toThrow('Invalid blocking call: a.b');
+    });
+
+    it('应该识别阻塞 API 的别名并保留 this', () => {
+      const mockRtos = {
+        ticks: 4,
+        delay(ticks: number) { return { delayTicks: ticks * this.ticks }; },
+        delayMs(ms: number) { return { delayTicks: ms / 1000 * this.ticks }; }
+      };
+      const taskFunction = (r) => {
+        const d = r.delay;
+        const bound = r.delay.bind(r);
+        const { delayMs: wait } = r;
+        d(1);
+        bound(2);
+        wait(500);
+      };
+
+      const generator = parser.transformTaskFunction(taskFunction)(mockRtos)();
+      expect(generator.next().value).toEqual({ delayTicks: 4 });
+      expect(generator.next().value).toEqual({ delayTicks: 8 });
+      expect(generator.next().value).toEqual({ delayTicks: 2 });
+      expect(generator.next().done).toBe(true);
+    });
+
+    it('被遮蔽的别名不应该被转换', () => {
+      const code = '(rtos) => { const d = rtos.delay; { const d = (n) => n; d(1); } d(2); }';
+
+      expect(parser.parseAndTransformToGenerator(code)).toBe(
+        '(rtos) => { const d = rtos.delay.bind(rtos); { const d = (n) => n; d(1); } yield d(2); }'
+      );
+    });
+
+    it('无法识别的 await 应该产生警告诊断，并交给诊断输出端而不是控制台', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const onDiagnostic = vi.fn();
+      const code = '(rtos) => {\n  async function load() {\n    await fetch("/data");\n  }\n  load();\n  rtos.delay(1);\n}';
+
+      parser = new RTOSParser({ onDiagnostic });
+      parser.parseAndTransformToGenerator(code);
+      const diagnostics = [
+        { severity: 'warning', message: expect.stringContaining('无法识别的 await 不会阻塞任务 (fetch("/data"))'), line: 3, column: 5 }
+      ];
+      expect(parser.getDiagnostics()).toEqual(diagnostics);
+      expect(onDiagnostic.mock.calls).toEqual([diagnostics]);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { VirtualTickSource } from '../lib/clock';
+import { EDFPolicy, FixedPriorityPolicy, RMSPolicy } from '../lib/policy';
+import { SchedulerConfig, SchedulingPolicy } from '../lib/types';
+
+describe('SchedulingPolicy', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // 每个作业执行 wcet 步，然后延时到下一个周期 (任务在节拍 0 创建，第一个作业在节拍 1 释放)
+  const periodicTask = (period: number, wcet: number) => function* () {
+    let release = 1;
+    while (true) {
+      for (let i = 1; i < wcet; i++) {
+        yield;
+      }
+      release += period;
+      yield scheduler.delayUntil(release);
+    }
+  };
+
+  // 利用率为 100% 的任务集：EDF 可调度，RMS 不可调度
+  const runTaskSet = (policy: SchedulingPolicy, ticks: number) => {
+    scheduler = new Scheduler({ ...config, schedulingPolicy: policy });
+    const t1 = scheduler.createTask('T1', periodicTask(4, 2), 1, undefined, undefined, { period: 4, wcet: 2 });
+    const t2 = scheduler.createTask('T2', periodicTask(6, 3), 1, undefined, undefined, { period: 6, wcet: 3 });
+    scheduler.start();
+    scheduler.advance(ticks);
+
+    const report = scheduler.getDeadlineReport();
+    const misses = (handle: number) => report.tasks.find(task => task.handle === handle)!.deadlineMisses;
+    return { report, t1: misses(t1), t2: misses(t2) };
+  };
+
+  describe('任务实时参数', () => {
+    it('应该为周期任务按周期释放作业', () => {
+      scheduler = new Scheduler(config);
+      const handle = scheduler.createTask('Periodic', periodicTask(5, 1), 3, undefined, undefined, { period: 5, wcet: 1 });
+
+      scheduler.start();
+      scheduler.advance(12);
+
+      const timing = scheduler.getTaskInfo(handle)?.timing;
+      expect(timing?.deadline).toBe(5);
+      expect(timing?.jobsReleased).toBe(3); // 节拍 1、6、11
+      expect(timing?.jobsCompleted).toBe(3);
+      expect(timing?.deadlineMisses).toBe(0);
+    });
+
+    it('只有截止时间的任务应该只释放一个作业', () => {
+      scheduler = new Scheduler(config);
+      const handle = scheduler.createTask('OneShot', function* () {
+        for (let i = 0; i < 5; i++) {
+          yield;
+        }
+        yield { delayTicks: 100 };
+      }, 3, undefined, undefined, { deadline: 3 });
+
+      scheduler.start();
+      scheduler.advance(10);
+
+      const timing = scheduler.getTaskInfo(handle)?.timing;
+      expect(timing?.period).toBeNull();
+      expect(timing?.jobsReleased).toBe(1);
+      expect(timing?.jobsCompleted).toBe(1);
+      expect(timing?.deadlineMisses).toBe(1);
+      expect(timing?.lastMissTick).toBe(4);
+      expect(console.warn).toHaveBeenCalledWith('任务 OneShot 错过截止时间 (释放于节拍 1，截止节拍 4)');
+    });
+
+    it('应该拒绝无效的实时参数', () => {
+      scheduler = new Scheduler(config);
+      const task = function* () {};
+      expect(() => scheduler.createTask('Bad', task, 1, undefined, undefined, { period: 0 }))
+        .toThrow('Invalid task period: 0');
+      expect(() => scheduler.createTask('Bad', task, 1, undefined, undefined, { wcet: 2 }))
+        .toThrow('Invalid task options: wcet requires a period or deadline');
+    });
+  });
+
+  describe('调度策略比较', () => {
+    it('EDF 应该能够调度利用率为 100% 的任务集', () => {
+      const { report, t1, t2 } = runTaskSet(new EDFPolicy(), 24);
+      expect(report.policy).toBe('EDF');
+      expect(report.utilization).toBeCloseTo(1);
+      expect(t1).toBe(0);
+      expect(t2).toBe(0);
+    });
+
+    it('RMS 下周期较长的任务应该错过截止时间', () => {
+      const { report, t1, t2 } = runTaskSet(new RMSPolicy(), 24);
+      expect(report.policy).toBe('RMS');
+      expect(t1).toBe(0);
+      expect(t2).toBeGreaterThan(0);
+    });
+
+    it('固定优先级应该由任务优先级决定谁错过截止时间', () => {
+      scheduler = new Scheduler({ ...config, schedulingPolicy: new FixedPriorityPolicy() });
+      const t1 = scheduler.createTask('T1', periodicTask(4, 2), 1, undefined, undefined, { period: 4, wcet: 2 });
+      scheduler.createTask('T2', periodicTask(6, 3), 2, undefined, undefined, { period: 6, wcet: 3 });
+      scheduler.start();
+      scheduler.advance(5);
+
+      expect(scheduler.getTaskInfo(t1)?.timing?.deadlineMisses).toBe(1);
+    });
+
+    it('RMS 应该让周期较短的任务先运行，与优先级无关', () => {
+      scheduler = new Scheduler({ ...config, schedulingPolicy: new RMSPolicy() });
+      const order: string[] = [];
+      scheduler.createTask('Slow', function* () {
+        order.push('Slow');
+        yield { delayTicks: 100 };
+      }, 9, undefined, undefined, { period: 100 });
+      scheduler.createTask('Fast', function* () {
+        order.push('Fast');
+        yield { delayTicks: 100 };
+      }, 1, undefined, undefined, { period: 10 });
+
+      scheduler.start();
+      scheduler.advance(2);
+      expect(order).toEqual(['Fast', 'Slow']);
+    });
+
+    it('EDF 下非实时任务应该在没有未完成作业时运行', () => {
+      scheduler = new Scheduler({ ...config, schedulingPolicy: new EDFPolicy() });
+      const order: string[] = [];
+      scheduler.createTask('Background', function* () {
+        while (true) {
+          order.push('B');
+          yield;
+        }
+      }, 9);
+      scheduler.createTask('RealTime', function* () {
+        order.push('R');
+        yield;
+        order.push('R');
+        yield { delayTicks: 100 };
+      }, 1, undefined, undefined, { deadline: 5 });
+
+      scheduler.start();
+      scheduler.advance(4);
+      expect(order).toEqual(['R', 'R', 'B', 'B']);
+    });
+  });
+});
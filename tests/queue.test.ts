@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { VirtualTickSource } from '../lib/clock';
+import { SchedulerConfig, TaskState, TIMEOUT } from '../lib/types';
+
+describe('Queue', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+    };
+    scheduler = new Scheduler(config);
+  });
+
+  describe('基本功能', () => {
+    it('应该能够创建队列', () => {
+      const queue = scheduler.createQueue(3);
+      expect(queue.length).toBe(3);
+      expect(queue.name).toBe('Queue_1');
+      expect(queue.messagesWaiting()).toBe(0);
+      expect(queue.spacesAvailable()).toBe(3);
+    });
+
+    it('应该拒绝无效的队列长度', () => {
+      expect(() => scheduler.createQueue(0)).toThrow('Invalid queue length: 0');
+    });
+
+    it('应该按 FIFO 顺序收发消息', () => {
+      const queue = scheduler.createQueue<number>(5);
+      const received: number[] = [];
+
+      scheduler.createTask('Producer', function* () {
+        yield queue.send(1);
+        yield queue.send(2);
+        yield queue.sendToFront(0);
+      }, 5);
+      scheduler.createTask('Consumer', function* () {
+        for (let i = 0; i < 3; i++) {
+          received.push(yield queue.receive());
+        }
+      }, 3);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(received).toEqual([0, 1, 2]);
+    });
+
+    it('peek 不应该移除消息', () => {
+      const queue = scheduler.createQueue<string>(1);
+      const results: string[] = [];
+
+      scheduler.createTask('Reader', function* () {
+        yield queue.send('hello');
+        results.push(yield queue.peek());
+        results.push(yield queue.receive());
+      }, 5);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(results).toEqual(['hello', 'hello']);
+      expect(queue.messagesWaiting()).toBe(0);
+    });
+  });
+
+  describe('阻塞语义', () => {
+    it('接收空队列时任务应该阻塞在队列上', () => {
+      const queue = scheduler.createQueue(1, 'Inbox');
+      const handle = scheduler.createTask('Consumer', function* () {
+        yield queue.receive();
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+
+      const task = scheduler.getTaskInfo(handle);
+      expect(task?.state).toBe(TaskState.BLOCKED);
+      expect(task?.blockedOn).toBe('queue:Inbox');
+      expect(queue.getReceiveWaiters()).toEqual([handle]);
+    });
+
+    it('应该按优先级唤醒等待的接收任务', () => {
+      const queue = scheduler.createQueue<string>(2);
+      const order: string[] = [];
+
+      scheduler.createTask('Low', function* () {
+        order.push(`low:${yield queue.receive()}`);
+      }, 1);
+      scheduler.createTask('High', function* () {
+        order.push(`high:${yield queue.receive()}`);
+      }, 3);
+      scheduler.createTask('Producer', function* () {
+        yield { delayTicks: 5 };
+        yield queue.send('a');
+        yield queue.send('b');
+      }, 2);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(order).toEqual(['high:a', 'low:b']);
+    });
+
+    it('队列满时发送任务应该阻塞直到有空位', () => {
+      const queue = scheduler.createQueue<number>(1);
+      const sendResults: boolean[] = [];
+
+      const producer = scheduler.createTask('Producer', function* () {
+        sendResults.push(yield queue.send(1));
+        sendResults.push(yield queue.send(2));
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(3);
+      expect(scheduler.getTaskInfo(producer)?.state).toBe(TaskState.BLOCKED);
+      expect(queue.getSendWaiters()).toEqual([producer]);
+
+      scheduler.createTask('Consumer', function* () {
+        yield queue.receive();
+      }, 1);
+      scheduler.runUntilIdle();
+
+      expect(sendResults).toEqual([true, true]);
+      expect(queue.messagesWaiting()).toBe(1);
+    });
+
+    it('接收超时应该返回 TIMEOUT', () => {
+      const queue = scheduler.createQueue(1);
+      let result: unknown;
+      let wokenAt = 0;
+
+      scheduler.createTask('Consumer', function* () {
+        result = yield queue.receive(3);
+        wokenAt = scheduler.getTickCount();
+      }, 5);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(result).toBe(TIMEOUT);
+      expect(wokenAt).toBe(4);
+      expect(queue.getReceiveWaiters()).toEqual([]);
+    });
+
+    it('超时为 0 时不应该阻塞', () => {
+      const queue = scheduler.createQueue(1);
+      const results: unknown[] = [];
+
+      scheduler.createTask('Poller', function* () {
+        results.push(yield queue.receive(0));
+        results.push(yield queue.send('x', 0));
+        results.push(yield queue.send('y', 0));
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(4);
+      expect(results).toEqual([TIMEOUT, true, false]);
+    });
+
+    it('删除等待中的任务应该将其移出等待列表', () => {
+      const queue = scheduler.createQueue(1);
+      const handle = scheduler.createTask('Consumer', function* () {
+        yield queue.receive();
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(queue.getReceiveWaiters()).toEqual([handle]);
+
+      scheduler.deleteTask(handle);
+      expect(queue.getReceiveWaiters()).toEqual([]);
+    });
+  });
+});
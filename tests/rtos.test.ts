@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { RTOS } from '../lib/rtos';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EDFPolicy, RTOS, VirtualTickSource } from '../lib/rtos';
 import { SchedulerConfig } from '../lib/types';
 
 describe('RTOS', () => {
@@ -48,6 +48,21 @@ describe('RTOS', () => {
   });
 
   describe('任务管理', () => {
+    it('无法确定阻塞调用对象的任务应该照常创建，并产生警告诊断', () => {
+      const handle = rtos.createTask(function (this: any, rtos) {
+        let q;
+        q = rtos.createQueue(1);
+        q.send(1);
+        this.send(1);
+      }, 5, 2048, undefined, 'Unresolved');
+
+      expect(rtos.getTaskInfo(handle)?.name).toBe('Unresolved');
+      expect(rtos.getParserDiagnostics().map(diagnostic => diagnostic.message)).toEqual([
+        expect.stringContaining('无法确定阻塞调用的对象 (q.send)'),
+        expect.stringContaining('无法确定阻塞调用的对象 (this.send)')
+      ]);
+    });
+
     it('应该能够创建任务', () => {
       const taskHandle = rtos.createTask(
         () => {
@@ -242,4 +257,205 @@ describe('RTOS', () => {
     });
   });
 
+  describe('虚拟时钟', () => {
+    it('应该能够通过 step 复现调度顺序', () => {
+      // 任务函数会被序列化后重新生成，无法捕获闭包变量，因此通过 console.log 记录执行顺序
+      const run = () => {
+        const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+        const virtualRtos = new RTOS({ ...config, tickSource: new VirtualTickSource() });
+        virtualRtos.createTask((rtos) => {
+          console.log('high-1');
+          rtos.delay(2);
+          console.log('high-2');
+        }, 10, 2048, undefined, 'High');
+        virtualRtos.createTask((rtos) => {
+          console.log('low-1');
+          rtos.delay(1);
+          console.log('low-2');
+        }, 1, 2048, undefined, 'Low');
+        virtualRtos.start();
+        virtualRtos.step(10);
+        virtualRtos.stop();
+        const order = logSpy.mock.calls
+          .map(args => args[0])
+          .filter(message => /^(high|low)-/.test(message));
+        logSpy.mockRestore();
+        return order;
+      };
+
+      const first = run();
+      expect(first).toEqual(['high-1', 'low-1', 'high-2', 'low-2']);
+      expect(run()).toEqual(first);
+    });
+
+    it('应该能够运行到系统空闲', () => {
+      const virtualRtos = new RTOS({ ...config, tickSource: new VirtualTickSource() });
+      virtualRtos.createTask((rtos) => {
+        rtos.delay(5);
+      }, 5, 2048, undefined, 'Sleeper');
+
+      virtualRtos.start();
+      virtualRtos.runUntilIdle();
+      expect(virtualRtos.getSystemStatus().totalTasks).toBe(1);
+
+      virtualRtos.runUntilTick(20);
+      expect(virtualRtos.getTickCount()).toBe(20);
+      virtualRtos.stop();
+    });
+
+    it('毫秒延时和延时的别名应该阻塞任务', () => {
+      const virtualRtos = new RTOS({ ...config, tickSource: new VirtualTickSource() });
+      virtualRtos.createTask((rtos) => {
+        const { delayMs } = rtos;
+        const d = rtos.delay;
+        d(2);
+        delayMs(300);
+      }, 5, 2048, undefined, 'Sleeper');
+
+      virtualRtos.start();
+      virtualRtos.step(4);
+      expect(virtualRtos.getSystemStatus().totalTasks).toBe(2);
+      virtualRtos.step(2);
+      expect(virtualRtos.getSystemStatus().totalTasks).toBe(1);
+      virtualRtos.stop();
+    });
+  });
+
+  describe('消息队列', () => {
+    it('应该能够通过任务参数在任务间传递消息', () => {
+      const virtualRtos = new RTOS({ ...config, tickSource: new VirtualTickSource() });
+      const queue = virtualRtos.createQueue<number>(2, 'Numbers');
+      const results = virtualRtos.createQueue<number>(4, 'Results');
+
+      virtualRtos.createTask((rtos, queue) => {
+        for (let i = 1; i <= 3; i++) {
+          queue.send(i);
+          rtos.delay(1);
+        }
+      }, 5, 2048, queue, 'Producer');
+      virtualRtos.createTask((rtos, queues) => {
+        for (let i = 0; i < 3; i++) {
+          const value = queues.input.receive();
+          queues.output.send(value * 10);
+        }
+      }, 3, 2048, { input: queue, output: results }, 'Consumer');
+
+      virtualRtos.start();
+      virtualRtos.runUntilIdle();
+      virtualRtos.stop();
+
+      expect(results.messagesWaiting()).toBe(3);
+      expect(virtualRtos.getSystemStatus().totalTasks).toBe(1);
+    });
+  });
+
+  describe('信号量', () => {
+    it('转换后的任务应该能够通过 rtos.take 等待信号量', () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const virtualRtos = new RTOS({ ...config, tickSource: new VirtualTickSource() });
+      const semaphore = virtualRtos.createBinarySemaphore('Signal');
+
+      virtualRtos.createTask((rtos, sem) => {
+        if (rtos.take(sem, 10)) {
+          console.log('taken');
+        }
+        if (!rtos.take(sem, 2)) {
+          console.log('timeout');
+        }
+      }, 5, 2048, semaphore, 'Waiter');
+      virtualRtos.createTask((rtos, sem) => {
+        rtos.delay(3);
+        rtos.give(sem);
+      }, 3, 2048, semaphore, 'Giver');
+
+      virtualRtos.start();
+      virtualRtos.runUntilIdle();
+      virtualRtos.stop();
+
+      const messages = logSpy.mock.calls.map(args => args[0]);
+      logSpy.mockRestore();
+      expect(messages).toContain('taken');
+      expect(messages).toContain('timeout');
+    });
+  });
+
+  describe('实时调度', () => {
+    it('转换后的周期任务应该能够通过 delayUntil 按时完成作业', () => {
+      const virtualRtos = new RTOS({ ...config, tickSource: new VirtualTickSource(), schedulingPolicy: new EDFPolicy() });
+
+      virtualRtos.createTask((rtos) => {
+        let release = 1;
+        while (true) {
+          release += 5;
+          rtos.delayUntil(release);
+        }
+      }, 1, 2048, undefined, 'Periodic', { period: 5, wcet: 1 });
+
+      virtualRtos.start();
+      virtualRtos.step(20);
+      virtualRtos.stop();
+
+      const report = virtualRtos.getDeadlineReport();
+      expect(report.policy).toBe('EDF');
+      expect(report.utilization).toBeCloseTo(0.2);
+      expect(report.tasks[0]).toMatchObject({ name: 'Periodic', jobsReleased: 4, jobsCompleted: 4, deadlineMisses: 0 });
+    });
+  });
+
+  describe('任务通知', () => {
+    it('转换后的任务应该能够通过 rtos.notifyTake 等待通知', () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const virtualRtos = new RTOS({ ...config, tickSource: new VirtualTickSource() });
+
+      const waiter = virtualRtos.createTask((rtos) => {
+        const count = rtos.notifyTake(true, 10);
+        console.log(`notified:${count}`);
+      }, 5, 2048, undefined, 'Waiter');
+      virtualRtos.createTask((rtos, target) => {
+        rtos.delay(2);
+        rtos.notifyGive(target);
+        rtos.notifyGive(target);
+      }, 3, 2048, waiter, 'Notifier');
+
+      virtualRtos.start();
+      virtualRtos.runUntilIdle();
+      virtualRtos.stop();
+
+      const messages = logSpy.mock.calls.map(args => args[0]);
+      logSpy.mockRestore();
+      expect(messages).toContain('notified:1');
+    });
+  });
+
+  describe('临界区', () => {
+    it('全部 yield 模式下临界区内的语句应该连续执行', () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const virtualRtos = new RTOS({ ...config, tickSource: new VirtualTickSource() }, { yieldAllStatements: true });
+
+      virtualRtos.createTask((rtos) => {
+        rtos.enterCritical();
+        console.log('A1');
+        console.log('A2');
+        console.log('A3');
+        rtos.exitCritical();
+        rtos.delay(1);
+      }, 5, 2048, undefined, 'A');
+      virtualRtos.createTask((rtos) => {
+        console.log('B1');
+        console.log('B2');
+        rtos.delay(1);
+      }, 5, 2048, undefined, 'B');
+
+      virtualRtos.start();
+      virtualRtos.runUntilIdle();
+      virtualRtos.stop();
+
+      const messages = logSpy.mock.calls.map(args => args[0]).filter(message => /^[AB]\d$/.test(message));
+      logSpy.mockRestore();
+      const start = messages.indexOf('A1');
+      expect(messages.slice(start, start + 3)).toEqual(['A1', 'A2', 'A3']);
+      expect(messages).toHaveLength(5);
+    });
+  });
+
 });
@@ -1,6 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Scheduler } from '../lib/scheduler';
-import { SchedulerConfig } from '../lib/types';
+import { RealTimeTickSource, VirtualTickSource } from '../lib/clock';
+import { SchedulerConfig, TaskState } from '../lib/types';
+import { RTOSError, TaskCreationError } from '../lib/errors';
 
 describe('Scheduler', () => {
   let scheduler: Scheduler;
@@ -176,4 +178,864 @@ describe('Scheduler', () => {
     });
   });
 
+  describe('虚拟时钟', () => {
+    beforeEach(() => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource() });
+    });
+
+    it('未启动时不应推进时钟', () => {
+      expect(scheduler.advance(5)).toBe(0);
+      expect(scheduler.getTickCount()).toBe(0);
+    });
+
+    it('应该能够精确推进指定节拍', () => {
+      const runTicks: number[] = [];
+      scheduler.createTask('Worker', function* () {
+        runTicks.push(scheduler.getTickCount());
+        yield { delayTicks: 3 };
+        runTicks.push(scheduler.getTickCount());
+      }, 5);
+
+      scheduler.start();
+      expect(scheduler.advance(10)).toBe(10);
+      expect(scheduler.getTickCount()).toBe(10);
+      expect(runTicks).toEqual([1, 4]);
+      scheduler.stop();
+    });
+
+    it('应该能够运行到指定节拍', () => {
+      scheduler.start();
+      scheduler.advance(3);
+      expect(scheduler.runUntilTick(8)).toBe(5);
+      expect(scheduler.getTickCount()).toBe(8);
+      expect(scheduler.runUntilTick(2)).toBe(0);
+      scheduler.stop();
+    });
+
+    it('应该能够运行到系统空闲', () => {
+      let finished = false;
+      scheduler.createTask('Worker', function* () {
+        yield { delayTicks: 4 };
+        yield { delayTicks: 4 };
+        finished = true;
+      }, 5);
+
+      scheduler.start();
+      const ticks = scheduler.runUntilIdle();
+      expect(finished).toBe(true);
+      expect(ticks).toBe(scheduler.getTickCount());
+      expect(scheduler.getAllTasks()).toHaveLength(1); // 只剩下空闲任务
+      scheduler.stop();
+    });
+
+    it('runUntilIdle 应该受最大节拍数限制', () => {
+      scheduler.createTask('Forever', function* () {
+        while (true) {
+          yield;
+        }
+      }, 5);
+
+      scheduler.start();
+      expect(scheduler.runUntilIdle(50)).toBe(50);
+      scheduler.stop();
+    });
+  });
+
+  describe('时间片与抢占', () => {
+    const createVirtual = (options: Partial<SchedulerConfig>) =>
+      new Scheduler({ ...config, tickSource: new VirtualTickSource(), ...options });
+
+    // 每步记录一次任务名的无限循环任务
+    const busyTask = (name: string, log: string[]) => function* () {
+      while (true) {
+        log.push(name);
+        yield;
+      }
+    };
+
+    it('默认应该每个节拍轮转同优先级任务', () => {
+      scheduler = createVirtual({});
+      const log: string[] = [];
+      scheduler.createTask('A', busyTask('A', log), 5);
+      scheduler.createTask('B', busyTask('B', log), 5);
+
+      scheduler.start();
+      scheduler.advance(4);
+      expect(log).toEqual(['A', 'B', 'A', 'B']);
+    });
+
+    it('应该按 timeSliceTicks 轮转同优先级任务', () => {
+      scheduler = createVirtual({ timeSliceTicks: 3 });
+      const log: string[] = [];
+      scheduler.createTask('A', busyTask('A', log), 5);
+      scheduler.createTask('B', busyTask('B', log), 5);
+
+      scheduler.start();
+      scheduler.advance(7);
+      expect(log).toEqual(['A', 'A', 'A', 'B', 'B', 'B', 'A']);
+    });
+
+    it('关闭时间片后同优先级任务应该运行到阻塞为止', () => {
+      scheduler = createVirtual({ timeSlicing: false });
+      const log: string[] = [];
+      scheduler.createTask('A', function* () {
+        for (let i = 0; i < 3; i++) {
+          log.push('A');
+          yield;
+        }
+        yield { delayTicks: 10 };
+      }, 5);
+      scheduler.createTask('B', busyTask('B', log), 5);
+
+      scheduler.start();
+      scheduler.advance(6);
+      expect(log).toEqual(['A', 'A', 'A', 'B', 'B']);
+    });
+
+    it('每个节拍应该能够执行多步，任务阻塞后在同一节拍内切换', () => {
+      scheduler = createVirtual({ stepsPerTick: 3 });
+      const log: string[] = [];
+      scheduler.createTask('High', function* () {
+        log.push(`H${scheduler.getTickCount()}`);
+        yield;
+        log.push(`H${scheduler.getTickCount()}`);
+        yield { delayTicks: 5 };
+      }, 5);
+      scheduler.createTask('Low', function* () {
+        while (true) {
+          log.push(`L${scheduler.getTickCount()}`);
+          yield;
+        }
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(2);
+      expect(log).toEqual(['H1', 'H1', 'L1', 'L2', 'L2', 'L2']);
+    });
+
+    it('被任务恢复的更高优先级任务应该在同一节拍内抢占', () => {
+      scheduler = createVirtual({ stepsPerTick: 4 });
+      const log: string[] = [];
+      const high = scheduler.createTask('High', function* () {
+        log.push('H');
+        yield { delayTicks: 100 };
+      }, 5);
+      scheduler.suspendTask(high);
+      scheduler.createTask('Low', function* () {
+        log.push('L');
+        yield;
+        scheduler.resumeTask(high);
+        log.push('L');
+        yield;
+        log.push('L');
+        yield;
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(log).toEqual(['L', 'L', 'H', 'L']);
+    });
+
+    it('恢复更高优先级任务应该立即切换当前任务', () => {
+      scheduler = createVirtual({});
+      const high = scheduler.createTask('High', busyTask('H', []), 5);
+      const low = scheduler.createTask('Low', busyTask('L', []), 1);
+      scheduler.suspendTask(high);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(scheduler.getSystemStatus().currentTask).toBe(low);
+
+      scheduler.resumeTask(high);
+      expect(scheduler.getSystemStatus().currentTask).toBe(high);
+      expect(scheduler.getTaskInfo(high)?.state).toBe(TaskState.RUNNING);
+      expect(scheduler.getTaskInfo(low)?.state).toBe(TaskState.READY);
+    });
+
+    it('任务唤醒更高优先级的等待任务后，被唤醒的任务应该在同一节拍内运行', () => {
+      scheduler = createVirtual({});
+      const semaphore = scheduler.createBinarySemaphore();
+      const log: string[] = [];
+      scheduler.createTask('High', function* () {
+        yield semaphore.take();
+        log.push(`H${scheduler.getTickCount()}`);
+        yield { delayTicks: 100 };
+      }, 5);
+      scheduler.createTask('Low', function* () {
+        yield { delayTicks: 2 };
+        semaphore.give();
+        while (true) {
+          log.push(`L${scheduler.getTickCount()}`);
+          yield;
+        }
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(5);
+      expect(log).toEqual(['L4', 'H4', 'L5']);
+    });
+
+    it('关闭抢占后更高优先级任务应该等待当前任务阻塞', () => {
+      scheduler = createVirtual({ preemption: false });
+      const log: string[] = [];
+      const high = scheduler.createTask('High', busyTask('H', log), 5);
+      scheduler.suspendTask(high);
+      scheduler.createTask('Low', function* () {
+        log.push('L');
+        yield;
+        log.push('L');
+        yield { delayTicks: 100 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(1);
+      scheduler.resumeTask(high);
+      scheduler.advance(3);
+      expect(log).toEqual(['L', 'L', 'H', 'H']);
+    });
+
+    it('应该拒绝无效的时间片配置', () => {
+      expect(() => createVirtual({ timeSliceTicks: 0 })).toThrow('Invalid time slice: 0');
+      expect(() => createVirtual({ stepsPerTick: 1.5 })).toThrow('Invalid steps per tick: 1.5');
+    });
+  });
+
+  describe('运行时统计', () => {
+    beforeEach(() => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource() });
+    });
+
+    it('应该统计每个任务的运行时间和 CPU 占用率', () => {
+      const worker = scheduler.createTask('Worker', function* () {
+        while (true) {
+          yield;
+          yield { delayTicks: 2 };
+        }
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(12);
+
+      const stats = scheduler.getRunTimeStats();
+      const workerStats = stats.tasks.find(task => task.handle === worker)!;
+      const idleStats = stats.tasks.find(task => task.name === 'IdleTask')!;
+      expect(stats.totalTime).toBe(12);
+      expect(workerStats.runTime).toBe(8); // 每 3 个节拍中运行 2 个
+      expect(workerStats.runSteps).toBe(8);
+      expect(workerStats.cpuUsage).toBeCloseTo(200 / 3);
+      expect(idleStats.cpuUsage).toBeCloseTo(100 / 3);
+      expect(workerStats.stateTicks[TaskState.RUNNING]).toBe(4);
+      expect(workerStats.stateTicks[TaskState.BLOCKED]).toBe(8);
+    });
+
+    it('一个节拍内执行多步时应该按步数折算运行时间', () => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), stepsPerTick: 4 });
+      const worker = scheduler.createTask('Worker', function* () {
+        while (true) {
+          yield;
+          yield { delayTicks: 1 };
+        }
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(10);
+
+      const stats = scheduler.getRunTimeStats();
+      const total = stats.tasks.reduce((sum, task) => sum + task.runTime, 0);
+      expect(total).toBeCloseTo(10);
+      expect(stats.tasks.find(task => task.handle === worker)!.cpuUsage).toBeCloseTo(50);
+    });
+
+    it('应该统计挂起的时间', () => {
+      const handle = scheduler.createTask('Sleeper', function* () {
+        while (true) {
+          yield;
+        }
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(2);
+      scheduler.suspendTask(handle);
+      scheduler.advance(3);
+
+      const stateTicks = scheduler.getTaskInfo(handle)!.stats.stateTicks;
+      expect(stateTicks[TaskState.RUNNING]).toBe(2);
+      expect(stateTicks[TaskState.SUSPENDED]).toBe(3);
+    });
+
+    it('应该输出 vTaskList 风格的任务表格', () => {
+      scheduler.createTask('Worker', function* () {
+        while (true) {
+          yield { delayTicks: 2 };
+        }
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(4);
+
+      const lines = scheduler.getTaskListTable().split('\n');
+      expect(lines[0]).toMatch(/^Name\s+State\s+Prio\s+Num\s+RunTime\s+CPU%\s+Ready\s+Blocked\s+Suspended$/);
+      expect(lines[1]).toMatch(/^IdleTask\s+R\s+0\s+1\s+2\s+50\.0%/);
+      expect(lines[2]).toMatch(/^Worker\s+B\s+5\s+2\s+2\s+50\.0%\s+0\s+4\s+0$/);
+    });
+  });
+
+  describe('栈溢出检测', () => {
+    const createOverflowTask = (target: Scheduler) => target.createTask('Greedy', function* () {
+      target.stackAlloc(100);
+      yield;
+      target.stackAlloc(200);
+      yield;
+    }, 5, 256);
+
+    it('应该调用钩子并删除栈溢出的任务', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onStackOverflow = vi.fn();
+      scheduler = new Scheduler({
+        ...config,
+        tickSource: new VirtualTickSource(),
+        stackOverflowCheck: 'pointer',
+        onStackOverflow
+      });
+      const handle = createOverflowTask(scheduler);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(onStackOverflow).not.toHaveBeenCalled();
+      expect(scheduler.getStackHighWaterMark(handle)).toBe(256 - 64 - 100);
+
+      scheduler.advance(1);
+      expect(onStackOverflow).toHaveBeenCalledWith(handle, 'Greedy');
+      expect(errorSpy).toHaveBeenCalledWith('任务 Greedy 栈溢出');
+      expect(scheduler.getTaskInfo(handle)).toBeNull();
+      errorSpy.mockRestore();
+    });
+
+    it('应该能够改为挂起栈溢出的任务', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      scheduler = new Scheduler({
+        ...config,
+        tickSource: new VirtualTickSource(),
+        stackOverflowCheck: 'pattern',
+        stackOverflowAction: 'suspend'
+      });
+      const handle = createOverflowTask(scheduler);
+
+      scheduler.start();
+      scheduler.advance(2);
+      expect(scheduler.getTaskInfo(handle)?.state).toBe(TaskState.SUSPENDED);
+      errorSpy.mockRestore();
+    });
+
+    it('默认不检测栈溢出', () => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource() });
+      const handle = createOverflowTask(scheduler);
+
+      scheduler.start();
+      scheduler.advance(2);
+      expect(scheduler.getTaskInfo(handle)?.stackPointer).toBeLessThan(0);
+      expect(scheduler.getTaskInfo(handle)?.state).not.toBe(TaskState.SUSPENDED);
+    });
+  });
+
+  describe('任务创建限制', () => {
+    const task = function* () {};
+
+    it('超过 maxTasks 时应该抛出 MAX_TASKS 错误', () => {
+      scheduler = new Scheduler({ ...config, maxTasks: 3 }); // 空闲任务占用一个
+      scheduler.createTask('Task1', task, 1);
+      scheduler.createTask('Task2', task, 1);
+
+      let error: unknown;
+      try {
+        scheduler.createTask('Task3', task, 1);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(TaskCreationError);
+      expect(error).toBeInstanceOf(RTOSError);
+      expect((error as TaskCreationError).code).toBe('MAX_TASKS');
+      expect(scheduler.getAllTasks()).toHaveLength(3);
+    });
+
+    it('定时器服务任务应该计入 maxTasks', () => {
+      scheduler = new Scheduler({ ...config, maxTasks: 2 });
+      scheduler.createTask('Task1', task, 1);
+
+      expect(() => scheduler.createTimer('Timer', 5, false, () => {}))
+        .toThrow(expect.objectContaining({ name: 'TaskCreationError', code: 'MAX_TASKS' }));
+      expect(scheduler.getAllTasks()).toHaveLength(2);
+
+      scheduler.deleteTask(scheduler.getAllTasks().find(info => info.name === 'Task1')!.handle);
+      expect(() => scheduler.createTimer('Timer', 5, false, () => {})).not.toThrow();
+      expect(scheduler.getAllTasks().map(info => info.name)).toEqual(['IdleTask', 'TimerTask']);
+    });
+
+    it('任务数已达上限时创建第一个定时器应该失败，且不占用内存', () => {
+      scheduler = new Scheduler({ ...config, maxTasks: 3, totalHeapSize: 64 * 1024 });
+      scheduler.createTask('Task1', task, 1);
+      scheduler.createTask('Task2', task, 1);
+      const before = scheduler.getHeapStats()!;
+
+      expect(() => scheduler.createTimer('Timer', 5, false, () => {}))
+        .toThrow(expect.objectContaining({ name: 'TaskCreationError', code: 'MAX_TASKS' }));
+      expect(scheduler.getAllTasks().map(info => info.name)).toEqual(['IdleTask', 'Task1', 'Task2']);
+      expect(scheduler.getHeapStats()).toMatchObject({ freeSize: before.freeSize, allocatedBlocks: before.allocatedBlocks });
+    });
+
+    it('删除任务后应该能够再次创建', () => {
+      scheduler = new Scheduler({ ...config, maxTasks: 2 });
+      const handle = scheduler.createTask('Task1', task, 1);
+      scheduler.deleteTask(handle);
+      expect(() => scheduler.createTask('Task2', task, 1)).not.toThrow();
+    });
+
+    it('内存不足时应该抛出 NO_MEMORY 错误并调用 mallocFailedHook', () => {
+      const mallocFailedHook = vi.fn();
+      scheduler = new Scheduler({ ...config, totalHeapSize: 8192, mallocFailedHook });
+      scheduler.createTask('Task1', task, 1, 4096);
+
+      expect(() => scheduler.createTask('Task2', task, 1, 4096))
+        .toThrow(expect.objectContaining({ code: 'NO_MEMORY' }));
+      expect(mallocFailedHook).toHaveBeenCalledWith(4096);
+      expect(() => scheduler.createTask('Task3', task, 1, 2048)).not.toThrow();
+    });
+
+    it('无效优先级应该抛出 INVALID_PRIORITY 错误', () => {
+      expect(() => scheduler.createTask('Bad', task, -1))
+        .toThrow(expect.objectContaining({ code: 'INVALID_PRIORITY' }));
+      expect(() => scheduler.createTask('Bad', task, 1.5))
+        .toThrow('Invalid priority for task Bad: 1.5');
+    });
+  });
+
+  describe('模拟堆', () => {
+    const task = function* () {};
+
+    it('任务栈和内核对象应该从模拟堆分配，删除后释放', () => {
+      scheduler = new Scheduler({ ...config, totalHeapSize: 16384 });
+      const afterIdle = scheduler.getFreeHeapSize()!;
+      expect(afterIdle).toBe(16384 - 1032); // 1024 字节栈加 8 字节块头
+
+      const handle = scheduler.createTask('Task1', task, 1, 2048);
+      const queue = scheduler.createQueue(10);
+      expect(scheduler.getFreeHeapSize()).toBe(afterIdle - 2056 - 128);
+
+      scheduler.deleteTask(handle);
+      expect(scheduler.deleteQueue(queue)).toBe(true);
+      expect(scheduler.getFreeHeapSize()).toBe(afterIdle);
+      expect(scheduler.getMinimumEverFreeHeapSize()).toBe(afterIdle - 2056 - 128);
+    });
+
+    it('执行完毕的任务应该释放任务栈', () => {
+      scheduler = new Scheduler({ ...config, totalHeapSize: 16384 });
+      const free = scheduler.getFreeHeapSize();
+      scheduler.createTask('Task1', task, 1, 2048);
+
+      scheduler.start();
+      scheduler.advance(2);
+      expect(scheduler.getFreeHeapSize()).toBe(free);
+      expect(scheduler.getHeapStats()?.successfulFrees).toBe(1);
+    });
+
+    it('heap_1 删除任务后不应该回收内存', () => {
+      scheduler = new Scheduler({ ...config, totalHeapSize: 8192, heapScheme: 'heap_1' });
+      const handle = scheduler.createTask('Task1', task, 1, 4096);
+      scheduler.deleteTask(handle);
+
+      expect(scheduler.getHeapStats()?.scheme).toBe('heap_1');
+      expect(() => scheduler.createTask('Task2', task, 1, 4096))
+        .toThrow(expect.objectContaining({ code: 'NO_MEMORY' }));
+    });
+
+    it('内核对象内存不足时应该抛出 RTOSError', () => {
+      const mallocFailedHook = vi.fn();
+      scheduler = new Scheduler({ ...config, heapRegions: [1100], mallocFailedHook });
+
+      expect(scheduler.getHeapStats()?.scheme).toBe('heap_5');
+      expect(() => scheduler.createQueue(100)).toThrow(RTOSError);
+      expect(mallocFailedHook).toHaveBeenCalledWith(480);
+      expect(() => scheduler.createEventGroup()).not.toThrow();
+    });
+
+    it('仍有任务等待时不应该删除内核对象', () => {
+      scheduler = new Scheduler({ ...config, totalHeapSize: 16384 });
+      const semaphore = scheduler.createBinarySemaphore();
+      scheduler.createTask('Waiter', function* (sem: any) {
+        yield sem.take();
+      }, 1, 1024, semaphore);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(scheduler.deleteSemaphore(semaphore)).toBe(false);
+      semaphore.give();
+      scheduler.advance(1);
+      expect(scheduler.deleteSemaphore(semaphore)).toBe(true);
+    });
+
+    it('未配置堆大小时不应该限制内存', () => {
+      expect(scheduler.getFreeHeapSize()).toBeNull();
+      expect(scheduler.getHeapStats()).toBeNull();
+    });
+  });
+
+  describe('临界区与调度器挂起', () => {
+    beforeEach(() => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource() });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('挂起调度器期间当前任务应该跨节拍运行，恢复时处理挂起的节拍', () => {
+      const order: string[] = [];
+      let resumed: boolean | null = null;
+      scheduler.createTask('Sleeper', function* () {
+        yield { delayTicks: 2 };
+        order.push('S');
+      }, 5);
+      scheduler.createTask('Worker', function* () {
+        scheduler.suspendAll();
+        for (let i = 0; i < 4; i++) {
+          order.push(`W${i}`);
+          yield;
+        }
+        resumed = scheduler.resumeAll();
+        order.push('W:resumed');
+        yield { delayTicks: 100 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(2); // Sleeper 进入延时，Worker 挂起调度器
+      expect(scheduler.getSchedulerState()).toBe('suspended');
+
+      scheduler.advance(3);
+      expect(scheduler.getTickCount()).toBe(2);
+      expect(scheduler.getSystemStatus().pendedTicks).toBe(3);
+
+      scheduler.advance(1);
+      expect(resumed).toBe(true);
+      expect(scheduler.getTickCount()).toBe(6);
+      expect(scheduler.getSchedulerState()).toBe('running');
+
+      scheduler.advance(1);
+      expect(order).toEqual(['W0', 'W1', 'W2', 'W3', 'W:resumed', 'S']);
+    });
+
+    it('挂起的节拍应该在恢复时逐个触发 onTick 和 tick 事件', () => {
+      const onTick = vi.fn();
+      const ticks: number[] = [];
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), hooks: { onTick } });
+      scheduler.events.on('tick', ({ tickCount }) => ticks.push(tickCount));
+      scheduler.createTask('Worker', function* () {
+        scheduler.suspendAll();
+        yield;
+        yield;
+        yield;
+        scheduler.resumeAll();
+        yield { delayTicks: 100 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(3);
+      expect(ticks).toEqual([1]); // 节拍 2、3 被挂起
+
+      scheduler.advance(2);
+      expect(ticks).toEqual([1, 2, 3, 4, 5]);
+      expect(onTick.mock.calls.map(args => args[0])).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('临界区内应该推迟中断，超过 maxSyscallInterruptPriority 的中断照常执行', () => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), maxSyscallInterruptPriority: 5 });
+      const order: string[] = [];
+      scheduler.registerInterrupt(1, 3, () => order.push('ISR:3'));
+      scheduler.registerInterrupt(2, 8, () => order.push('ISR:8'));
+      scheduler.createTask('Task', function* () {
+        scheduler.enterCritical();
+        scheduler.triggerInterrupt(1);
+        scheduler.triggerInterrupt(2);
+        order.push('enter');
+        yield;
+        order.push('exit');
+        scheduler.exitCritical();
+        order.push('after');
+        yield { delayTicks: 100 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(1);
+      expect(scheduler.getSystemStatus().criticalNesting).toBe(1);
+
+      scheduler.advance(1);
+      expect(order).toEqual(['enter', 'ISR:8', 'exit', 'ISR:3', 'after']);
+    });
+
+    it('临界区应该支持嵌套', () => {
+      scheduler.enterCritical();
+      scheduler.enterCritical();
+      scheduler.exitCritical();
+      expect(scheduler.getSystemStatus().criticalNesting).toBe(1);
+      scheduler.exitCritical();
+      expect(scheduler.getSystemStatus().criticalNesting).toBe(0);
+
+      expect(() => scheduler.exitCritical()).toThrow('exitCritical called outside a critical section');
+      expect(() => scheduler.resumeAll()).toThrow('resumeAll called while the scheduler is not suspended');
+    });
+
+    it('持有锁的任务阻塞时应该强制释放锁', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const order: string[] = [];
+      scheduler.createTask('Holder', function* () {
+        scheduler.enterCritical();
+        yield { delayTicks: 5 };
+      }, 5);
+      scheduler.createTask('Other', function* () {
+        order.push('Other');
+        yield { delayTicks: 100 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(2);
+      expect(errorSpy).toHaveBeenCalledWith('任务 Holder 在临界区或调度器挂起期间停止运行，已强制退出');
+      expect(scheduler.getSystemStatus().criticalNesting).toBe(0);
+      expect(order).toEqual(['Other']);
+    });
+
+    it('不能在中断中进入临界区或挂起调度器', () => {
+      const errors: unknown[] = [];
+      scheduler.registerInterrupt(1, 1, () => {
+        for (const call of [() => scheduler.enterCritical(), () => scheduler.suspendAll()]) {
+          try {
+            call();
+          } catch (error) {
+            errors.push(error);
+          }
+        }
+      });
+
+      scheduler.triggerInterrupt(1);
+      scheduler.start();
+      scheduler.advance(1);
+      expect(errors).toHaveLength(2);
+      expect(errors.every(error => error instanceof RTOSError && error.code === 'INVALID_CONTEXT')).toBe(true);
+    });
+  });
+
+  describe('内核钩子', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('应该在任务创建、切换和删除时调用钩子', () => {
+      const events: string[] = [];
+      scheduler = new Scheduler({
+        ...config,
+        tickSource: new VirtualTickSource(),
+        hooks: {
+          onTaskCreate: (_handle, name) => events.push(`create:${name}`),
+          onTaskDelete: (_handle, name) => events.push(`delete:${name}`),
+          onTaskSwitchedIn: (_handle, name) => events.push(`in:${name}`),
+          onTaskSwitchedOut: (_handle, name) => events.push(`out:${name}`)
+        }
+      });
+      scheduler.createTask('Worker', function* () {
+        yield { delayTicks: 2 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(3);
+      expect(events).toEqual([
+        'create:IdleTask',
+        'create:Worker',
+        'in:Worker',
+        'out:Worker',
+        'in:IdleTask',
+        'out:IdleTask',
+        'in:Worker',
+        'delete:Worker'
+      ]);
+    });
+
+    it('应该在每个节拍调用 onTick，在空闲任务运行时调用 onIdle', () => {
+      const onTick = vi.fn();
+      const onIdle = vi.fn();
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), hooks: { onTick, onIdle } });
+      scheduler.createTask('Worker', function* () {
+        yield { delayTicks: 3 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(5);
+      expect(onTick.mock.calls.map(args => args[0])).toEqual([1, 2, 3, 4, 5]);
+      expect(onIdle).toHaveBeenCalledTimes(3); // 节拍 2、3 和任务结束后的节拍 5
+    });
+
+    it('任务出错时应该调用 onTaskError', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onTaskError = vi.fn();
+      const onTaskDelete = vi.fn();
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), hooks: { onTaskError, onTaskDelete } });
+      const handle = scheduler.createTask('Faulty', function* () {
+        yield;
+        throw new Error('boom');
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(2);
+      expect(onTaskError).toHaveBeenCalledWith(handle, 'Faulty', expect.objectContaining({ message: 'boom' }));
+      expect(onTaskDelete).toHaveBeenCalledWith(handle, 'Faulty');
+    });
+  });
+
+  describe('tickless 低功耗模式', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    // 记录周期任务和定时器回调运行的节拍
+    const runScenario = (options: Partial<SchedulerConfig>) => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), ...options });
+      const events: string[] = [];
+      scheduler.createTask('Periodic', function* () {
+        while (true) {
+          events.push(`task@${scheduler.getTickCount()}`);
+          yield { delayTicks: 7 };
+        }
+      }, 3);
+      const timer = scheduler.createTimer('Timer', 5, true, () => events.push(`timer@${scheduler.getTickCount()}`));
+      scheduler.startTimer(timer);
+
+      scheduler.start();
+      scheduler.advance(30);
+      return events;
+    };
+
+    it('应该跳过空闲节拍且不改变任务和定时器的运行时刻', () => {
+      const events = runScenario({});
+      const ticklessEvents = runScenario({ tickless: true });
+
+      expect(ticklessEvents).toEqual(events);
+      expect(scheduler.getTickCount()).toBe(30);
+
+      const status = scheduler.getSystemStatus();
+      expect(status.sleepTicks).toBeGreaterThan(15);
+      const idle = scheduler.getAllTasks().find(task => task.name === 'IdleTask')!;
+      expect(idle.runCount).toBeLessThan(30 - status.sleepTicks);
+      expect(scheduler.getRunTimeStats().tasks.reduce((sum, task) => sum + task.runTime, 0)).toBeCloseTo(30);
+    });
+
+    it('应该调用睡眠前后的钩子', () => {
+      const preSleepProcessing = vi.fn();
+      const postSleepProcessing = vi.fn();
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), tickless: true, preSleepProcessing, postSleepProcessing });
+      const ticks: number[] = [];
+      scheduler.createTask('Sleeper', function* () {
+        ticks.push(scheduler.getTickCount());
+        yield { delayTicks: 10 };
+        ticks.push(scheduler.getTickCount());
+        yield { delayTicks: 100 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(12); // 节拍 1 任务进入延时后睡眠到节拍 10，节拍 11 唤醒
+      expect(preSleepProcessing).toHaveBeenNthCalledWith(1, 10);
+      expect(postSleepProcessing).toHaveBeenNthCalledWith(1, 9);
+      expect(ticks).toEqual([1, 11]);
+      expect(scheduler.getTickCount()).toBe(12);
+    });
+
+    it('睡眠前钩子返回 0 时应该取消睡眠', () => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), tickless: true, preSleepProcessing: () => 0 });
+      scheduler.createTask('Sleeper', function* () {
+        yield { delayTicks: 100 };
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(20);
+      expect(scheduler.getSystemStatus().sleepTicks).toBe(0);
+    });
+
+    it('预计空闲节拍数少于 expectedIdleTimeBeforeSleep 时不应该睡眠', () => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), tickless: true, expectedIdleTimeBeforeSleep: 5 });
+      scheduler.createTask('Blinker', function* () {
+        while (true) {
+          yield { delayTicks: 4 };
+        }
+      }, 1);
+
+      scheduler.start();
+      scheduler.advance(20);
+      expect(scheduler.getSystemStatus().sleepTicks).toBe(0);
+    });
+
+    it('有随机中断源时不应该睡眠', () => {
+      scheduler = new Scheduler({ ...config, tickSource: new VirtualTickSource(), tickless: true });
+      scheduler.registerInterrupt(1, 1, () => {}, { probability: 0.5, random: () => 1 });
+
+      scheduler.start();
+      scheduler.advance(10);
+      expect(scheduler.getSystemStatus().sleepTicks).toBe(0);
+    });
+
+    it('实时时钟源应该暂停节拍并在唤醒后补上睡眠的节拍', () => {
+      vi.useFakeTimers();
+      try {
+        scheduler = new Scheduler({ ...config, tickSource: new RealTimeTickSource(), tickless: true });
+        scheduler.createTask('Sleeper', function* () {
+          while (true) {
+            yield { delayTicks: 10 };
+          }
+        }, 1);
+
+        scheduler.start();
+        vi.advanceTimersByTime(500); // 节拍 1 任务延时后睡眠 9 个节拍周期
+        expect(scheduler.getTickCount()).toBe(1);
+
+        vi.advanceTimersByTime(500);
+        expect(scheduler.getTickCount()).toBe(10);
+        expect(scheduler.getSystemStatus().sleepTicks).toBe(9);
+
+        vi.advanceTimersByTime(100);
+        expect(scheduler.getTickCount()).toBe(11);
+        scheduler.stop();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('实时时钟源睡眠期间任务被外部唤醒或触发中断时应该提前结束睡眠', () => {
+      vi.useFakeTimers();
+      try {
+        scheduler = new Scheduler({ ...config, tickSource: new RealTimeTickSource(), tickless: true });
+        const semaphore = scheduler.createBinarySemaphore();
+        const takenAt: number[] = [];
+        const interruptsAt: number[] = [];
+        scheduler.registerInterrupt(1, 5, () => {
+          interruptsAt.push(scheduler.getTickCount());
+        });
+        scheduler.createTask('Waiter', function* () {
+          while (true) {
+            yield semaphore.take();
+            takenAt.push(scheduler.getTickCount());
+          }
+        }, 1);
+
+        scheduler.start();
+        vi.advanceTimersByTime(250); // 节拍 1 任务阻塞后睡眠 (最多 1000 个节拍)
+        semaphore.give();
+        expect(scheduler.getTickCount()).toBe(2); // 只补上实际经过的节拍
+        vi.advanceTimersByTime(100);
+        expect(takenAt).toEqual([3]);
+
+        vi.advanceTimersByTime(520);
+        scheduler.triggerInterrupt(1);
+        expect(scheduler.getTickCount()).toBe(8);
+        vi.advanceTimersByTime(100);
+        expect(interruptsAt).toEqual([9]);
+        expect(scheduler.getSystemStatus().sleepTicks).toBe(6);
+        scheduler.stop();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
 });
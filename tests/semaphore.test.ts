@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { VirtualTickSource } from '../lib/clock';
+import { SchedulerConfig, TaskState } from '../lib/types';
+
+describe('Semaphore', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+    };
+    scheduler = new Scheduler(config);
+  });
+
+  describe('基本功能', () => {
+    it('二值信号量初始应该为空', () => {
+      const semaphore = scheduler.createBinarySemaphore();
+      expect(semaphore.name).toBe('Semaphore_1');
+      expect(semaphore.maxCount).toBe(1);
+      expect(semaphore.getCount()).toBe(0);
+    });
+
+    it('give 不应该超过最大计数', () => {
+      const semaphore = scheduler.createCountingSemaphore(2, 1);
+      expect(semaphore.give()).toBe(true);
+      expect(semaphore.give()).toBe(false);
+      expect(semaphore.getCount()).toBe(2);
+    });
+
+    it('应该拒绝无效的计数参数', () => {
+      expect(() => scheduler.createCountingSemaphore(0, 0)).toThrow('Invalid semaphore max count: 0');
+      expect(() => scheduler.createCountingSemaphore(2, 3)).toThrow('Invalid semaphore initial count: 3');
+    });
+
+    it('计数信号量应该允许多次获取', () => {
+      const semaphore = scheduler.createCountingSemaphore(3, 2);
+      const results: boolean[] = [];
+
+      scheduler.createTask('Taker', function* () {
+        results.push(yield semaphore.take(0));
+        results.push(yield semaphore.take(0));
+        results.push(yield semaphore.take(0));
+      }, 5);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(results).toEqual([true, true, false]);
+      expect(semaphore.getCount()).toBe(0);
+    });
+  });
+
+  describe('阻塞语义', () => {
+    it('获取不到时任务应该阻塞在信号量的等待列表上', () => {
+      const semaphore = scheduler.createBinarySemaphore('Ready');
+      const handle = scheduler.createTask('Waiter', function* () {
+        yield semaphore.take();
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+
+      const task = scheduler.getTaskInfo(handle);
+      expect(task?.state).toBe(TaskState.BLOCKED);
+      expect(task?.blockedOn).toBe('semaphore:Ready');
+      expect(semaphore.getWaiters()).toEqual([handle]);
+    });
+
+    it('give 应该按优先级唤醒等待任务', () => {
+      const semaphore = scheduler.createBinarySemaphore();
+      const order: string[] = [];
+
+      scheduler.createTask('Low', function* () {
+        yield semaphore.take();
+        order.push('low');
+      }, 1);
+      scheduler.createTask('Medium', function* () {
+        yield semaphore.take();
+        order.push('medium');
+      }, 2);
+      scheduler.createTask('Giver', function* () {
+        yield { delayTicks: 3 };
+        semaphore.give();
+        yield { delayTicks: 3 };
+        semaphore.give();
+      }, 3);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(order).toEqual(['medium', 'low']);
+      expect(semaphore.getCount()).toBe(0);
+    });
+
+    it('获取超时应该返回 false', () => {
+      const semaphore = scheduler.createBinarySemaphore();
+      let result: boolean | undefined;
+
+      scheduler.createTask('Waiter', function* () {
+        result = yield semaphore.take(5);
+      }, 5);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      expect(result).toBe(false);
+      expect(semaphore.getWaiters()).toEqual([]);
+    });
+
+    it('挂起等待中的任务应该将其移出等待列表', () => {
+      const semaphore = scheduler.createBinarySemaphore();
+      const handle = scheduler.createTask('Waiter', function* () {
+        yield semaphore.take();
+      }, 5);
+
+      scheduler.start();
+      scheduler.advance(1);
+      scheduler.suspendTask(handle);
+      expect(semaphore.getWaiters()).toEqual([]);
+
+      // 挂起后释放的信号量不会被挂起任务占用
+      semaphore.give();
+      expect(semaphore.getCount()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SourceMap, codeFrame, encodeVLQ, getSourceLocation } from '../lib/sourcemap';
+import { RTOSParser } from '../lib/parser';
+import { RTOS, VirtualTickSource } from '../lib/rtos';
+import { LogEntry, SourceLocation } from '../lib/types';
+
+describe('SourceMap', () => {
+  it('应该进行 Base64 VLQ 编码', () => {
+    expect([0, 1, -1, 15, 16, -16, 1000].map(encodeVLQ)).toEqual(['A', 'C', 'D', 'e', 'gB', 'hB', 'w+B']);
+  });
+
+  it('应该把生成代码中的位置映射回原始源码，插入的代码映射到之前的源码', () => {
+    const original = 'a();\nb();';
+    const generated = 'x\na();\nyield b();';
+    const map = new SourceMap(original, generated, [
+      { generated: 2, original: 0, length: 5 },
+      { generated: 13, original: 5, length: 4 }
+    ]);
+
+    expect(map.originalPositionFor({ line: 2, column: 1 })).toEqual({ line: 1, column: 1 });
+    expect(map.originalPositionFor({ line: 3, column: 7 })).toEqual({ line: 2, column: 1 });
+    expect(map.originalPositionFor({ line: 3, column: 2 })).toEqual({ line: 1, column: 5 });
+    expect(map.originalPositionFor({ line: 1, column: 1 })).toBeNull();
+    expect(map.toJSON()).toMatchObject({ version: 3, sourcesContent: [original], mappings: ';AAAA;MACA' });
+  });
+
+  it('应该生成带标记的代码帧', () => {
+    const source = 'function task() {\n  const a = 1;\n  a.b.c();\n  return a;\n}';
+
+    expect(codeFrame(source, { line: 3, column: 7 }, 1)).toBe([
+      '  2 |   const a = 1;',
+      '> 3 |   a.b.c();',
+      '    |       ^',
+      '  4 |   return a;'
+    ].join('\n'));
+  });
+});
+
+describe('转换后任务的错误位置', () => {
+  const mockRtos = { delay: (ticks: number) => ({ delayTicks: ticks }) };
+
+  it('应该记录错误在任务函数源码中的行列和代码帧', () => {
+    const parser = new RTOSParser();
+    const taskFunction = (r) => {
+      r.delay(1);
+      const config = null;
+      return config.value;
+    };
+
+    const generator = parser.transformTaskFunction(taskFunction)(mockRtos)();
+    expect(generator.next().value).toEqual({ delayTicks: 1 });
+
+    let location: SourceLocation | undefined;
+    try {
+      generator.next();
+    } catch (error) {
+      location = getSourceLocation(error);
+    }
+
+    const lines = taskFunction.toString().split('\n');
+    const line = lines.findIndex(text => text.includes('config.value')) + 1;
+    expect(location).toMatchObject({ line, source: taskFunction.toString() });
+    expect(lines[line - 1]!.slice(location!.column - 1)).toMatch(/^(config)?\.?value/);
+    expect(location!.frame).toContain(`> ${line} |`);
+  });
+
+  it('应该在日志和 taskError 事件中报告原始位置', () => {
+    const rtos = new RTOS({ maxTasks: 10, tickRate: 10, stackSize: 4096, idleTaskStackSize: 1024, tickSource: new VirtualTickSource() });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const logs: LogEntry[] = [];
+    const locations: Array<SourceLocation | undefined> = [];
+    rtos.addLogSink(entry => logs.push(entry));
+    rtos.events.on('taskError', ({ location }) => locations.push(location));
+
+    rtos.createTask((rtos) => {
+      rtos.delay(2);
+      throw new Error('boom');
+    }, 5, 2048, undefined, 'Faulty');
+    rtos.start();
+    rtos.step(5);
+    rtos.stop();
+
+    expect(locations).toEqual([expect.objectContaining({ line: 3 })]);
+    const entry = logs.find(log => log.level === 'error')!;
+    expect(entry.message).toBe(`Generator 任务 Faulty 执行出错 (第 3 行，第 ${locations[0]!.column} 列):`);
+    expect(entry.args[0]).toContain('Error: boom');
+    expect(entry.args[0]).toMatch(/> 3 \| +throw new Error/);
+    vi.restoreAllMocks();
+  });
+});
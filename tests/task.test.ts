@@ -216,6 +216,23 @@ describe('TaskManager', () => {
       const nextTask = taskManager.getNextTask();
       expect(nextTask).toBe(taskHandle2); // 优先级最高的任务
     });
+
+    it('应该能够继承和恢复优先级', () => {
+      const lowHandle = taskManager.createTask('Low', function* () { yield; }, 1, 2048, undefined);
+      const mediumHandle = taskManager.createTask('Medium', function* () { yield; }, 5, 2048, undefined);
+
+      expect(taskManager.inheritPriority(lowHandle, 8)).toBe(true);
+      expect(taskManager.getTaskInfo(lowHandle)?.priority).toBe(8);
+      expect(taskManager.getTaskInfo(lowHandle)?.basePriority).toBe(1);
+      expect(taskManager.getNextTask()).toBe(lowHandle);
+
+      // 不会降低优先级
+      expect(taskManager.inheritPriority(lowHandle, 3)).toBe(false);
+
+      expect(taskManager.disinheritPriority(lowHandle)).toBe(true);
+      expect(taskManager.getTaskInfo(lowHandle)?.priority).toBe(1);
+      expect(taskManager.getNextTask()).toBe(mediumHandle);
+    });
   });
 
   describe('当前任务管理', () => {
@@ -375,4 +392,42 @@ describe('TaskManager', () => {
       expect(taskManager.getCurrentTask()).toBe(null);
     });
   });
+
+  describe('任务栈', () => {
+    it('新任务的栈应该只包含初始上下文', () => {
+      const handle = taskManager.createTask('Task', function* () {}, 1, 1024);
+      expect(taskManager.getTaskInfo(handle)?.stackPointer).toBe(1024 - 64);
+      expect(taskManager.getStackHighWaterMark(handle)).toBe(1024 - 64);
+    });
+
+    it('高水位线应该记录历史最大栈用量', () => {
+      const handle = taskManager.createTask('Task', function* () {}, 1, 1024);
+
+      expect(taskManager.stackAlloc(handle, 400)).toBe(true);
+      expect(taskManager.stackFree(handle, 400)).toBe(true);
+      expect(taskManager.stackAlloc(handle, 100)).toBe(true);
+
+      expect(taskManager.getTaskInfo(handle)?.stackPointer).toBe(1024 - 64 - 100);
+      expect(taskManager.getStackHighWaterMark(handle)).toBe(1024 - 64 - 400);
+    });
+
+    it('应该能够按检测方式判断栈溢出', () => {
+      const handle = taskManager.createTask('Task', function* () {}, 1, 256);
+
+      // 进入栈底的保护区，但栈指针未越界
+      taskManager.stackAlloc(handle, 256 - 64 - 8);
+      expect(taskManager.isStackOverflowed(handle, 'pointer')).toBe(false);
+      expect(taskManager.isStackOverflowed(handle, 'pattern')).toBe(true);
+
+      expect(taskManager.stackAlloc(handle, 16)).toBe(false);
+      expect(taskManager.isStackOverflowed(handle, 'pointer')).toBe(true);
+      expect(taskManager.isStackOverflowed(handle, 'none')).toBe(false);
+      expect(taskManager.getStackHighWaterMark(handle)).toBe(0);
+    });
+
+    it('应该拒绝无效的字节数', () => {
+      const handle = taskManager.createTask('Task', function* () {}, 1, 256);
+      expect(() => taskManager.stackAlloc(handle, -1)).toThrow('Invalid stack bytes: -1');
+    });
+  });
 });
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { buildTimeline } from '../lib/timeline';
+import { VirtualTickSource } from '../lib/clock';
+import { SchedulerConfig } from '../lib/types';
+
+describe('buildTimeline', () => {
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource()
+    };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('应该把状态变化转换为每个任务的状态区间', () => {
+    const scheduler = new Scheduler(config);
+    const trace = scheduler.createTraceRecorder();
+    trace.start();
+    const semaphore = scheduler.createBinarySemaphore('Signal');
+
+    scheduler.createTask('Waiter', function* () {
+      yield semaphore.take();
+    }, 2);
+    scheduler.createTask('Worker', function* () {
+      yield { delayTicks: 2 };
+      semaphore.give();
+      yield { delayTicks: 10 };
+    }, 1);
+    scheduler.start();
+    scheduler.advance(4);
+
+    const rows = buildTimeline(trace.getRecords(), { end: 5 });
+    expect(rows.map(row => row.name)).toEqual(['IdleTask', 'Waiter', 'Worker']);
+
+    const [, waiter, worker] = rows;
+    expect(waiter?.segments).toEqual([
+      { state: 'ready', start: 0, end: 1, reason: null },
+      { state: 'running', start: 1, end: 2, reason: null },
+      { state: 'blocked', start: 2, end: 4, reason: 'semaphore:Signal' },
+      { state: 'running', start: 4, end: 5, reason: null }
+    ]);
+    // 同一节拍内解除阻塞并立即运行，不产生就绪区间
+    expect(worker?.segments.map(segment => [segment.state, segment.start, segment.end, segment.reason])).toEqual([
+      ['ready', 0, 2, null],
+      ['running', 2, 3, null],
+      ['blocked', 3, 4, 'delay'],
+      ['running', 4, 5, null]
+    ]);
+  });
+
+  it('被抢占的任务应该在切换处结束运行，开始记录前的任务从第一条记录开始', () => {
+    const scheduler = new Scheduler({ ...config, stepsPerTick: 2 });
+    scheduler.createTask('Low', function* () {
+      while (true) {
+        yield;
+      }
+    }, 1);
+    scheduler.start();
+    scheduler.advance(1);
+
+    const trace = scheduler.createTraceRecorder();
+    trace.start();
+    scheduler.createTask('High', function* () {
+      yield { delayTicks: 5 };
+    }, 5);
+    scheduler.advance(1);
+
+    const rows = buildTimeline(trace.getRecords(), { stepsPerTick: 2, end: 3 });
+    const low = rows.find(row => row.name === 'Low')!;
+    const high = rows.find(row => row.name === 'High')!;
+    expect(high.segments.map(segment => [segment.state, segment.start, segment.end])).toEqual([
+      ['ready', 1.5, 2],   // 在节拍 1 的第 2 步之后创建
+      ['running', 2, 2.5],
+      ['blocked', 2.5, 3]
+    ]);
+    expect(low.segments[0]).toMatchObject({ state: 'running', start: 1.5, end: 2 });
+    expect(low.segments[1]).toMatchObject({ state: 'ready', start: 2, reason: 'preempt' });
+  });
+});
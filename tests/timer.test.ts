@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { VirtualTickSource } from '../lib/clock';
+import { SchedulerConfig } from '../lib/types';
+
+describe('TimerService', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+    };
+    scheduler = new Scheduler(config);
+  });
+
+  describe('基本功能', () => {
+    it('首次创建定时器时才创建服务任务', () => {
+      expect(scheduler.getAllTasks()).toHaveLength(1);
+
+      const timer = scheduler.createTimer('Blink', 5, true, () => {});
+      expect(timer.name).toBe('Blink');
+      expect(timer.isActive).toBe(false);
+
+      const daemon = scheduler.getAllTasks().find(task => task.name === 'TimerTask');
+      expect(daemon?.priority).toBe(10);
+    });
+
+    it('应该能够配置服务任务优先级', () => {
+      scheduler = new Scheduler({ ...config, timerTaskPriority: 3 });
+      scheduler.createTimer('Blink', 5, true, () => {});
+
+      const daemon = scheduler.getAllTasks().find(task => task.name === 'TimerTask');
+      expect(daemon?.priority).toBe(3);
+    });
+
+    it('应该拒绝无效的周期', () => {
+      expect(() => scheduler.createTimer('Bad', 0, false, () => {})).toThrow('Invalid timer period: 0');
+    });
+  });
+
+  describe('定时器到期', () => {
+    it('单次定时器应该只触发一次', () => {
+      const firedAt: number[] = [];
+      const timer = scheduler.createTimer('Once', 5, false, () => {
+        firedAt.push(scheduler.getTickCount());
+      });
+
+      scheduler.startTimer(timer);
+      scheduler.start();
+      scheduler.advance(20);
+
+      expect(firedAt).toEqual([5]);
+      expect(timer.isActive).toBe(false);
+    });
+
+    it('自动重载定时器应该周期触发', () => {
+      const firedAt: number[] = [];
+      const timer = scheduler.createTimer('Periodic', 4, true, () => {
+        firedAt.push(scheduler.getTickCount());
+      });
+
+      scheduler.startTimer(timer);
+      scheduler.start();
+      scheduler.advance(13);
+
+      expect(firedAt).toEqual([4, 8, 12]);
+      expect(timer.isActive).toBe(true);
+    });
+
+    it('回调应该在服务任务的上下文中运行', () => {
+      let contextTask: string | undefined;
+      const timer = scheduler.createTimer('Context', 2, false, () => {
+        const current = scheduler.getSystemStatus().currentTask;
+        contextTask = current !== null ? scheduler.getTaskInfo(current)?.name : undefined;
+      });
+
+      scheduler.startTimer(timer);
+      scheduler.start();
+      scheduler.runUntilIdle();
+
+      expect(contextTask).toBe('TimerTask');
+    });
+
+    it('停止后的定时器不应该触发', () => {
+      let fired = 0;
+      const timer = scheduler.createTimer('Stopped', 3, true, () => {
+        fired++;
+      });
+
+      scheduler.startTimer(timer);
+      scheduler.start();
+      scheduler.advance(4);
+      expect(fired).toBe(1);
+
+      scheduler.stopTimer(timer);
+      scheduler.advance(10);
+      expect(fired).toBe(1);
+      expect(timer.isActive).toBe(false);
+    });
+
+    it('应该能够修改周期和重置定时器', () => {
+      const firedAt: number[] = [];
+      const timer = scheduler.createTimer('Dynamic', 10, false, () => {
+        firedAt.push(scheduler.getTickCount());
+      });
+
+      scheduler.start();
+      scheduler.advance(2);
+      scheduler.changeTimerPeriod(timer, 3);
+      scheduler.advance(10);
+      expect(firedAt).toEqual([5]);
+      expect(timer.period).toBe(3);
+
+      scheduler.resetTimer(timer);
+      scheduler.advance(2);
+      scheduler.resetTimer(timer);
+      scheduler.advance(10);
+      expect(firedAt).toEqual([5, 17]);
+    });
+
+    it('任务应该能够通过命令启动定时器', () => {
+      const firedAt: number[] = [];
+      const timer = scheduler.createTimer('FromTask', 3, false, () => {
+        firedAt.push(scheduler.getTickCount());
+      });
+
+      scheduler.createTask('Starter', function* () {
+        yield { delayTicks: 2 };
+        scheduler.startTimer(timer);
+      }, 5);
+
+      scheduler.start();
+      scheduler.runUntilIdle();
+      // 服务任务优先级更高，Starter 第 2 个节拍才开始运行，第 4 个节拍发出启动命令
+      expect(firedAt).toEqual([7]);
+    });
+
+    it('删除的定时器不应该再触发', () => {
+      let fired = 0;
+      const timer = scheduler.createTimer('Deleted', 2, true, () => {
+        fired++;
+      });
+
+      scheduler.startTimer(timer);
+      scheduler.deleteTimer(timer);
+      scheduler.start();
+      scheduler.advance(10);
+
+      expect(fired).toBe(0);
+      expect(scheduler.startTimer(timer)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Scheduler } from '../lib/scheduler';
+import { KernelEventBus } from '../lib/events';
+import { TraceRecorder } from '../lib/trace';
+import { VirtualTickSource } from '../lib/clock';
+import { SchedulerConfig } from '../lib/types';
+
+describe('TraceRecorder', () => {
+  let scheduler: Scheduler;
+  let config: SchedulerConfig;
+
+  beforeEach(() => {
+    config = {
+      maxTasks: 10,
+      tickRate: 10,
+      stackSize: 4096,
+      idleTaskStackSize: 1024,
+      tickSource: new VirtualTickSource(),
+      stepsPerTick: 2
+    };
+    scheduler = new Scheduler(config);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('应该按节拍和任务步记录上下文切换、状态变化和 IPC', () => {
+    const queue = scheduler.createQueue<number>(1, 'Inbox');
+    const trace = scheduler.createTraceRecorder();
+    trace.start();
+
+    scheduler.createTask('Consumer', function* () {
+      yield queue.receive();
+    }, 2);
+    scheduler.createTask('Producer', function* () {
+      yield queue.send(1);
+    }, 1);
+    scheduler.start();
+    scheduler.advance(1);
+
+    const records = trace.getRecords();
+    expect(records.map(record => `${record.tick}.${record.step}:${record.event}`)).toEqual([
+      '0.0:taskCreated',
+      '0.0:taskCreated',
+      '1.0:stateChanged',   // Consumer ready → running
+      '1.0:contextSwitch',
+      '1.0:stateChanged',   // Consumer running → blocked
+      '1.0:ipc.block',
+      '1.1:stateChanged',   // Producer ready → running
+      '1.1:contextSwitch',
+      '1.1:ipc.wake',
+      '1.1:stateChanged',   // Consumer blocked → ready
+      '1.1:stateChanged',   // 被唤醒的 Consumer 在同一步内抢占: Producer running → ready
+      '1.1:stateChanged',   // Consumer ready → running
+      '1.1:contextSwitch',
+      '1.1:taskCompleted',
+      '1.1:taskDeleted'
+    ]);
+    expect(records[5]).toMatchObject({ event: 'ipc.block', data: { name: 'Consumer', object: 'queue:Inbox' } });
+  });
+
+  it('定时器到期唤醒服务任务时不应该记录 IPC 超时', () => {
+    const trace = scheduler.createTraceRecorder();
+    trace.start();
+    const fired: number[] = [];
+
+    const timer = scheduler.createTimer('Blink', 2, true, () => fired.push(scheduler.getTickCount()));
+    scheduler.start();
+    scheduler.startTimer(timer);
+    scheduler.advance(5);
+
+    expect(fired).toEqual([2, 4]);
+    const events = trace.getRecords().map(record => record.event);
+    expect(events).toContain('ipc.block');
+    expect(events).not.toContain('ipc.timeout');
+  });
+
+  it('停止后不应该继续记录', () => {
+    const trace = scheduler.createTraceRecorder();
+    trace.start();
+    scheduler.start();
+    scheduler.advance(1);
+    trace.stop();
+    const count = trace.getRecords().length;
+
+    scheduler.createTask('Late', function* () {
+      yield;
+    }, 1);
+    scheduler.advance(2);
+    expect(trace.isRecording()).toBe(false);
+    expect(trace.getRecords()).toHaveLength(count);
+  });
+
+  it('缓冲区满后应该覆盖最旧的记录', () => {
+    const bus = new KernelEventBus([]);
+    let tick = 0;
+    const trace = new TraceRecorder(bus, () => ({ tick, step: 0 }), { capacity: 3 });
+    trace.start();
+
+    for (tick = 1; tick <= 5; tick++) {
+      bus.emit('isrEnter', { irq: tick, priority: 1, nesting: 1 });
+    }
+    expect(trace.getRecords().map(record => record.tick)).toEqual([3, 4, 5]);
+    expect(trace.getDroppedCount()).toBe(2);
+
+    trace.clear();
+    expect(trace.getRecords()).toEqual([]);
+    expect(() => new TraceRecorder(bus, () => ({ tick, step: 0 }), { capacity: 0 })).toThrow('Invalid trace capacity: 0');
+  });
+
+  it('应该导出 Chrome Trace 格式，任务运行为 B/E 区间，中断单独成线程', () => {
+    const trace = scheduler.createTraceRecorder();
+    trace.start();
+    scheduler.registerInterrupt(3, 1, () => {});
+    const handle = scheduler.createTask('Worker', function* () {
+      yield { delayTicks: 2 };
+    }, 1);
+
+    scheduler.start();
+    scheduler.advance(1);
+    scheduler.triggerInterrupt(3);
+    scheduler.advance(2);
+
+    const { traceEvents, otherData } = trace.toChromeTrace();
+    const worker = traceEvents.filter(event => event.tid === handle && (event.ph === 'B' || event.ph === 'E'));
+    // 每个节拍 100ms，每步 50ms
+    expect(worker.map(event => [event.ph, event.ts])).toEqual([['B', 100000], ['E', 150000], ['B', 300000], ['E', 350000]]);
+    expect(traceEvents).toContainEqual({ name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid: handle, args: { name: 'Worker' } });
+    expect(traceEvents).toContainEqual(expect.objectContaining({ name: 'IRQ 3', ph: 'B', pid: 2, tid: 3, ts: 200000 }));
+    expect(traceEvents).toContainEqual(expect.objectContaining({ name: 'running → blocked', ph: 'i', tid: handle, args: { reason: 'delay' } }));
+    expect(otherData).toEqual({ records: trace.getRecords().length, dropped: 0 });
+    expect(JSON.parse(trace.exportJSON())).toEqual(trace.toChromeTrace());
+  });
+});